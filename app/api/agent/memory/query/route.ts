@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getMemoryManager } from '@/lib/memory-manager';
+import { getMemoryManager, MemoryRankingMode, MemoryRankingWeights } from '@/lib/memory-manager';
+import { OGEmbeddingResult, MemoryScoreBreakdown } from '@/lib/0g-storage';
 
 interface MemoryQueryRequest {
   query: string;
@@ -7,6 +8,8 @@ interface MemoryQueryRequest {
   tags?: string[];
   limit?: number;
   threshold?: number;
+  ranking?: MemoryRankingMode;
+  weights?: Partial<MemoryRankingWeights>;
 }
 
 interface MemoryQueryResponse {
@@ -14,6 +17,7 @@ interface MemoryQueryResponse {
     id: string;
     content: string;
     similarity: number;
+    score: MemoryScoreBreakdown;
     metadata: {
       agentId: string;
       timestamp: string;
@@ -23,6 +27,51 @@ interface MemoryQueryResponse {
   }>;
   total: number;
   query: string;
+  threshold: number;
+  ranking: MemoryRankingMode;
+}
+
+function formatMemoryResults(results: OGEmbeddingResult[]): MemoryQueryResponse['memories'] {
+  return results.map(result => {
+    const similarity = result.similarity ?? 0;
+    return {
+      id: result.storageId,
+      content: result.metadata.content || '',
+      similarity,
+      score: result.score || { semantic: similarity, recency: 0, tagBoost: 0, combined: similarity },
+      metadata: {
+        agentId: result.metadata.agentId,
+        timestamp: result.metadata.timestamp,
+        tags: result.metadata.tags,
+        contentHash: result.metadata.contentHash
+      }
+    };
+  });
+}
+
+// Cosine similarity of text-embedding-3-small rarely exceeds 0.6 even for close paraphrases
+const DEFAULT_THRESHOLD = 0.35;
+
+function parseWeight(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  return Number(value);
+}
+
+/**
+ * Ranking weights must be non-negative numbers and must not all be zero
+ */
+function validateWeights(weights?: Partial<MemoryRankingWeights>): string | null {
+  if (!weights) return null;
+
+  const given: unknown[] = [weights.semantic, weights.recency, weights.tags].filter(weight => weight !== undefined);
+  if (!given.every(weight => typeof weight === 'number' && Number.isFinite(weight) && weight >= 0)) {
+    return 'Ranking weights must be non-negative numbers';
+  }
+  // Omitted weights fall back to the (positive) defaults, so only an explicit all-zero set is degenerate
+  if (given.length === 3 && given.every(weight => weight === 0)) {
+    return 'Ranking weights must not all be zero';
+  }
+  return null;
 }
 
 export async function POST(request: NextRequest) {
@@ -36,7 +85,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { query, agentId, tags, limit = 10, threshold = 0.7 } = body;
+    const { query, agentId, tags, limit = 10, threshold = DEFAULT_THRESHOLD, ranking = 'semantic', weights } = body;
+
+    const weightsError = validateWeights(weights);
+    if (weightsError) {
+      return NextResponse.json(
+        { error: 'Invalid ranking weights', details: weightsError },
+        { status: 400 }
+      );
+    }
 
     console.log(`🔍 Querying memory with: ${query.substring(0, 50)}...`);
 
@@ -50,26 +107,20 @@ export async function POST(request: NextRequest) {
       agentId,
       tags,
       limit,
-      threshold
+      threshold,
+      ranking,
+      weights
     });
 
     // Format response
-    const memories = memoryResults.map((result, index) => ({
-      id: result.storageId,
-      content: result.metadata.content,
-      similarity: 0.8 - (index * 0.05), // Mock similarity score
-      metadata: {
-        agentId: result.metadata.agentId,
-        timestamp: result.metadata.timestamp,
-        tags: result.metadata.tags,
-        contentHash: result.metadata.contentHash
-      }
-    }));
+    const memories = formatMemoryResults(memoryResults);
 
     const response: MemoryQueryResponse = {
       memories,
       total: memories.length,
-      query
+      query,
+      threshold,
+      ranking
     };
 
     console.log(`✅ Memory query completed: ${memories.length} results`);
@@ -95,7 +146,13 @@ export async function GET(request: NextRequest) {
     const agentId = searchParams.get('agentId');
     const tags = searchParams.get('tags')?.split(',').filter(Boolean);
     const limit = parseInt(searchParams.get('limit') || '10');
-    const threshold = parseFloat(searchParams.get('threshold') || '0.7');
+    const threshold = parseFloat(searchParams.get('threshold') || String(DEFAULT_THRESHOLD));
+    const ranking: MemoryRankingMode = searchParams.get('ranking') === 'hybrid' ? 'hybrid' : 'semantic';
+    const weights: Partial<MemoryRankingWeights> = {
+      semantic: parseWeight(searchParams.get('semanticWeight')),
+      recency: parseWeight(searchParams.get('recencyWeight')),
+      tags: parseWeight(searchParams.get('tagWeight'))
+    };
 
     if (!query) {
       return NextResponse.json(
@@ -104,6 +161,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const weightsError = validateWeights(weights);
+    if (weightsError) {
+      return NextResponse.json(
+        { error: 'Invalid ranking weights', details: weightsError },
+        { status: 400 }
+      );
+    }
+
     console.log(`🔍 GET Memory query: ${query.substring(0, 50)}...`);
 
     // Initialize memory manager
@@ -116,26 +181,20 @@ export async function GET(request: NextRequest) {
       agentId: agentId || undefined,
       tags,
       limit,
-      threshold
+      threshold,
+      ranking,
+      weights
     });
 
     // Format response
-    const memories = memoryResults.map((result, index) => ({
-      id: result.storageId,
-      content: result.metadata.content,
-      similarity: 0.8 - (index * 0.05), // Mock similarity score
-      metadata: {
-        agentId: result.metadata.agentId,
-        timestamp: result.metadata.timestamp,
-        tags: result.metadata.tags,
-        contentHash: result.metadata.contentHash
-      }
-    }));
+    const memories = formatMemoryResults(memoryResults);
 
     const response: MemoryQueryResponse = {
       memories,
       total: memories.length,
-      query
+      query,
+      threshold,
+      ranking
     };
 
     console.log(`✅ GET Memory query completed: ${memories.length} results`);
@@ -63,8 +63,7 @@ export async function POST(request: NextRequest) {
       const memoryResults = await memoryManager.queryMemory({
         query: message,
         agentId,
-        limit: 5,
-        threshold: 0.7
+        limit: 5
       });
 
       if (memoryResults.length > 0) {
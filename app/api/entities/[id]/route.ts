@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKnowledgeGraphService } from '@/lib/knowledge-graph';
+
+/**
+ * Profile of one entity, looked up by ID, email or name
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const profile = getKnowledgeGraphService().getProfile(decodeURIComponent(params.id));
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Entity not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(profile);
+  } catch (error: any) {
+    console.error('Failed to get entity:', error);
+    return NextResponse.json(
+      { error: 'Failed to get entity', details: error.message },
+      { status: 500 }
+    );
+  }
+}
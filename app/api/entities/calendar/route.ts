@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKnowledgeGraphService } from '@/lib/knowledge-graph';
+
+/**
+ * Ingest calendar events fetched by the browser (the Google Calendar client only runs there).
+ * Body: { events: CalendarEvent[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { events } = await request.json();
+
+    if (!Array.isArray(events)) {
+      return NextResponse.json(
+        { error: 'Missing required field: events' },
+        { status: 400 }
+      );
+    }
+
+    const entities = getKnowledgeGraphService().ingestCalendarEvents(events);
+
+    return NextResponse.json({ success: true, events: events.length, entities });
+  } catch (error: any) {
+    console.error('Failed to ingest calendar events:', error);
+    return NextResponse.json(
+      { error: 'Failed to ingest calendar events', details: error.message },
+      { status: 500 }
+    );
+  }
+}
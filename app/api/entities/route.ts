@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKnowledgeGraphService } from '@/lib/knowledge-graph';
+import { EntityKind } from '@/types/entity';
+
+const ENTITY_KINDS: EntityKind[] = ['person', 'place', 'organization'];
+
+/**
+ * List known entities, most recently seen first. ?kind=person|place|organization, ?query=<text>
+ * returns only the entities mentioned in the text.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get('kind') as EntityKind | null;
+    const query = searchParams.get('query');
+
+    if (kind && !ENTITY_KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: `Invalid kind: ${kind}`, details: `Expected one of ${ENTITY_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const knowledgeGraph = getKnowledgeGraphService();
+    const entities = query
+      ? knowledgeGraph.findMentionedEntities(query).filter(entity => !kind || entity.kind === kind)
+      : knowledgeGraph.listEntities(kind || undefined);
+
+    return NextResponse.json({ entities, total: entities.length });
+  } catch (error: any) {
+    console.error('Failed to list entities:', error);
+    return NextResponse.json(
+      { error: 'Failed to list entities', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isInlineMedia } from '@/lib/media-extraction';
+import { getMediaIngestService } from '@/lib/media-ingest';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * The original file behind a multimedia memory, reassembled from its chunks
+ * Query: ?download=1 to save it instead of showing it inline. Only raster images, audio and
+ * PDFs are ever shown inline, and always sandboxed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const file = await getMediaIngestService().getFile(params.id);
+    const inline = isInlineMedia(file.mimeType) && !request.nextUrl.searchParams.get('download');
+    const disposition = inline ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Length': String(file.data.length),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': 'sandbox'
+      }
+    });
+  } catch (error: any) {
+    const message: string = error?.message || 'Unknown error';
+    const status = /not found|no file attached/i.test(message) ? 404 : 500;
+    console.error('❌ Failed to retrieve file:', error);
+    return NextResponse.json(
+      { error: status === 404 ? message : 'Failed to retrieve file', details: message },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryService } from '@/lib/memory-service';
+
+/**
+ * Version history of a memory, oldest first. With `from` and `to` query params the response
+ * also includes a diff between those two versions.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    const memoryService = getMemoryService();
+    await memoryService.initialize();
+
+    const versions = memoryService.getMemoryHistory(params.id);
+    const diff = from && to
+      ? memoryService.diffMemoryVersions(params.id, parseInt(from), parseInt(to))
+      : undefined;
+
+    return NextResponse.json({
+      memoryId: params.id,
+      currentVersion: versions[versions.length - 1].version,
+      versions,
+      diff
+    });
+  } catch (error: any) {
+    const notFound = /not found/i.test(error.message || '');
+    console.error('Failed to get memory history:', error);
+    return NextResponse.json(
+      { error: notFound ? 'Memory or version not found' : 'Failed to get memory history', details: error.message },
+      { status: notFound ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryService } from '@/lib/memory-service';
+
+/**
+ * Importance score of a memory and the factors behind it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const memoryService = getMemoryService();
+    return NextResponse.json(memoryService.getImportance(params.id));
+  } catch (error: any) {
+    const notFound = /not found/i.test(error.message || '');
+    console.error('Failed to score memory importance:', error);
+    return NextResponse.json(
+      { error: notFound ? 'Memory not found' : 'Failed to score memory importance', details: error.message },
+      { status: notFound ? 404 : 500 }
+    );
+  }
+}
+
+/**
+ * Pin/unpin a memory or give feedback on it. Body: { pinned?: boolean, helpful?: boolean }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { pinned, helpful } = await request.json();
+
+    if (typeof pinned !== 'boolean' && typeof helpful !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Missing field: pinned or helpful (boolean)' },
+        { status: 400 }
+      );
+    }
+
+    const memoryService = getMemoryService();
+    let memory = typeof pinned === 'boolean' ? memoryService.setPinned(params.id, pinned) : null;
+    if (typeof helpful === 'boolean') {
+      memory = memoryService.recordFeedback(params.id, helpful);
+    }
+
+    return NextResponse.json({ memory, importance: memoryService.getImportance(params.id) });
+  } catch (error: any) {
+    const notFound = /not found/i.test(error.message || '');
+    console.error('Failed to update memory importance:', error);
+    return NextResponse.json(
+      { error: notFound ? 'Memory not found' : 'Failed to update memory importance', details: error.message },
+      { status: notFound ? 404 : 500 }
+    );
+  }
+}
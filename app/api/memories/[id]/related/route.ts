@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryService } from '@/lib/memory-service';
+import { MemoryEdgeType } from '@/types/memory';
+
+const EDGE_TYPES: MemoryEdgeType[] = ['supports', 'contradicts', 'follows-up', 'same-topic'];
+
+/**
+ * Walk the memory relationship graph.
+ *   ?depth=2&types=supports,follows-up&limit=25  neighbourhood of the memory
+ *   ?to=<memoryId>                               shortest path to another memory
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const to = searchParams.get('to');
+    const types = searchParams.get('types')?.split(',').filter(Boolean) as MemoryEdgeType[] | undefined;
+
+    const invalidType = types?.find(type => !EDGE_TYPES.includes(type));
+    if (invalidType) {
+      return NextResponse.json(
+        { error: `Invalid edge type: ${invalidType}`, details: `Expected one of ${EDGE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const memoryService = getMemoryService();
+    await memoryService.initialize();
+
+    if (to) {
+      const path = memoryService.findMemoryPath(params.id, to, { types });
+      return NextResponse.json({ from: params.id, to, connected: !!path, ...(path || {}) });
+    }
+
+    const related = memoryService.getRelatedMemories(params.id, {
+      depth: parseInt(searchParams.get('depth') || '1'),
+      limit: parseInt(searchParams.get('limit') || '25'),
+      types
+    });
+
+    return NextResponse.json(related);
+  } catch (error: any) {
+    const notFound = /not found/i.test(error.message || '');
+    console.error('Failed to get related memories:', error);
+    return NextResponse.json(
+      { error: notFound ? 'Memory not found' : 'Failed to get related memories', details: error.message },
+      { status: notFound ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryService } from '@/lib/memory-service';
+
+/**
+ * Restore an earlier version of a memory as a new version. Body: { version, anchor? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { version, anchor } = await request.json();
+
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json(
+        { error: 'Missing or invalid field: version' },
+        { status: 400 }
+      );
+    }
+
+    const memoryService = getMemoryService();
+    await memoryService.initialize();
+
+    const memory = await memoryService.revertMemory(params.id, version, { anchor: anchor === true });
+
+    return NextResponse.json(memory);
+  } catch (error: any) {
+    const notFound = /not found/i.test(error.message || '');
+    console.error('Failed to revert memory:', error);
+    return NextResponse.json(
+      { error: notFound ? 'Memory or version not found' : 'Failed to revert memory', details: error.message },
+      { status: notFound ? 404 : 500 }
+    );
+  }
+}
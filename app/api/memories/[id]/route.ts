@@ -33,11 +33,12 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const body = await request.json();
+    const { anchor, ...updates } = await request.json();
     const memoryService = getMemoryService();
     await memoryService.initialize();
     
-    const updatedMemory = await memoryService.updateMemory(params.id, body);
+    // Content changes become a new version; `anchor` also commits that version on-chain
+    const updatedMemory = await memoryService.updateMemory(params.id, updates, { anchor: anchor === true });
     
     return NextResponse.json(updatedMemory);
   } catch (error: any) {
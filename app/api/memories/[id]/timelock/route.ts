@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryService } from '@/lib/memory-service';
+
+/**
+ * Open a timelocked memory. Responds 423 (Locked) until the unlock round has been published.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const memoryService = getMemoryService();
+    const memory = await memoryService.openTimelockMemory(params.id);
+
+    return NextResponse.json(memory);
+  } catch (error: any) {
+    const locked = error.message?.startsWith('Timelock has not expired');
+    console.error('Failed to open timelocked memory:', error);
+    return NextResponse.json(
+      { error: locked ? 'Memory is still timelocked' : 'Failed to open timelocked memory', details: error.message },
+      { status: locked ? 423 : 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryService } from '@/lib/memory-service';
+
+/**
+ * Threshold unlock status: which signers have submitted shares so far
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const memoryService = getMemoryService();
+    const status = await memoryService.getThresholdStatus(params.id);
+
+    return NextResponse.json(status);
+  } catch (error: any) {
+    console.error('Failed to get unlock status:', error);
+    return NextResponse.json(
+      { error: 'Failed to get unlock status', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Submit a signer's share. Body: { signer: string, share: string }
+ * The response carries the decrypted content once the required number of signers have approved.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { signer, share } = body;
+
+    if (!signer || !share) {
+      return NextResponse.json(
+        { error: 'Missing required fields: signer, share' },
+        { status: 400 }
+      );
+    }
+
+    const memoryService = getMemoryService();
+    const status = await memoryService.submitThresholdShare(params.id, signer, share);
+
+    return NextResponse.json(status);
+  } catch (error: any) {
+    console.error('Failed to submit share:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit share', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Discard shares collected for an in-progress unlock
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const memoryService = getMemoryService();
+    const cancelled = memoryService.cancelThresholdUnlock(params.id);
+
+    return NextResponse.json({ success: true, cancelled });
+  } catch (error: any) {
+    console.error('Failed to cancel unlock:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel unlock', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryConsolidationService } from '@/lib/memory-consolidation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cluster related memories and replace each cluster with a summary memory
+ * Body: { similarityThreshold?: number, minClusterSize?: number, maxClusterSize?: number, dryRun?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { similarityThreshold, minClusterSize, maxClusterSize, dryRun = false } = body;
+
+    const consolidationService = getMemoryConsolidationService();
+    const report = await consolidationService.consolidate({
+      similarityThreshold,
+      minClusterSize,
+      maxClusterSize,
+      dryRun
+    });
+
+    return NextResponse.json({
+      success: !report.error,
+      report,
+      timestamp: new Date().toISOString(),
+    }, { status: report.error ? 500 : 200 });
+  } catch (error: any) {
+    console.error('❌ Memory consolidation failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to consolidate memories', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Report the last consolidation run
+ */
+export async function GET() {
+  try {
+    const consolidationService = getMemoryConsolidationService();
+
+    return NextResponse.json({
+      success: true,
+      running: consolidationService.isRunning(),
+      due: consolidationService.isDue(),
+      report: consolidationService.getLastReport(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to read consolidation state:', error);
+    return NextResponse.json(
+      { error: 'Failed to read consolidation state', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ContradictionAction, getMemoryService } from '@/lib/memory-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ACTIONS: ContradictionAction[] = ['keep-new', 'keep-existing', 'keep-both'];
+
+/**
+ * Settle a pending contradiction. Body: { action: 'keep-new' | 'keep-existing' | 'keep-both' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { action } = await request.json();
+
+    if (ACTIONS.indexOf(action) === -1) {
+      return NextResponse.json(
+        { error: 'Invalid action', details: `action must be one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const memoryService = getMemoryService();
+    const contradiction = await memoryService.resolveContradiction(params.id, action);
+
+    return NextResponse.json({ success: true, contradiction });
+  } catch (error: any) {
+    const message = error?.message || 'Unknown error';
+    const status = /not found/i.test(message) ? 404 : /already resolved/i.test(message) ? 409 : 500;
+    console.error('❌ Failed to resolve contradiction:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve contradiction', details: message },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryService } from '@/lib/memory-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Contradictions found between memories, newest first. Query: ?status=pending|all (default pending)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status') || 'pending';
+    if (status !== 'pending' && status !== 'all') {
+      return NextResponse.json(
+        { error: 'Invalid status', details: 'status must be "pending" or "all"' },
+        { status: 400 }
+      );
+    }
+
+    const memoryService = getMemoryService();
+    const contradictions = memoryService.listContradictions({ pendingOnly: status === 'pending' });
+
+    return NextResponse.json({
+      success: true,
+      contradictions,
+      count: contradictions.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to list contradictions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list contradictions', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getMemoryImportService,
+  IMPORT_MAX_FILE_BYTES,
+  IMPORT_MAX_FILES,
+  IMPORT_MAX_TOTAL_BYTES,
+  ImportFile,
+  ImportProgress
+} from '@/lib/memory-import';
+import { MemoryImportFormat } from '@/types/memory';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FORMATS: MemoryImportFormat[] = ['markdown', 'json', 'csv', 'chatgpt'];
+// Multipart framing and the other fields on top of the files themselves
+const FORM_OVERHEAD_BYTES = 1024 * 1024;
+
+/**
+ * Import a notes archive as memories
+ * Multipart form: files (one or more; the file name may be a relative path such as "Vault/Projects/Garden.md"),
+ * format? (markdown | json | csv | chatgpt, detected when omitted), category?, resume? (default true), wait?
+ * Requests over MEMORY_IMPORT_MAX_FILES files, MEMORY_IMPORT_MAX_FILE_MB per file or
+ * MEMORY_IMPORT_MAX_TOTAL_MB in total are refused with 413.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Refuse oversized bodies before buffering them
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > IMPORT_MAX_TOTAL_BYTES + FORM_OVERHEAD_BYTES) {
+      return tooLarge(`Import too large: the upload is ${contentLength} bytes, the limit is ${IMPORT_MAX_TOTAL_BYTES}`);
+    }
+
+    const form = await request.formData();
+    const format = form.get('format');
+    const category = form.get('category');
+    const resume = form.get('resume') !== 'false';
+    const wait = form.get('wait') === 'true';
+
+    if (format && (typeof format !== 'string' || FORMATS.indexOf(format as MemoryImportFormat) === -1)) {
+      return NextResponse.json(
+        { error: `Invalid format: expected one of ${FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const entries = form.getAll('files').filter((entry): entry is File => typeof entry !== 'string');
+    if (entries.length > IMPORT_MAX_FILES) {
+      return tooLarge(`Too many files: ${entries.length}, the limit is ${IMPORT_MAX_FILES}`);
+    }
+    const oversized = entries.find(entry => entry.size > IMPORT_MAX_FILE_BYTES);
+    if (oversized) {
+      return tooLarge(`File too large: ${oversized.name} is ${oversized.size} bytes, the limit is ${IMPORT_MAX_FILE_BYTES}`);
+    }
+
+    const files: ImportFile[] = [];
+    for (const entry of entries) {
+      files.push({ path: entry.name, content: await entry.text() });
+    }
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'Missing required field: files' },
+        { status: 400 }
+      );
+    }
+
+    const importService = getMemoryImportService();
+    if (importService.isRunning()) {
+      return NextResponse.json(
+        { error: 'An import is already in progress', progress: summarize(importService.getProgress()) },
+        { status: 409 }
+      );
+    }
+
+    let run: Promise<ImportProgress>;
+    try {
+      run = importService.importFiles(files, {
+        format: (format as MemoryImportFormat) || undefined,
+        category: typeof category === 'string' && category.trim() ? category.trim() : undefined,
+        resume
+      });
+    } catch (error: any) {
+      if (/^(Too many files|File too large|Import too large)/.test(error.message)) {
+        return tooLarge(error.message);
+      }
+      // The files couldn't be recognized or parsed
+      return NextResponse.json(
+        { error: 'Failed to read import files', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (wait) {
+      const progress = await run;
+      return NextResponse.json({
+        success: progress.status === 'completed',
+        progress: summarize(progress),
+        timestamp: new Date().toISOString(),
+      }, { status: progress.status === 'failed' ? 500 : 200 });
+    }
+
+    run.catch(error => console.error('❌ Background import failed:', error));
+
+    return NextResponse.json({
+      success: true,
+      message: 'Import started',
+      progress: summarize(importService.getProgress()),
+      timestamp: new Date().toISOString(),
+    }, { status: 202 });
+  } catch (error: any) {
+    console.error('❌ Failed to import memories:', error);
+    return NextResponse.json(
+      { error: 'Failed to import memories', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Report progress of the current or last import run
+ */
+export async function GET() {
+  try {
+    const importService = getMemoryImportService();
+
+    return NextResponse.json({
+      success: true,
+      running: importService.isRunning(),
+      progress: summarize(importService.getProgress()),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to read import progress:', error);
+    return NextResponse.json(
+      { error: 'Failed to read import progress', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+function tooLarge(message: string) {
+  return NextResponse.json({ error: message, details: message }, { status: 413 });
+}
+
+// The key -> memory map can be large; report its size instead
+function summarize(progress: ImportProgress) {
+  const { processed, pendingAnchor, ...rest } = progress;
+  return { ...rest, processed: Object.keys(processed).length, pendingAnchor: pendingAnchor.length };
+}
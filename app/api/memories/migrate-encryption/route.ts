@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getMemoryManager } from '@/lib/memory-manager';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Re-encrypt indexed Walrus/0G blobs that still use the legacy CryptoJS format
+ */
+export async function POST() {
+  try {
+    const memoryManager = getMemoryManager();
+    await memoryManager.initialize();
+
+    const result = await memoryManager.migrateLegacyEmbeddings();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Encryption migration failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to migrate encrypted memories', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
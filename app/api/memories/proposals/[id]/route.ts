@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryReviewQueue } from '@/lib/memory-review';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Review a proposed memory. Approved proposals are stored (encrypted, uploaded and anchored).
+ * Body: { action: 'approve' | 'reject', edits?: { content?, type?, category?, tags? } }
+ * Edits are validated (content a non-empty string, type a known MemoryType); invalid edits get a 400.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { action, edits } = await request.json();
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { error: 'Invalid action', details: 'action must be "approve" or "reject"' },
+        { status: 400 }
+      );
+    }
+    if (edits !== undefined && (typeof edits !== 'object' || edits === null || Array.isArray(edits))) {
+      return NextResponse.json(
+        { error: 'Invalid edits', details: 'edits must be an object' },
+        { status: 400 }
+      );
+    }
+
+    const reviewQueue = getMemoryReviewQueue();
+    const proposal = action === 'approve'
+      ? await reviewQueue.approve(params.id, edits || {})
+      : reviewQueue.reject(params.id);
+
+    return NextResponse.json({ success: true, proposal });
+  } catch (error: any) {
+    const message = error?.message || 'Unknown error';
+    const status = /not found/i.test(message) ? 404
+      : /already/i.test(message) ? 409
+      : /cannot be empty|^Invalid edits/i.test(message) ? 400
+      : 500;
+    console.error('❌ Failed to review proposed memory:', error);
+    return NextResponse.json(
+      { error: 'Failed to review proposed memory', details: message },
+      { status }
+    );
+  }
+}
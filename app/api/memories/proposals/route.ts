@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryReviewQueue } from '@/lib/memory-review';
+import { ProposedMemoryStatus } from '@/types/memory';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const STATUSES: ProposedMemoryStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * Proposed memories, newest first, and the auto-approve rules.
+ * Query: ?status=pending|approved|rejected|all (default pending)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status') || 'pending';
+    if (status !== 'all' && STATUSES.indexOf(status as ProposedMemoryStatus) === -1) {
+      return NextResponse.json(
+        { error: 'Invalid status', details: `status must be one of: ${STATUSES.join(', ')}, all` },
+        { status: 400 }
+      );
+    }
+
+    const reviewQueue = getMemoryReviewQueue();
+    const proposals = reviewQueue.list(status === 'all' ? undefined : status as ProposedMemoryStatus);
+
+    return NextResponse.json({
+      success: true,
+      proposals,
+      count: proposals.length,
+      settings: reviewQueue.getSettings(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to list proposed memories:', error);
+    return NextResponse.json(
+      { error: 'Failed to list proposed memories', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the auto-approve rules
+ * Body: { settings: { defaultAction: 'approve' | 'review', categories: { [category]: 'approve' | 'review' } } }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { settings } = await request.json();
+
+    if (!settings || typeof settings !== 'object') {
+      return NextResponse.json(
+        { error: 'Missing or invalid field: settings (object)' },
+        { status: 400 }
+      );
+    }
+
+    const reviewQueue = getMemoryReviewQueue();
+    return NextResponse.json({ success: true, settings: reviewQueue.setSettings(settings) });
+  } catch (error: any) {
+    const invalid = /invalid review settings/i.test(error?.message || '');
+    console.error('❌ Failed to save memory review settings:', error);
+    return NextResponse.json(
+      { error: invalid ? 'Invalid review settings' : 'Failed to save review settings', details: error?.message || 'Unknown error' },
+      { status: invalid ? 400 : 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryService } from '@/lib/memory-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Memories created from a chat message or session, newest first
+ * Query: ?messageId=<chat message id> and/or ?sessionId=<chat session id>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const messageId = request.nextUrl.searchParams.get('messageId') || undefined;
+    const sessionId = request.nextUrl.searchParams.get('sessionId') || undefined;
+
+    if (!messageId && !sessionId) {
+      return NextResponse.json(
+        { error: 'Missing query parameter: messageId or sessionId' },
+        { status: 400 }
+      );
+    }
+
+    const memoryService = getMemoryService();
+    const memories = memoryService.findBySource({ messageId, sessionId });
+
+    return NextResponse.json({
+      success: true,
+      memories,
+      count: memories.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to look up memories by source:', error);
+    return NextResponse.json(
+      { error: 'Failed to look up memories by source', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
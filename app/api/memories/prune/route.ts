@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryService } from '@/lib/memory-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Archive unpinned memories whose importance has decayed
+ * Body: { minImportance?: number (0-1), dryRun?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { minImportance, dryRun = false } = body;
+
+    if (minImportance !== undefined && (typeof minImportance !== 'number' || minImportance < 0 || minImportance > 1)) {
+      return NextResponse.json(
+        { error: 'Invalid minImportance', details: 'minImportance must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const memoryService = getMemoryService();
+    const result = await memoryService.pruneMemories({ minImportance, dryRun: dryRun === true });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Memory pruning failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to prune memories', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
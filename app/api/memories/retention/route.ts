@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRetentionService } from '@/lib/retention';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Current retention rules and the last sweep report
+ */
+export async function GET() {
+  try {
+    const retentionService = getRetentionService();
+
+    return NextResponse.json({
+      success: true,
+      rules: retentionService.getRules(),
+      running: retentionService.isRunning(),
+      report: retentionService.getLastReport(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to read retention state:', error);
+    return NextResponse.json(
+      { error: 'Failed to read retention state', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the retention rules
+ * Body: { rules: [{ id, types?, categories?, tags?, maxAgeDays, includePinned?, enabled?, description? }] }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { rules } = await request.json();
+
+    if (!Array.isArray(rules)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid field: rules (array)' },
+        { status: 400 }
+      );
+    }
+
+    const retentionService = getRetentionService();
+    return NextResponse.json({ success: true, rules: retentionService.setRules(rules) });
+  } catch (error: any) {
+    const invalid = /invalid retention rule/i.test(error?.message || '');
+    console.error('❌ Failed to save retention rules:', error);
+    return NextResponse.json(
+      { error: invalid ? 'Invalid retention rules' : 'Failed to save retention rules', details: error?.message || 'Unknown error' },
+      { status: invalid ? 400 : 500 }
+    );
+  }
+}
+
+/**
+ * Sweep expired memories now. Body: { dryRun?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { dryRun = false } = body;
+
+    const retentionService = getRetentionService();
+    const report = await retentionService.sweep({ dryRun: dryRun === true });
+
+    return NextResponse.json({
+      success: !report.error,
+      report,
+      timestamp: new Date().toISOString(),
+    }, { status: report.error ? 500 : 200 });
+  } catch (error: any) {
+    console.error('❌ Retention sweep failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to run retention sweep', details: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
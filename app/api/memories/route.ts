@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMemoryService } from '@/lib/memory-service';
+import { MemorySearchQuery } from '@/types/memory';
+
+const ACCESS_LEVELS = ['public', 'private', 'encrypted'];
 
 export async function GET(request: NextRequest) {
   try {
@@ -10,6 +13,26 @@ export async function GET(request: NextRequest) {
     const tags = searchParams.get('tags')?.split(',') || [];
     const limit = parseInt(searchParams.get('limit') || '20');
     const offset = parseInt(searchParams.get('offset') || '0');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const accessLevel = searchParams.get('accessLevel');
+    const verifyIntegrity = searchParams.get('verifyIntegrity') === 'true';
+
+    if (accessLevel && ACCESS_LEVELS.indexOf(accessLevel) === -1) {
+      return NextResponse.json(
+        { error: 'Invalid accessLevel: expected public, private or encrypted' },
+        { status: 400 }
+      );
+    }
+
+    const start = new Date(startDate || 0);
+    const end = endDate ? new Date(endDate) : new Date();
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid startDate or endDate: expected a date string' },
+        { status: 400 }
+      );
+    }
 
     const memoryService = getMemoryService();
     
@@ -22,7 +45,10 @@ export async function GET(request: NextRequest) {
       category,
       tags,
       limit,
-      offset
+      offset,
+      dateRange: startDate || endDate ? { start, end } : undefined,
+      accessLevel: (accessLevel || undefined) as MemorySearchQuery['accessLevel'],
+      verifyIntegrity
     });
 
     return NextResponse.json(searchResult);
@@ -38,7 +64,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { content, type, category, tags, encrypted } = body;
+    const { content, type, category, tags, encrypted, threshold, timelock, onDuplicate, similarityCutoff } = body;
 
     if (!content || !type || !category) {
       return NextResponse.json(
@@ -52,12 +78,92 @@ export async function POST(request: NextRequest) {
     // Initialize the service if needed
     await memoryService.initialize();
     
-    const memory = await memoryService.createMemory({
+    const memoryData = {
       content,
       type,
       category,
       tags: tags || [],
-      encrypted: encrypted !== false // Default to true
+      encrypted: encrypted !== false, // Default to true
+      accessPolicy: { owner: 'local-user', permissions: [] },
+      metadata: { size: content.length, checksum: '', version: 1, relatedMemories: [] }
+    };
+
+    if (threshold && timelock) {
+      return NextResponse.json(
+        { error: 'A memory can have a threshold or a timelock policy, not both' },
+        { status: 400 }
+      );
+    }
+
+    // Sealed until the beacon reaches unlockTime; optionally deleted at autoDelete
+    if (timelock) {
+      if (!timelock.unlockTime) {
+        return NextResponse.json(
+          { error: 'Invalid timelock policy: unlockTime is required' },
+          { status: 400 }
+        );
+      }
+
+      const memory = await memoryService.createTimelockMemory(memoryData, {
+        unlockTime: new Date(timelock.unlockTime),
+        autoDelete: timelock.autoDelete ? new Date(timelock.autoDelete) : undefined
+      });
+      return NextResponse.json(memory);
+    }
+
+    // N-of-M guardian protection: shares are returned once and must be handed to the signers
+    if (threshold) {
+      if (!Array.isArray(threshold.signers) || !threshold.requiredSignatures) {
+        return NextResponse.json(
+          { error: 'Invalid threshold policy: requiredSignatures and signers are required' },
+          { status: 400 }
+        );
+      }
+
+      const { memory, shares } = await memoryService.createThresholdMemory(memoryData, {
+        requiredSignatures: Number(threshold.requiredSignatures),
+        signers: threshold.signers
+      });
+      return NextResponse.json({ ...memory, shares });
+    }
+
+    if (onDuplicate && !['merge', 'ask', 'allow'].includes(onDuplicate)) {
+      return NextResponse.json(
+        { error: 'Invalid onDuplicate: expected merge, ask or allow' },
+        { status: 400 }
+      );
+    }
+
+    const cutoff = similarityCutoff !== undefined ? Number(similarityCutoff) : undefined;
+    if (cutoff !== undefined && !(cutoff > 0 && cutoff <= 1)) {
+      return NextResponse.json(
+        { error: 'Invalid similarityCutoff: expected a number in (0, 1]' },
+        { status: 400 }
+      );
+    }
+
+    // 'ask' leaves the decision to the client, which resubmits with 'merge' or 'allow'
+    if (onDuplicate === 'ask') {
+      const duplicate = await memoryService.findDuplicate(content, type, { similarityCutoff: cutoff });
+      if (duplicate) {
+        return NextResponse.json(
+          {
+            error: 'Possible duplicate memory',
+            duplicate: {
+              id: duplicate.memory.id,
+              content: duplicate.memory.content,
+              similarity: duplicate.similarity,
+              exact: duplicate.exact
+            }
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const memory = await memoryService.createMemory(memoryData, {
+      onDuplicate: onDuplicate === 'allow' ? 'allow' : 'merge',
+      similarityCutoff: cutoff
     });
 
     return NextResponse.json(memory);
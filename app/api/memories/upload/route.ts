@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMediaIngestService, MEDIA_MAX_FILE_BYTES } from '@/lib/media-ingest';
+import { MediaFile } from '@/lib/media-extraction';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Room for the transcript and the multipart framing on top of the file itself
+const FORM_OVERHEAD_BYTES = 1024 * 1024;
+
+/**
+ * Upload a file as a multimedia memory
+ * Multipart form: file, transcript? (text sidecar for audio), category?, tags? (comma-separated),
+ * describeImage? ('true' to send an image to the vision model for its searchable description)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Refuse oversized bodies before buffering them
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MEDIA_MAX_FILE_BYTES + FORM_OVERHEAD_BYTES) {
+      const message = `File too large: the upload is ${contentLength} bytes, the limit is ${MEDIA_MAX_FILE_BYTES}`;
+      return NextResponse.json({ error: message, details: message }, { status: 413 });
+    }
+
+    const form = await request.formData();
+    const file = form.get('file');
+    const transcript = form.get('transcript');
+    const category = form.get('category');
+    const tags = form.get('tags');
+    const describeImage = form.get('describeImage');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: file' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getMediaIngestService().ingest({
+      file: await toMediaFile(file),
+      transcript: transcript && typeof transcript !== 'string' ? await toMediaFile(transcript) : undefined,
+      describeImage: typeof describeImage === 'string' ? describeImage === 'true' : undefined,
+      category: typeof category === 'string' && category.trim() ? category.trim() : undefined,
+      tags: typeof tags === 'string' ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      memory: result.memory,
+      duplicate: result.duplicate,
+      timestamp: new Date().toISOString(),
+    }, { status: result.duplicate ? 200 : 201 });
+  } catch (error: any) {
+    const message: string = error?.message || 'Unknown error';
+    const status = /^Unsupported file type/.test(message) ? 415
+      : /^File too large/.test(message) ? 413
+      : /^File is empty/.test(message) ? 400
+      : 500;
+    console.error('❌ Failed to upload file:', error);
+    return NextResponse.json(
+      { error: status === 500 ? 'Failed to upload file' : message, details: message },
+      { status }
+    );
+  }
+}
+
+async function toMediaFile(file: File): Promise<MediaFile> {
+  return {
+    name: file.name,
+    mimeType: file.type,
+    data: Buffer.from(await file.arrayBuffer())
+  };
+}
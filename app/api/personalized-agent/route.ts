@@ -8,7 +8,7 @@ export const dynamic = 'force-dynamic';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userInput, previousMessages } = body;
+    const { userInput, previousMessages, sessionId, messageId } = body;
 
     if (!userInput) {
       return NextResponse.json(
@@ -29,7 +29,8 @@ export async function POST(request: NextRequest) {
     // Generate personalized response
     const response = await personalizedAgent.generatePersonalizedResponse(
       userInput,
-      previousMessages || []
+      previousMessages || [],
+      { sessionId, messageId }
     );
 
     // Get current insights for the response
@@ -47,6 +48,11 @@ export async function POST(request: NextRequest) {
       transactionHash: response.transactionHash,
       walrusUrl: response.walrusUrl,
       indexingStatus: response.indexingStatus,
+      memoriesUsed: response.memoriesUsed || [],
+      clarification: response.clarification,
+      proposedMemories: response.proposedMemories || [],
+      messageId: response.messageId,
+      memoriesCreated: response.memoriesCreated || [],
       insights
     });
 
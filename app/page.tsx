@@ -5,14 +5,18 @@ import { Header } from '@/components/layout/Header'
 import { PersonalizedChatInterface } from '@/components/chat/PersonalizedChatInterface'
 import { ProfileManagement, UserProfile } from '@/components/profile/ProfileManagement'
 import { MemoryManagement } from '@/components/memory/MemoryManagement'
+import { MemoryReviewPanel } from '@/components/memory/MemoryReviewPanel'
+import { MediaUpload } from '@/components/memory/MediaUpload'
+import { MemoryImport } from '@/components/memory/MemoryImport'
 import { StatsCard } from '@/components/dashboard/StatsCard'
 import CalendarInterface from '@/components/calendar/CalendarInterface'
 import { getMemoryService } from '@/lib/memory-service'
 import { getChatService } from '@/lib/chat-service'
 import { aiService } from '@/lib/ai-service'
-import { MemoryType, MemoryEntry } from '@/types/memory'
+import { MemoryType, MemoryEntry, MemoryReviewSettings, ProposedMemory } from '@/types/memory'
 import { ChatMessage } from '@/types/chat'
 import toast from 'react-hot-toast'
+import { v4 as uuidv4 } from 'uuid'
 import { Heart, Settings, User } from 'lucide-react'
 
 export default function Home() {
@@ -21,6 +25,8 @@ export default function Home() {
   const [isTyping, setIsTyping] = useState(false)
   const [storeMemory, setStoreMemory] = useState(true)
   const [memories, setMemories] = useState<MemoryEntry[]>([])
+  const [proposals, setProposals] = useState<ProposedMemory[]>([])
+  const [reviewSettings, setReviewSettings] = useState<MemoryReviewSettings>({ defaultAction: 'review', categories: {} })
   const [stats, setStats] = useState({
     totalMemories: 0,
     totalSize: 0,
@@ -33,6 +39,8 @@ export default function Home() {
   
   // BetterHalf.ai is now the default and only mode
   const [personalizedMessages, setPersonalizedMessages] = useState<ChatMessage[]>([])
+  const [chatSessionId, setChatSessionId] = useState(() => uuidv4())
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
   const [showProfileManagement, setShowProfileManagement] = useState(false)
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
   const [personalizedInsights, setPersonalizedInsights] = useState<any>(null)
@@ -220,7 +228,9 @@ export default function Home() {
         },
         body: JSON.stringify({
           userInput: content,
-          previousMessages: personalizedMessages
+          previousMessages: personalizedMessages,
+          sessionId: chatSessionId,
+          messageId: userMessage.id
         }),
       });
 
@@ -242,13 +252,16 @@ export default function Home() {
       let messageContent = data.content;
 
       const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: data.messageId || (Date.now() + 1).toString(),
         content: messageContent,
         role: 'assistant',
         timestamp: new Date(),
         explorerUrl: data.explorerUrl,
         transactionHash: data.transactionHash,
-        walrusUrl: data.walrusUrl
+        walrusUrl: data.walrusUrl,
+        memoriesUsed: data.memoriesUsed,
+        clarification: data.clarification,
+        memoriesCreated: data.memoriesCreated
       }
 
       // Debug: Log the URLs being set in UI
@@ -265,6 +278,11 @@ export default function Home() {
 
       // No polling needed - just show the AI response
 
+      // New memories from this turn wait for review
+      if (data.proposedMemories?.length > 0) {
+        loadProposals()
+      }
+
       // Update insights if provided
       if (data.insights) {
         setPersonalizedInsights(data.insights)
@@ -343,6 +361,7 @@ export default function Home() {
     console.log('🗑️ Clearing BetterHalf.ai chat...')
     setPersonalizedMessages([])
     setPersonalizedInsights(null)
+    setChatSessionId(uuidv4())
     console.log('✅ BetterHalf.ai chat cleared successfully')
     } catch (error) {
       console.error('Failed to clear chat:', error)
@@ -488,8 +507,136 @@ export default function Home() {
   useEffect(() => {
     loadUserProfile()
     refreshPersonalizedInsights()
+    loadProposals()
   }, [])
 
+  // Proposed memories live server-side with the agent that extracted them
+  const loadProposals = async () => {
+    try {
+      const response = await fetch('/api/memories/proposals')
+      if (response.ok) {
+        const data = await response.json()
+        setProposals(data.proposals)
+        setReviewSettings(data.settings)
+      }
+    } catch (error) {
+      console.warn('Failed to load proposed memories:', error)
+    }
+  }
+
+  const reviewProposal = async (id: string, body: any) => {
+    const response = await fetch(`/api/memories/proposals/${id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.details || data.error || 'Failed to review memory');
+    }
+    setProposals(prev => prev.filter(proposal => proposal.id !== id))
+    return data.proposal as ProposedMemory
+  }
+
+  const handleApproveProposal = async (id: string, content?: string) => {
+    try {
+      const proposal = await reviewProposal(id, { action: 'approve', edits: content !== undefined ? { content } : undefined })
+      // Let the reply it came from link to the new memory
+      const sourceIds = proposal.provenance?.messageIds || []
+      if (proposal.memoryId) {
+        setPersonalizedMessages(prev => prev.map(message =>
+          message.role === 'assistant' && sourceIds.indexOf(message.id) !== -1
+            ? { ...message, memoriesCreated: [...(message.memoriesCreated || []), proposal.memoryId!] }
+            : message
+        ))
+      }
+      await Promise.all([loadStats(), loadMemories()])
+      toast.success('Memory saved')
+    } catch (error: any) {
+      console.error('Failed to approve memory:', error)
+      toast.error(`Failed to save memory: ${error.message}`)
+    }
+  }
+
+  const handleRejectProposal = async (id: string) => {
+    try {
+      await reviewProposal(id, { action: 'reject' })
+    } catch (error: any) {
+      console.error('Failed to reject memory:', error)
+      toast.error(`Failed to forget memory: ${error.message}`)
+    }
+  }
+
+  const handleSetAutoApprove = async (category: string, autoApprove: boolean) => {
+    try {
+      const response = await fetch('/api/memories/proposals', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          settings: {
+            ...reviewSettings,
+            categories: { ...reviewSettings.categories, [category]: autoApprove ? 'approve' : 'review' }
+          }
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save review settings');
+      }
+      setReviewSettings(data.settings)
+      toast.success(autoApprove ? `${category} memories will be kept without asking` : `${category} memories will be reviewed first`)
+    } catch (error: any) {
+      console.error('Failed to save review settings:', error)
+      toast.error(`Failed to save review settings: ${error.message}`)
+    }
+  }
+
+
+  const handleUploadMedia = async (file: File, transcript?: File) => {
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      if (transcript) form.append('transcript', transcript)
+
+      const response = await fetch('/api/memories/upload', { method: 'POST', body: form })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to upload file')
+      }
+
+      // Uploads are stored by the server, so show the new memory right away
+      setMemories(prev => prev.some(memory => memory.id === data.memory.id) ? prev : [data.memory, ...prev])
+      await loadStats()
+      toast.success(data.duplicate ? `${file.name} is already remembered` : `Remembered ${file.name}`)
+    } catch (error: any) {
+      console.error('Failed to upload file:', error)
+      toast.error(`Failed to upload ${file.name}: ${error.message}`)
+    }
+  }
+
+  const handleImported = async () => {
+    try {
+      // Imports are stored by the server; merge its newest memories into the list
+      const response = await fetch('/api/memories?limit=50')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to load imported memories')
+      }
+
+      const imported: MemoryEntry[] = data.memories || []
+      setMemories(prev => {
+        const known = new Set(prev.map(memory => memory.id))
+        return [...imported.filter(memory => !known.has(memory.id)), ...prev]
+      })
+      await loadStats()
+      toast.success('Import finished')
+    } catch (error: any) {
+      console.error('Failed to load imported memories:', error)
+      toast.error(`Failed to load imported memories: ${error.message}`)
+    }
+  }
 
   const handleSearchMemories = async (query: string) => {
     try {
@@ -537,6 +684,105 @@ export default function Home() {
     }
   }
 
+  const handleRevertMemory = async (id: string, version: number) => {
+    try {
+      const response = await fetch(`/api/memories/${id}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to revert memory');
+      }
+
+      await loadMemories();
+      toast.success(`Memory reverted to version ${version}`)
+    } catch (error: any) {
+      console.error('Failed to revert memory:', error)
+      toast.error(`Failed to revert memory: ${error.message}`)
+    }
+  }
+
+  const handleTogglePin = async (id: string, pinned: boolean) => {
+    try {
+      const response = await fetch(`/api/memories/${id}/importance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pinned })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to update pin');
+      }
+
+      await loadMemories();
+      toast.success(pinned ? 'Memory pinned' : 'Memory unpinned')
+    } catch (error: any) {
+      console.error('Failed to update pin:', error)
+      toast.error(`Failed to ${pinned ? 'pin' : 'unpin'} memory: ${error.message}`)
+    }
+  }
+
+  const handleResolveContradiction = async (conflictId: string, action: 'keep-new' | 'keep-existing' | 'keep-both') => {
+    try {
+      const response = await fetch(`/api/memories/contradictions/${conflictId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to resolve contradiction');
+      }
+
+      setPersonalizedMessages(prev => prev.map(message =>
+        message.clarification?.id === conflictId ? { ...message, clarification: data.contradiction } : message
+      ))
+      await loadMemories();
+      toast.success('Thanks, memory updated')
+    } catch (error: any) {
+      console.error('Failed to resolve contradiction:', error)
+      toast.error(`Failed to resolve contradiction: ${error.message}`)
+    }
+  }
+
+  // Chat bubble -> memories it produced, shown in the memory panel
+  const handleShowMessageMemories = async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/memories/provenance?messageId=${encodeURIComponent(messageId)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to load memories')
+      }
+
+      setMemories(data.memories)
+      toast.success(data.count === 1 ? 'Showing the memory from this message' : `Showing ${data.count} memories from this message`)
+    } catch (error: any) {
+      console.error('Failed to load memories for message:', error)
+      toast.error(`Failed to load memories: ${error.message}`)
+    }
+  }
+
+  // Memory card -> the chat message it came from
+  const handleShowMemorySource = (memory: MemoryEntry) => {
+    const provenance = memory.metadata?.provenance
+    if (!provenance) return
+
+    const source = personalizedMessages.find(message => provenance.messageIds.indexOf(message.id) !== -1)
+    if (!source) {
+      toast(`From an earlier chat on ${new Date(provenance.createdAt).toLocaleDateString()}`)
+      return
+    }
+
+    setHighlightedMessageId(source.id)
+    document.getElementById(`message-${source.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setTimeout(() => setHighlightedMessageId(current => current === source.id ? null : current), 3000)
+  }
+
   const handleGrantPermission = async (memoryId: string, agentId: string, actions: string[]) => {
     try {
       const success = await memoryService.grantPermission(memoryId, agentId, actions as ('read' | 'write' | 'delete')[])
@@ -652,6 +898,9 @@ export default function Home() {
             onToggleMemory={setStoreMemory}
             insights={showInsights ? personalizedInsights : null}
             onShowProfile={() => setShowProfileManagement(true)}
+            onResolveContradiction={handleResolveContradiction}
+            onShowMessageMemories={handleShowMessageMemories}
+            highlightedMessageId={highlightedMessageId}
           />
         </div>
 
@@ -671,7 +920,17 @@ export default function Home() {
         </div>
 
         {/* Memory Management - 20% Width */}
-        <div className="w-full xl:w-1/5 flex-shrink-0 bg-white overflow-hidden">
+        <div className="w-full xl:w-1/5 flex-shrink-0 bg-white overflow-hidden flex flex-col">
+          <MemoryReviewPanel
+            proposals={proposals}
+            settings={reviewSettings}
+            onApprove={handleApproveProposal}
+            onReject={handleRejectProposal}
+            onSetAutoApprove={handleSetAutoApprove}
+          />
+          <MediaUpload onUpload={handleUploadMedia} />
+          <MemoryImport onImported={handleImported} />
+          <div className="flex-1 min-h-0">
           {isLoadingMemories ? (
             <div className="p-4">
               <div className="animate-pulse">
@@ -691,12 +950,16 @@ export default function Home() {
               memories={memories}
               onSearchMemories={handleSearchMemories}
               onDeleteMemory={handleDeleteMemory}
+              onRevertMemory={handleRevertMemory}
+              onTogglePin={handleTogglePin}
+              onShowSource={handleShowMemorySource}
               totalMemories={stats.totalMemories || memories.length}
               memoryTypes={new Set(memories.map(m => m.type)).size}
               onGrantPermission={handleGrantPermission}
               onRevokePermission={handleRevokePermission}
             />
           )}
+          </div>
         </div>
       </main>
 
@@ -76,12 +76,30 @@ export default function CalendarInterface({
       
       if (authenticated) {
         await loadEvents()
+        syncEntities()
       }
     } catch (error) {
       console.error('Failed to initialize calendar:', error)
     }
   }
 
+  // Share recent and upcoming events with the knowledge graph so the assistant knows who I've met
+  const syncEntities = async () => {
+    try {
+      const from = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+      const to = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000)
+      const calendarEvents = await calendarService.getEvents('primary', from.toISOString(), to.toISOString())
+
+      await fetch('/api/entities/calendar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ events: calendarEvents })
+      })
+    } catch (error) {
+      console.warn('Failed to sync calendar entities:', error)
+    }
+  }
+
   const loadEvents = async (date?: Date) => {
     try {
       setIsLoading(true)
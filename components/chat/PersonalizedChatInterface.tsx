@@ -3,6 +3,7 @@
 import { useState, useRef, useEffect } from 'react'
 import { Send, Bot, User, Loader2, Heart, Calendar, Utensils, Dumbbell, Target } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
+import { MemoryConflict } from '@/types/memory'
 
 interface ChatMessage {
   id: string
@@ -14,6 +15,9 @@ interface ChatMessage {
   explorerUrl?: string
   transactionHash?: string
   walrusUrl?: string
+  memoriesUsed?: string[]
+  clarification?: MemoryConflict
+  memoriesCreated?: string[]
 }
 
 interface PersonalInsights {
@@ -46,6 +50,9 @@ interface PersonalizedChatInterfaceProps {
   onToggleMemory: (enabled: boolean) => void
   insights?: PersonalInsights
   onShowProfile?: () => void
+  onResolveContradiction?: (conflictId: string, action: 'keep-new' | 'keep-existing' | 'keep-both') => Promise<void>
+  onShowMessageMemories?: (messageId: string) => void
+  highlightedMessageId?: string | null
 }
 
 export function PersonalizedChatInterface({ 
@@ -57,7 +64,10 @@ export function PersonalizedChatInterface({
   storeMemory,
   onToggleMemory,
   insights,
-  onShowProfile
+  onShowProfile,
+  onResolveContradiction,
+  onShowMessageMemories,
+  highlightedMessageId
 }: PersonalizedChatInterfaceProps) {
   const [inputValue, setInputValue] = useState('')
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -219,6 +229,7 @@ export function PersonalizedChatInterface({
         {messages.map((message) => (
           <div
             key={message.id}
+            id={`message-${message.id}`}
             className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
           >
             <div
@@ -247,7 +258,7 @@ export function PersonalizedChatInterface({
                   message.role === 'user'
                     ? 'bg-gradient-to-br from-blue-500 to-blue-600 text-white'
                     : 'bg-white text-slate-900 border border-purple-200'
-                }`}
+                } ${highlightedMessageId === message.id ? 'ring-2 ring-pink-400 ring-offset-2' : ''}`}
               >
                 <p className="text-sm whitespace-pre-wrap leading-relaxed">{message.content}</p>
                 <div className="mt-2 flex items-center justify-between">
@@ -258,6 +269,25 @@ export function PersonalizedChatInterface({
                   >
                     {formatTime(message.timestamp)}
                   </p>
+                  {/* Memory Citations */}
+                  {message.role === 'assistant' && message.memoriesUsed && message.memoriesUsed.length > 0 && (
+                    <span
+                      className="text-xs text-pink-600"
+                      title={`Memories used:\n${message.memoriesUsed.join('\n')}`}
+                    >
+                      🧠 {message.memoriesUsed.length} {message.memoriesUsed.length === 1 ? 'memory' : 'memories'}
+                    </span>
+                  )}
+                  {/* Memories learned from this exchange */}
+                  {message.role === 'assistant' && message.memoriesCreated && message.memoriesCreated.length > 0 && onShowMessageMemories && (
+                    <button
+                      onClick={() => onShowMessageMemories(message.id)}
+                      className="text-xs text-purple-600 hover:text-purple-800 underline"
+                      title="Show the memories saved from this message"
+                    >
+                      💾 {message.memoriesCreated.length} saved
+                    </button>
+                  )}
                   {/* Explorer Links */}
                   {message.role === 'assistant' && (message.explorerUrl || message.walrusUrl) && (
                     <div className="flex items-center space-x-3">
@@ -289,6 +319,37 @@ export function PersonalizedChatInterface({
                     </div>
                   )}
                 </div>
+                {/* Contradiction Clarification */}
+                {message.role === 'assistant' && message.clarification && (
+                  <div className="mt-3 pt-2 border-t border-purple-100 text-xs">
+                    {message.clarification.status === 'pending' && onResolveContradiction ? (
+                      <div className="flex flex-wrap gap-2">
+                        <button
+                          onClick={() => onResolveContradiction(message.clarification!.id, 'keep-new')}
+                          className="px-2 py-1 rounded bg-purple-100 text-purple-700 hover:bg-purple-200"
+                          title={message.clarification.newContent}
+                        >
+                          Newer is right
+                        </button>
+                        <button
+                          onClick={() => onResolveContradiction(message.clarification!.id, 'keep-existing')}
+                          className="px-2 py-1 rounded bg-purple-100 text-purple-700 hover:bg-purple-200"
+                          title={message.clarification.existingContent}
+                        >
+                          Earlier is right
+                        </button>
+                        <button
+                          onClick={() => onResolveContradiction(message.clarification!.id, 'keep-both')}
+                          className="px-2 py-1 rounded bg-slate-100 text-slate-600 hover:bg-slate-200"
+                        >
+                          Both are true
+                        </button>
+                      </div>
+                    ) : message.clarification.status !== 'pending' ? (
+                      <span className="text-slate-500">✓ Memory updated</span>
+                    ) : null}
+                  </div>
+                )}
               </div>
             </div>
           </div>
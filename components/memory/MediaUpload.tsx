@@ -0,0 +1,94 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useDropzone } from 'react-dropzone'
+import { FileText, Upload, X } from 'lucide-react'
+
+interface MediaUploadProps {
+  onUpload: (file: File, transcript?: File) => Promise<void>
+}
+
+const ACCEPTED_TYPES = {
+  'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.webp'],
+  'application/pdf': ['.pdf'],
+  'text/markdown': ['.md', '.markdown'],
+  'text/plain': ['.txt'],
+  'audio/*': ['.mp3', '.m4a', '.wav', '.ogg', '.webm']
+}
+
+export function MediaUpload({ onUpload }: MediaUploadProps) {
+  const [pendingAudio, setPendingAudio] = useState<File | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const upload = async (file: File, transcript?: File) => {
+    setIsUploading(true)
+    try {
+      await onUpload(file, transcript)
+      setPendingAudio(null)
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: ACCEPTED_TYPES,
+    maxFiles: 1,
+    disabled: isUploading,
+    onDrop: (accepted) => {
+      const file = accepted[0]
+      if (!file) return
+      // Audio is searchable through its transcript, so ask for one before uploading
+      if (file.type.startsWith('audio/')) {
+        setPendingAudio(file)
+      } else {
+        upload(file)
+      }
+    }
+  })
+
+  if (pendingAudio) {
+    return (
+      <div className="border-b border-gray-200 p-3 text-xs space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-700 truncate">{pendingAudio.name}</span>
+          <button onClick={() => setPendingAudio(null)} disabled={isUploading} className="p-0.5 text-gray-400 hover:text-gray-600">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+        <label className="flex items-center space-x-1 text-purple-700 cursor-pointer">
+          <FileText className="w-3 h-3" />
+          <span>Add transcript (.txt, .vtt, .srt)</span>
+          <input
+            type="file"
+            accept=".txt,.vtt,.srt"
+            className="hidden"
+            disabled={isUploading}
+            onChange={(e) => e.target.files?.[0] && upload(pendingAudio, e.target.files[0])}
+          />
+        </label>
+        <button
+          onClick={() => upload(pendingAudio)}
+          disabled={isUploading}
+          className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+        >
+          {isUploading ? 'Uploading...' : 'Upload without transcript'}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="border-b border-gray-200 p-3">
+      <div
+        {...getRootProps()}
+        className={`flex items-center justify-center space-x-2 border border-dashed rounded p-2 text-xs cursor-pointer transition-colors ${
+          isDragActive ? 'border-purple-400 bg-purple-50 text-purple-700' : 'border-gray-300 text-gray-500 hover:border-purple-300'
+        } ${isUploading ? 'opacity-50 cursor-wait' : ''}`}
+      >
+        <input {...getInputProps()} />
+        <Upload className="w-3 h-3" />
+        <span>{isUploading ? 'Uploading...' : isDragActive ? 'Drop to remember' : 'Drop an image, PDF, note or recording'}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { History, RotateCcw, Link2, X } from 'lucide-react'
+import { MemoryEntry, MemoryVersion } from '@/types/memory'
+import { MemoryVersionDiff } from '@/lib/memory-versions'
+
+interface MemoryHistoryProps {
+  memory: MemoryEntry
+  onRevert: (memoryId: string, version: number) => Promise<void>
+  onClose: () => void
+}
+
+export function MemoryHistory({ memory, onRevert, onClose }: MemoryHistoryProps) {
+  const [versions, setVersions] = useState<MemoryVersion[]>([])
+  const [currentVersion, setCurrentVersion] = useState<number>(memory.metadata?.version || 1)
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null)
+  const [diff, setDiff] = useState<MemoryVersionDiff | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isReverting, setIsReverting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadHistory = async (compareTo?: number) => {
+    try {
+      const query = compareTo !== undefined ? `?from=${compareTo}&to=${currentVersion}` : ''
+      const response = await fetch(`/api/memories/${memory.id}/history${query}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to load history')
+      }
+
+      setVersions(data.versions)
+      setCurrentVersion(data.currentVersion)
+      setDiff(data.diff || null)
+      setError(null)
+    } catch (err: any) {
+      console.error('Failed to load memory history:', err)
+      setError(err.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadHistory()
+  }, [memory.id, memory.metadata?.version])
+
+  const handleSelect = (version: number) => {
+    if (version === currentVersion) {
+      setSelectedVersion(null)
+      setDiff(null)
+      return
+    }
+    setSelectedVersion(version)
+    loadHistory(version)
+  }
+
+  const handleRevert = async () => {
+    if (selectedVersion === null) return
+
+    setIsReverting(true)
+    try {
+      await onRevert(memory.id, selectedVersion)
+      setSelectedVersion(null)
+      setDiff(null)
+      await loadHistory()
+    } finally {
+      setIsReverting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-4 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center space-x-2">
+            <History className="w-5 h-5 text-purple-600" />
+            <h3 className="text-base font-medium text-purple-800">Version history</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <>
+            <div className="space-y-1 mb-3">
+              {[...versions].reverse().map((version) => (
+                <button
+                  key={version.version}
+                  onClick={() => handleSelect(version.version)}
+                  className={`w-full text-left px-2 py-1.5 rounded border text-xs transition-all ${
+                    selectedVersion === version.version
+                      ? 'border-purple-400 bg-purple-50'
+                      : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-700">
+                      v{version.version}
+                      {version.version === currentVersion && <span className="ml-1 text-purple-600">(current)</span>}
+                      {version.revertedFrom && <span className="ml-1 text-gray-500">restored from v{version.revertedFrom}</span>}
+                    </span>
+                    <span className="flex items-center space-x-1 text-gray-500">
+                      {version.anchored && <Link2 className="w-3 h-3" aria-label="Anchored on-chain" />}
+                      <span>{new Date(version.createdAt).toLocaleString()}</span>
+                    </span>
+                  </div>
+                  <p className="text-gray-600 truncate mt-0.5">{version.content}</p>
+                </button>
+              ))}
+            </div>
+
+            {diff && selectedVersion !== null && (
+              <div className="border-t border-gray-100 pt-3">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs text-gray-500">Changes from v{diff.from} to v{diff.to}</span>
+                  <button
+                    onClick={handleRevert}
+                    disabled={isReverting}
+                    className="flex items-center space-x-1 px-2 py-1 text-xs text-purple-600 hover:bg-purple-50 rounded disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    <span>{isReverting ? 'Reverting...' : `Revert to v${selectedVersion}`}</span>
+                  </button>
+                </div>
+                <p className="text-xs leading-relaxed whitespace-pre-wrap bg-gray-50 rounded p-2">
+                  {diff.segments.map((segment, i) => (
+                    <span
+                      key={i}
+                      className={
+                        segment.op === 'insert'
+                          ? 'bg-green-100 text-green-800'
+                          : segment.op === 'delete'
+                          ? 'bg-red-100 text-red-700 line-through'
+                          : 'text-gray-700'
+                      }
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                </p>
+                {(diff.tagsAdded.length > 0 || diff.tagsRemoved.length > 0 || diff.categoryChanged) && (
+                  <div className="mt-2 text-xs text-gray-500 space-x-2">
+                    {diff.tagsAdded.length > 0 && <span>+ tags: {diff.tagsAdded.join(', ')}</span>}
+                    {diff.tagsRemoved.length > 0 && <span>− tags: {diff.tagsRemoved.join(', ')}</span>}
+                    {diff.categoryChanged && <span>category changed</span>}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
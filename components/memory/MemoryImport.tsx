@@ -0,0 +1,123 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { FileJson, FolderInput } from 'lucide-react'
+
+interface ImportStatus {
+  status: 'idle' | 'running' | 'completed' | 'failed'
+  total: number
+  imported: number
+  duplicates: number
+  skipped: number
+  failed: Array<{ path: string; error: string }>
+  anchored: number
+  pendingAnchor: number
+  error?: string
+}
+
+interface MemoryImportProps {
+  onImported: () => Promise<void>
+}
+
+const POLL_INTERVAL_MS = 2000
+const IMPORTABLE_EXTENSIONS = /\.(md|markdown|json|csv)$/i
+
+export function MemoryImport({ onImported }: MemoryImportProps) {
+  const [progress, setProgress] = useState<ImportStatus | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const folderInput = useRef<HTMLInputElement>(null)
+  const onImportedRef = useRef(onImported)
+  onImportedRef.current = onImported
+
+  // Obsidian vaults and note folders are picked as a whole directory
+  useEffect(() => {
+    folderInput.current?.setAttribute('webkitdirectory', '')
+  }, [])
+
+  useEffect(() => {
+    if (!isRunning) return
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch('/api/memories/import')
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.details || data.error)
+
+        setProgress(data.progress)
+        if (!data.running) {
+          setIsRunning(false)
+          await onImportedRef.current()
+        }
+      } catch (pollError: any) {
+        console.error('Failed to read import progress:', pollError)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(timer)
+  }, [isRunning])
+
+  const startImport = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return
+    setError(null)
+
+    // Read synchronously: the input is cleared right after, so the same folder can be picked again to resume
+    const form = new FormData()
+    // Vault attachments (images, PDFs) aren't imported; don't upload them
+    Array.from(fileList).filter(file => IMPORTABLE_EXTENSIONS.test(file.name)).forEach(file => {
+      form.append('files', file, (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name)
+    })
+
+    try {
+      const response = await fetch('/api/memories/import', { method: 'POST', body: form })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details || data.error || 'Failed to start import')
+
+      setProgress(data.progress)
+      setIsRunning(true)
+    } catch (importError: any) {
+      console.error('Failed to import notes:', importError)
+      setError(importError.message)
+    }
+  }
+
+  const done = progress ? progress.imported + progress.duplicates + progress.skipped + progress.failed.length : 0
+
+  return (
+    <div className="border-b border-gray-200 p-3 text-xs space-y-2">
+      <div className="flex items-center space-x-2">
+        <label className={`flex items-center space-x-1 px-2 py-1 border border-gray-300 rounded text-gray-600 hover:border-purple-300 ${isRunning ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          <FolderInput className="w-3 h-3" />
+          <span>Import notes folder</span>
+          <input ref={folderInput} type="file" multiple className="hidden" onChange={(e) => { startImport(e.target.files); e.target.value = '' }} />
+        </label>
+        <label className={`flex items-center space-x-1 px-2 py-1 border border-gray-300 rounded text-gray-600 hover:border-purple-300 ${isRunning ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          <FileJson className="w-3 h-3" />
+          <span>JSON / CSV</span>
+          <input type="file" accept=".json,.csv" className="hidden" onChange={(e) => { startImport(e.target.files); e.target.value = '' }} />
+        </label>
+      </div>
+
+      {progress && progress.status !== 'idle' && (
+        <div className="text-gray-600 space-y-1">
+          <div className="w-full bg-gray-100 rounded h-1.5">
+            <div
+              className="bg-purple-500 h-1.5 rounded"
+              style={{ width: `${progress.total ? Math.round(100 * done / progress.total) : 0}%` }}
+            />
+          </div>
+          <p>
+            {progress.status === 'running' ? `Importing ${done}/${progress.total}` : progress.status === 'failed' ? 'Import failed' : 'Import finished'}
+            {' · '}{progress.imported} new, {progress.duplicates} already known
+            {progress.failed.length > 0 && `, ${progress.failed.length} failed`}
+          </p>
+          {progress.status === 'completed' && progress.pendingAnchor > 0 && (
+            <p className="text-gray-500">{progress.pendingAnchor} not yet on-chain; they are committed with the next import</p>
+          )}
+          {progress.error && <p className="text-red-600">{progress.error}</p>}
+        </div>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  )
+}
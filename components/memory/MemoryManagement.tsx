@@ -1,16 +1,20 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { Search, Trash2, Diamond, Database, Clock, Lock, Unlock, Calendar } from 'lucide-react'
+import { Search, Trash2, Diamond, Database, Clock, Lock, Unlock, Calendar, History, Pin, PinOff, MessageSquare, Paperclip } from 'lucide-react'
 import { MemoryEntry, MemoryType } from '@/types/memory'
 import { getEncryptionService } from '@/lib/encryption'
 import { getKeyManagementService } from '@/lib/key-management'
 import MemoryToCalendar from '@/components/calendar/MemoryToCalendar'
+import { MemoryHistory } from './MemoryHistory'
 
 interface MemoryManagementProps {
   memories: MemoryEntry[]
   onSearchMemories: (query: string) => void
   onDeleteMemory: (id: string) => void
+  onRevertMemory?: (id: string, version: number) => Promise<void>
+  onTogglePin?: (id: string, pinned: boolean) => Promise<void>
+  onShowSource?: (memory: MemoryEntry) => void
   totalMemories: number
   memoryTypes: number
   onGrantPermission?: (memoryId: string, agentId: string, actions: string[]) => void
@@ -21,6 +25,9 @@ export function MemoryManagement({
   memories,
   onSearchMemories,
   onDeleteMemory,
+  onRevertMemory,
+  onTogglePin,
+  onShowSource,
   totalMemories,
   memoryTypes,
   onGrantPermission,
@@ -31,6 +38,13 @@ export function MemoryManagement({
   const [decryptionStatus, setDecryptionStatus] = useState<Map<string, 'decrypting' | 'decrypted' | 'failed'>>(new Map())
   const [showDecrypted, setShowDecrypted] = useState(true)
   const [selectedMemoryForCalendar, setSelectedMemoryForCalendar] = useState<MemoryEntry | null>(null)
+  const [selectedMemoryForHistory, setSelectedMemoryForHistory] = useState<MemoryEntry | null>(null)
+
+  // Pinned memories first; otherwise keep the order they were given in
+  const orderedMemories = [
+    ...memories.filter(memory => memory.metadata?.pinned),
+    ...memories.filter(memory => !memory.metadata?.pinned)
+  ]
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
@@ -56,8 +70,18 @@ export function MemoryManagement({
         await keyManagement.initializeWithPassword(defaultPassword)
       }
 
-      // Parse the encrypted content
-      const encryptedData = JSON.parse(memory.content)
+      // Content is only encrypted in storage; the local cache may already hold plaintext
+      let encryptedData
+      try {
+        encryptedData = JSON.parse(memory.content)
+      } catch {
+        encryptedData = null
+      }
+      if (!encryptedData?.encryptedContent) {
+        setDecryptedMemories(prev => new Map(prev).set(memory.id, memory.content))
+        setDecryptionStatus(prev => new Map(prev).set(memory.id, 'decrypted'))
+        return
+      }
       
       // Try to get the specific key for this memory
       const encryptionKeyId = memory.metadata?.encryptionKeyId
@@ -194,7 +218,7 @@ export function MemoryManagement({
           </div>
         ) : (
           <div className="px-3 py-2 space-y-2">
-            {memories.slice(0, 10).map((memory) => (
+            {orderedMemories.slice(0, 10).map((memory) => (
               <div
                 key={memory.id}
                 className="bg-gray-50 rounded p-2 border border-gray-200 hover:bg-white hover:shadow-sm transition-all"
@@ -217,6 +241,9 @@ export function MemoryManagement({
                           day: 'numeric'
                         })}
                       </span>
+                      {memory.metadata?.pinned && (
+                        <Pin className="w-2.5 h-2.5 text-purple-500" aria-label="Pinned" />
+                      )}
                       {memory.encrypted && (
                         <span className="text-xs text-gray-400 flex items-center">
                           {decryptionStatus.get(memory.id) === 'decrypting' && (
@@ -236,6 +263,46 @@ export function MemoryManagement({
                     {/* Storage links removed - using local storage */}
                   </div>
                   <div className="flex items-center space-x-1 flex-shrink-0">
+                    {onTogglePin && (
+                      <button
+                        onClick={() => onTogglePin(memory.id, !memory.metadata?.pinned)}
+                        className="p-1 text-gray-400 hover:text-purple-500 hover:bg-purple-50 rounded transition-all"
+                        title={memory.metadata?.pinned
+                          ? 'Unpin memory'
+                          : `Pin memory (importance ${Math.round((memory.metadata?.importance ?? 0.5) * 100)}%)`}
+                      >
+                        {memory.metadata?.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                      </button>
+                    )}
+                    {onShowSource && memory.metadata?.provenance && (
+                      <button
+                        onClick={() => onShowSource(memory)}
+                        className="p-1 text-gray-400 hover:text-purple-500 hover:bg-purple-50 rounded transition-all"
+                        title={`From chat (${memory.metadata.provenance.extractionMethod}${memory.metadata.provenance.model ? `, ${memory.metadata.provenance.model}` : ''})`}
+                      >
+                        <MessageSquare className="w-3 h-3" />
+                      </button>
+                    )}
+                    {memory.metadata?.media && (
+                      <a
+                        href={`/api/memories/${memory.id}/file`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="p-1 text-gray-400 hover:text-purple-500 hover:bg-purple-50 rounded transition-all"
+                        title={`Open ${memory.metadata.media.fileName}`}
+                      >
+                        <Paperclip className="w-3 h-3" />
+                      </a>
+                    )}
+                    {onRevertMemory && (
+                      <button
+                        onClick={() => setSelectedMemoryForHistory(memory)}
+                        className="p-1 text-gray-400 hover:text-purple-500 hover:bg-purple-50 rounded transition-all"
+                        title={`Version history (v${memory.metadata?.version || 1})`}
+                      >
+                        <History className="w-3 h-3" />
+                      </button>
+                    )}
                     <button
                       onClick={() => setSelectedMemoryForCalendar(memory)}
                       className="p-1 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded transition-all"
@@ -269,6 +336,15 @@ export function MemoryManagement({
           onClose={() => setSelectedMemoryForCalendar(null)}
         />
       )}
+
+      {/* Version History Modal */}
+      {selectedMemoryForHistory && onRevertMemory && (
+        <MemoryHistory
+          memory={selectedMemoryForHistory}
+          onRevert={onRevertMemory}
+          onClose={() => setSelectedMemoryForHistory(null)}
+        />
+      )}
     </div>
   )
 }
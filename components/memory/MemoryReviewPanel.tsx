@@ -0,0 +1,110 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Check, ClipboardCheck, Pencil, X } from 'lucide-react'
+import { MemoryReviewSettings, ProposedMemory } from '@/types/memory'
+
+interface MemoryReviewPanelProps {
+  proposals: ProposedMemory[]
+  settings: MemoryReviewSettings
+  onApprove: (id: string, content?: string) => Promise<void>
+  onReject: (id: string) => Promise<void>
+  onSetAutoApprove: (category: string, autoApprove: boolean) => Promise<void>
+}
+
+export function MemoryReviewPanel({ proposals, settings, onApprove, onReject, onSetAutoApprove }: MemoryReviewPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  if (proposals.length === 0) return null
+
+  const startEditing = (proposal: ProposedMemory) => {
+    setEditingId(proposal.id)
+    setDraft(proposal.content)
+  }
+
+  const review = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id)
+    try {
+      await action()
+      if (editingId === id) setEditingId(null)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="border-b border-gray-200 p-3 bg-purple-50/40">
+      <div className="flex items-center space-x-2 mb-2">
+        <ClipboardCheck className="w-4 h-4 text-purple-600" />
+        <h3 className="text-sm font-medium text-purple-800">Remember these? ({proposals.length})</h3>
+      </div>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {proposals.map((proposal) => {
+          const isEditing = editingId === proposal.id
+          const isBusy = busyId === proposal.id
+          const autoApproved = (settings.categories[proposal.category] || settings.defaultAction) === 'approve'
+
+          return (
+            <div key={proposal.id} className="bg-white border border-purple-100 rounded p-2 text-xs">
+              {isEditing ? (
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={3}
+                  className="w-full border border-gray-200 rounded p-1 text-xs focus:outline-none focus:ring-1 focus:ring-purple-400"
+                />
+              ) : (
+                <p className="text-gray-700 whitespace-pre-wrap">{proposal.content}</p>
+              )}
+
+              <div className="flex items-center justify-between mt-1.5">
+                <span className="text-gray-500 truncate">{proposal.category}</span>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => review(proposal.id, () => onApprove(proposal.id, isEditing ? draft : undefined))}
+                    disabled={isBusy || (isEditing && !draft.trim())}
+                    className="flex items-center space-x-0.5 px-1.5 py-0.5 text-green-700 hover:bg-green-50 rounded disabled:opacity-50"
+                  >
+                    <Check className="w-3 h-3" />
+                    <span>{isEditing ? 'Save' : 'Keep'}</span>
+                  </button>
+                  {!isEditing && (
+                    <button
+                      onClick={() => startEditing(proposal)}
+                      disabled={isBusy}
+                      className="flex items-center space-x-0.5 px-1.5 py-0.5 text-gray-600 hover:bg-gray-50 rounded disabled:opacity-50"
+                    >
+                      <Pencil className="w-3 h-3" />
+                      <span>Edit</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => isEditing ? setEditingId(null) : review(proposal.id, () => onReject(proposal.id))}
+                    disabled={isBusy}
+                    className="flex items-center space-x-0.5 px-1.5 py-0.5 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                  >
+                    <X className="w-3 h-3" />
+                    <span>{isEditing ? 'Cancel' : 'Forget'}</span>
+                  </button>
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-1 mt-1 text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={autoApproved}
+                  onChange={(e) => onSetAutoApprove(proposal.category, e.target.checked)}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                <span>Always keep {proposal.category} without asking</span>
+              </label>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,11 @@
 import { ethers } from 'ethers';
-import { MemoryEntry } from '@/types/memory';
+import { MemoryEntry, MemoryType } from '@/types/memory';
 import { OGStorageService, getOGStorage } from './0g-storage';
 import { MemoryRegistryABI } from './contracts/MemoryRegistry';
+import { CONSOLIDATED_TAG } from './memory-consolidation';
 
 // Contract interface for type safety
-interface MemoryHash {
+export interface MemoryHash {
   hash: string;
   metadata: string;
   agent: string;
@@ -23,7 +24,7 @@ interface ContractConfig {
   chainId: number;
 }
 
-interface IndexingResult {
+export interface IndexingResult {
   success: boolean;
   transactionHash?: string;
   contractHash?: string;
@@ -181,15 +182,20 @@ export class ZGIndexingService {
 
           // Prepare contract parameters
           // Use title from metadata or generate a meaningful one from content
-          const title = memory.metadata?.title || 
-                       this.generateTitleFromContent(memory.content, memory.type, memory.category);
+          // Encrypted memories never expose content-derived titles on-chain
+          const title = memory.metadata?.title || (memory.encrypted
+            ? `${memory.type} - ${memory.category}`
+            : this.generateTitleFromContent(memory.content, memory.type, memory.category));
           
           const metadata = JSON.stringify({
             title: title,
             category: memory.category,
             agentId: memory.accessPolicy?.owner,
             createdAt: memory.createdAt?.toISOString(),
-            encrypted: memory.encrypted
+            encrypted: memory.encrypted,
+            ...this.anchoredRelations(memory),
+            // Later versions link back to the blob of the version they replaced
+            ...(memory.metadata?.parentId ? { version: memory.metadata.version, parentId: memory.metadata.parentId } : {})
           });
 
           const contentType = this.getContentType(memory);
@@ -308,7 +314,7 @@ export class ZGIndexingService {
         
         // Generate a meaningful title from content
         const title = memory.metadata?.title || 
-                     memory.content.split('\n')[0].substring(0, 50).trim() || 
+                     (!memory.encrypted && memory.content.split('\n')[0].substring(0, 50).trim()) || 
                      `${memory.type} - ${memory.category}`;
         
         metadatas.push(JSON.stringify({
@@ -316,6 +322,8 @@ export class ZGIndexingService {
           category: memory.category,
           agentId: memory.accessPolicy?.owner,
           createdAt: memory.createdAt?.toISOString(),
+          encrypted: memory.encrypted,
+          ...this.anchoredRelations(memory)
         }));
         zgStorageIds.push(zgStorageId);
         contentTypes.push(this.getContentType(memory));
@@ -483,6 +491,112 @@ export class ZGIndexingService {
     }
   }
 
+  /**
+   * Revoke a memory hash on-chain so it no longer counts as an active memory (e.g. on expiry)
+   */
+  async revokeMemory(hash: string): Promise<IndexingResult> {
+    if (!this.contract) {
+      console.warn('⚠️ Memory revocation not available (blockchain offline)');
+      return {
+        success: false,
+        error: 'Blockchain revocation not available'
+      };
+    }
+
+    try {
+      const tx = await this.contract.revokeMemoryHash(hash);
+      const receipt = await tx.wait();
+
+      console.log(`🚫 Memory revoked: ${hash.slice(0, 10)}...`);
+
+      return {
+        success: true,
+        transactionHash: receipt.hash,
+        contractHash: hash
+      };
+
+    } catch (error: any) {
+      console.error('❌ Failed to revoke memory:', error);
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Consolidation summaries anchor the IDs of the memories they replace, so a restore can archive
+   * them again. Other relations (similarity, links) stay local and off-chain.
+   */
+  private anchoredRelations(memory: MemoryEntry): { relatedMemories?: string[] } {
+    return memory.tags?.includes(CONSOLIDATED_TAG) && memory.metadata?.relatedMemories?.length
+      ? { relatedMemories: memory.metadata.relatedMemories }
+      : {};
+  }
+
+  /**
+   * Point a committed memory at a re-uploaded blob (e.g. after re-encryption)
+   */
+  async updateStorageId(hash: string, newZgStorageId: string): Promise<IndexingResult> {
+    if (!this.contract) {
+      console.warn('⚠️ Storage ID update not available (blockchain offline)');
+      return {
+        success: false,
+        error: 'Blockchain update not available'
+      };
+    }
+
+    try {
+      const tx = await this.contract.updateZGStorageId(hash, newZgStorageId);
+      const receipt = await tx.wait();
+
+      console.log(`🔁 Memory ${hash.slice(0, 10)}... now stored at ${newZgStorageId}`);
+
+      return {
+        success: true,
+        transactionHash: receipt.hash,
+        contractHash: hash
+      };
+
+    } catch (error: any) {
+      console.error('❌ Failed to update storage ID:', error);
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Every active memory committed by this signer
+   */
+  async getCommittedMemories(): Promise<MemoryHash[]> {
+    if (!this.contract || !this.signer) {
+      return [];
+    }
+
+    const signerAddress = await this.signer.getAddress();
+    const memories = await this.queryMemories({ agent: signerAddress });
+    return memories.filter(memory => memory.isActive && memory.zgStorageId);
+  }
+
+  /**
+   * Check (read-only) that a memory hash is committed and still active on-chain
+   */
+  async isHashCommitted(hash: string): Promise<boolean> {
+    if (!this.contract) {
+      return false;
+    }
+
+    try {
+      const memoryData = await this.contract.getMemoryHash(hash);
+      return Number(memoryData.timestamp) > 0 && memoryData.isActive !== false;
+    } catch (error: any) {
+      console.warn(`⚠️ Failed to look up memory hash ${hash.slice(0, 10)}...:`, error?.message);
+      return false;
+    }
+  }
+
   /**
    * Get all available tags from the contract
    */
@@ -567,6 +681,30 @@ export class ZGIndexingService {
   }
 }
 
+/**
+ * Map an on-chain contentType back to a MemoryType (inverse of getContentType)
+ */
+export function memoryTypeFromContentType(contentType?: string): MemoryType {
+  switch (contentType) {
+    case 'document':
+      return 'learned_fact';
+    case 'image':
+      return 'multimedia';
+    case 'preference':
+      return 'user_preference';
+    case 'task':
+      return 'task_outcome';
+    case 'workflow':
+      return 'workflow';
+    case 'shared':
+      return 'agent_share';
+    case 'profile':
+      return 'profile_data';
+    default:
+      return 'conversation';
+  }
+}
+
 // Singleton instance
 let zgIndexingService: ZGIndexingService | null = null;
 
@@ -1,5 +1,7 @@
 import { MemoryEntry } from '@/types/memory';
 import { getEncryptionService } from './encryption';
+import { getKeyManagementService, KeyManagementService } from './key-management';
+import { EncryptedData } from '@/types/encryption';
 import { createWalrusStorage, WalrusStorageService } from './walrus-storage';
 
 // Import 0G TypeScript SDK components
@@ -52,7 +54,40 @@ interface OGUploadResult {
   ipfsHash?: string;
 }
 
-interface OGEmbeddingResult {
+// Plaintext layout of an embedding blob before encryption
+interface EmbeddingPayload {
+  conversationId: string;
+  vector: number[];
+  metadata: {
+    agentId: string;
+    timestamp: string;
+    tags: string[];
+    content: string;
+    contentHash: string;
+  };
+}
+
+// Self-describing blob wrapper so another device holding the master password can decrypt it
+// v1: payload encrypted directly under keyId
+// v2: payload encrypted under a per-blob data key, which is wrapped under keyId
+interface EmbeddingEnvelope {
+  format: 'og-embedding';
+  version: 1 | 2;
+  conversationId: string;
+  keyId: string;
+  keySalt: string;
+  payload: EncryptedData;
+  wrappedKey?: EncryptedData;
+}
+
+export interface MemoryScoreBreakdown {
+  semantic: number; // Cosine similarity to the query vector
+  recency: number; // Exponential decay on memory age, 1.0 = just stored
+  tagBoost: number; // Fraction of query tags present on the memory
+  combined: number; // Weighted score used for final ranking
+}
+
+export interface OGEmbeddingResult {
   vector: number[];
   metadata: {
     conversationId: string;
@@ -60,10 +95,14 @@ interface OGEmbeddingResult {
     timestamp: string;
     tags: string[];
     contentHash: string;
+    content?: string;
   };
   storageId: string;
   explorerUrl?: string;
   transactionHash?: string;
+  similarity?: number; // Cosine similarity to the query vector (query results only)
+  score?: MemoryScoreBreakdown; // Ranking breakdown set by MemoryManager.queryMemory
+  encryption?: { keyId: string; salt: string }; // Key-encryption key used for the blob
 }
 
 export class OGStorageService {
@@ -73,6 +112,7 @@ export class OGStorageService {
   private provider: any = null;
   private signer: any = null;
   private encryptionService = getEncryptionService();
+  private keyManagement = getKeyManagementService();
   private walrusStorage: WalrusStorageService | null = null;
 
   constructor(config: OGConfig) {
@@ -219,7 +259,7 @@ export class OGStorageService {
         console.log(`📤 Storing embedding using 0G fallback storage for conversation: ${conversationId}`);
 
       // Create embedding data structure
-      const embeddingData = {
+      const embeddingData: EmbeddingPayload = {
         conversationId,
         vector,
         metadata: {
@@ -232,11 +272,8 @@ export class OGStorageService {
       };
 
       // Encrypt the embedding data
-        const encryptedData = await this.encryptionService.encrypt(JSON.stringify(embeddingData));
-        
-        // Ensure encryptedData is a string before creating Buffer
-        const dataString = typeof encryptedData === 'string' ? encryptedData : JSON.stringify(encryptedData);
-        const tempBuffer = Buffer.from(dataString, 'utf-8');
+        const sealed = await this.sealEmbeddingPayload(embeddingData);
+        const tempBuffer = sealed.buffer;
         
         // Create a temporary file for upload using ZgFile.fromBuffer approach
         // Since ZgFile doesn't have fromBuffer, we'll use a different approach
@@ -288,7 +325,8 @@ export class OGStorageService {
         },
           storageId: rootHash,
           explorerUrl: `${this.config.explorerUrl}/tx/${txHash}`,
-          transactionHash: txHash
+          transactionHash: txHash,
+          encryption: { keyId: sealed.keyId, salt: sealed.salt }
       };
     } catch (error: any) {
         console.error('❌ Failed to store embedding with real 0G SDK:', error);
@@ -317,7 +355,7 @@ export class OGStorageService {
       console.log(`📤 Storing embedding on Walrus for conversation: ${conversationId}`);
 
       // Create embedding data structure
-      const embeddingData = {
+      const embeddingData: EmbeddingPayload = {
         conversationId,
         vector,
         metadata: {
@@ -330,12 +368,10 @@ export class OGStorageService {
       };
 
       // Encrypt the embedding data
-      const encryptedData = await this.encryptionService.encrypt(JSON.stringify(embeddingData));
-      const dataString = typeof encryptedData === 'string' ? encryptedData : JSON.stringify(encryptedData);
-      const buffer = Buffer.from(dataString, 'utf-8');
+      const sealed = await this.sealEmbeddingPayload(embeddingData);
 
       // Store on Walrus
-      const result = await this.walrusStorage.storeBlob(buffer);
+      const result = await this.walrusStorage.storeBlob(sealed.buffer);
 
       console.log(`✅ Embedding stored on Walrus successfully:`);
       console.log(`   Blob ID: ${result.blobId}`);
@@ -353,7 +389,8 @@ export class OGStorageService {
         },
         storageId: result.blobId,
         explorerUrl: result.explorerUrl,
-        transactionHash: result.suiRef
+        transactionHash: result.suiRef,
+        encryption: { keyId: sealed.keyId, salt: sealed.salt }
       };
 
     } catch (error: any) {
@@ -362,6 +399,177 @@ export class OGStorageService {
     }
   }
 
+  /**
+   * Envelope-encrypt an embedding payload for upload
+   * The key-encryption key is derived from the master password, so the blob can be
+   * reopened on any device that knows the password
+   */
+  private async sealEmbeddingPayload(embeddingData: EmbeddingPayload): Promise<{ buffer: Buffer; keyId: string; salt: string }> {
+    await this.keyManagement.ensureInitialized();
+
+    const key = await this.keyManagement.generateMemoryKey(embeddingData.conversationId);
+    const sealed = await this.encryptionService.encryptEnvelope(JSON.stringify(embeddingData), key.keyId, this.keyManagement);
+    const envelope: EmbeddingEnvelope = {
+      format: 'og-embedding',
+      version: 2,
+      conversationId: embeddingData.conversationId,
+      keyId: key.keyId,
+      keySalt: key.salt!,
+      payload: sealed.payload,
+      wrappedKey: sealed.wrappedKey
+    };
+
+    return { buffer: Buffer.from(JSON.stringify(envelope), 'utf-8'), keyId: key.keyId, salt: key.salt! };
+  }
+
+  /**
+   * Decrypt an embedding blob written by sealEmbeddingPayload, or null if it cannot be opened
+   */
+  private async openEmbeddingPayload(
+    data: Buffer,
+    keyManagement: KeyManagementService = this.keyManagement
+  ): Promise<{ payload: EmbeddingPayload; keyId: string; salt: string } | null> {
+    try {
+      const envelope = JSON.parse(data.toString('utf-8')) as EmbeddingEnvelope;
+
+      if (envelope.format !== 'og-embedding') {
+        console.warn('⚠️ Embedding blob predates recoverable envelopes, skipping');
+        return null;
+      }
+
+      await keyManagement.ensureInitialized();
+      const key = await keyManagement.generateMemoryKey(envelope.conversationId, envelope.keySalt);
+
+      const decrypted = envelope.version >= 2 && envelope.wrappedKey
+        ? await this.encryptionService.decryptEnvelope(
+            { keyId: key.keyId, wrappedKey: envelope.wrappedKey, payload: envelope.payload },
+            keyManagement
+          )
+        : await this.encryptionService.decrypt(envelope.payload, key.keyId, keyManagement);
+
+      return { payload: JSON.parse(decrypted.content) as EmbeddingPayload, keyId: key.keyId, salt: envelope.keySalt };
+    } catch (error) {
+      console.warn('⚠️ Failed to open embedding blob:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch a raw blob from Walrus, falling back to 0G
+   */
+  private async downloadBlob(storageId: string): Promise<Buffer | null> {
+    let data: Buffer | null = null;
+
+    if (this.walrusStorage) {
+      try {
+        data = await this.walrusStorage.retrieveBlob(storageId);
+      } catch (walrusError) {
+        console.warn(`⚠️ Failed to retrieve embedding ${storageId} from Walrus:`, walrusError);
+      }
+    }
+
+    if (!data && this.indexer) {
+      const fs = require('fs');
+      const os = require('os');
+      const path = require('path');
+      let tempDir: string | null = null;
+      try {
+        // A private directory per download, so concurrent downloads never share a path
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'embedding_download_')) as string;
+        const tempFilePath = path.join(tempDir, 'embedding.json');
+        const downloadErr = await this.indexer.download(storageId, tempFilePath, true);
+        if (downloadErr !== null) {
+          throw new Error(`Download error: ${downloadErr}`);
+        }
+        data = fs.readFileSync(tempFilePath) as Buffer;
+      } catch (ogError) {
+        console.warn(`⚠️ Failed to retrieve embedding ${storageId} from 0G:`, ogError);
+      } finally {
+        if (tempDir) {
+          fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Re-upload an embedding blob whose envelope or ciphertext predates the current format
+   * Returns the newly stored embedding, or null when the blob is already current or unreadable
+   */
+  async migrateEmbedding(storageId: string): Promise<OGEmbeddingResult | null> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const data = await this.downloadBlob(storageId);
+    if (!data) {
+      return null;
+    }
+
+    let envelope: EmbeddingEnvelope;
+    try {
+      envelope = JSON.parse(data.toString('utf-8'));
+    } catch {
+      return null;
+    }
+    if (envelope.format !== 'og-embedding') {
+      return null;
+    }
+
+    const isCurrent = envelope.version >= 2 && !!envelope.wrappedKey &&
+      !this.encryptionService.isLegacyFormat(envelope.payload) &&
+      !this.encryptionService.isLegacyFormat(envelope.wrappedKey);
+    if (isCurrent) {
+      return null;
+    }
+
+    const opened = await this.openEmbeddingPayload(data);
+    if (!opened) {
+      return null;
+    }
+
+    console.log(`🔄 Migrating embedding blob ${storageId} to encryption format v2`);
+    const { payload } = opened;
+    return this.storeEmbedding(payload.conversationId, payload.vector, payload.metadata);
+  }
+
+  /**
+   * Download and decrypt a single embedding by storage ID (Walrus blob ID or 0G root hash).
+   * Pass a key manager to decrypt with keys other than the session's, e.g. a restore password.
+   */
+  async retrieveEmbedding(storageId: string, keyManagement?: KeyManagementService): Promise<OGEmbeddingResult | null> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const data = await this.downloadBlob(storageId);
+    if (!data) {
+      return null;
+    }
+
+    const opened = await this.openEmbeddingPayload(data, keyManagement);
+    if (!opened) {
+      return null;
+    }
+    const { payload } = opened;
+
+    return {
+      vector: payload.vector,
+      metadata: {
+        conversationId: payload.conversationId,
+        agentId: payload.metadata.agentId,
+        timestamp: payload.metadata.timestamp,
+        tags: payload.metadata.tags,
+        contentHash: payload.metadata.contentHash,
+        content: payload.metadata.content
+      },
+      storageId,
+      encryption: { keyId: opened.keyId, salt: opened.salt }
+    };
+  }
+
   async queryEmbedding(queryVector: number[], topK: number = 10): Promise<OGEmbeddingResult[]> {
     if (!this.isInitialized) {
       await this.initialize();
@@ -399,9 +607,9 @@ export class OGStorageService {
     try {
       console.log(`📊 Searching Walrus memories with vector similarity (top-${topK})`);
       
-      // Use the MemoryIndexer for vector similarity search
+      // Use the MemoryIndexer's ANN index for vector similarity search
       const { MemoryIndexer } = await import('./memory-indexer');
-      const similarMemories = MemoryIndexer.searchByVector(queryVector, topK);
+      const similarMemories = MemoryIndexer.searchByVectorWithScores(queryVector, topK);
       
       if (similarMemories.length === 0) {
         console.log(`✅ Retrieved 0 embeddings from Walrus (no vectors in index)`);
@@ -409,19 +617,20 @@ export class OGStorageService {
       }
       
       // Convert MemoryEntry to OGEmbeddingResult format
-      const results: OGEmbeddingResult[] = similarMemories.map(memory => ({
-        vector: queryVector, // We don't store the original vector, using query vector as placeholder
+      const results: OGEmbeddingResult[] = similarMemories.map(({ memory, similarity }) => ({
+        vector: MemoryIndexer.getVector(memory.id) || [],
         metadata: {
           conversationId: memory.id,
           agentId: memory.accessPolicy?.owner || 'unknown',
-          timestamp: memory.createdAt?.toISOString() || new Date().toISOString(),
+          timestamp: memory.createdAt ? new Date(memory.createdAt).toISOString() : new Date().toISOString(),
           tags: memory.tags || [],
           contentHash: memory.metadata?.checksum || '',
           content: memory.content
         },
         storageId: memory.metadata?.blobId || memory.ipfsHash || memory.id,
         explorerUrl: memory.explorerUrl,
-        transactionHash: memory.transactionHash
+        transactionHash: memory.transactionHash,
+        similarity
       }));
       
       console.log(`✅ Retrieved ${results.length} embeddings from Walrus vector index`);
@@ -1,4 +1,5 @@
 import { ChatMessage } from '@/types/chat';
+import { MemoryConflict, ProposedMemory } from '@/types/memory';
 
 export interface AIResponse {
   content: string;
@@ -7,6 +8,11 @@ export interface AIResponse {
   transactionHash?: string;
   walrusUrl?: string;
   indexingStatus?: string;
+  memoriesUsed?: string[]; // IDs of memories retrieved into the prompt, for citations
+  clarification?: MemoryConflict; // Contradiction the reply asks the user to settle
+  proposedMemories?: ProposedMemory[]; // Memories extracted from this turn that await the user's review
+  messageId?: string; // ID of the reply, as recorded in memory provenance
+  memoriesCreated?: string[]; // Memories stored from this turn straight away
 }
 
 export interface AIService {
@@ -28,6 +34,10 @@ export class OpenAIService implements AIService {
     this.baseUrl = baseUrl;
   }
 
+  getModel(): string {
+    return this.model;
+  }
+
   async generateResponse(userInput: string, previousMessages: ChatMessage[]): Promise<AIResponse> {
     // Prepare messages for OpenAI API
     const messages = [
@@ -86,6 +96,70 @@ IMPORTANT: As of January 2025, Donald Trump is the President of the United State
     };
   }
 
+  /**
+   * Ask the model for a JSON object (OpenAI JSON mode). Throws if the reply is not valid JSON.
+   */
+  async generateJSON<T = any>(systemPrompt: string, userPrompt: string, maxTokens: number = 800): Promise<T> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        max_tokens: maxTokens,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`AI service error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return JSON.parse(data.choices[0]?.message?.content || '{}');
+  }
+
+  /**
+   * Describe an image (given as a data: or https: URL) in plain text. Needs a vision-capable model.
+   */
+  async describeImage(imageUrl: string, instruction: string, maxTokens: number = 400): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: instruction },
+              { type: 'image_url', image_url: { url: imageUrl } }
+            ]
+          }
+        ],
+        max_tokens: maxTokens,
+        temperature: 0,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`AI service error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.choices[0]?.message?.content || '').trim();
+  }
+
   private shouldStoreConversation(userInput: string, aiResponse: string): boolean {
     // Store conversations that are meaningful and not test messages
     const isTestMessage = userInput.toLowerCase().includes('test') || 
@@ -113,6 +187,23 @@ export function createAIService(): AIService {
   return new OpenAIService(apiKey, model, baseUrl);
 }
 
+/**
+ * OpenAI service for structured (JSON) tasks such as memory extraction, or null when no API key
+ * is configured so callers can fall back to heuristics
+ */
+export function getOpenAIService(): OpenAIService | null {
+  const apiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY;
+  if (!apiKey) {
+    return null;
+  }
+
+  return new OpenAIService(
+    apiKey,
+    process.env.NEXT_PUBLIC_OPENAI_MODEL || 'gpt-4o-mini',
+    process.env.NEXT_PUBLIC_OPENAI_BASE_URL || 'https://api.openai.com/v1'
+  );
+}
+
 // Export singleton instance - lazy initialization
 let _aiService: AIService | null = null;
 
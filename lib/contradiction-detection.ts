@@ -0,0 +1,183 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MemoryConflict, MemoryConflictStatus, MemoryEntry, MemoryType } from '@/types/memory';
+import { getOpenAIService, OpenAIService } from './ai-service';
+import { getMemoryStore, MemoryStore } from './memory-store';
+import { NEGATION_PATTERN } from './memory-graph';
+
+/**
+ * Contradiction Detection - notices when a new memory conflicts with what the user said before
+ * ("I'm vegetarian now" after "I love steak"). Clear updates supersede the old memory; anything
+ * less certain is queued so the assistant can ask the user which one holds.
+ */
+
+// Memory types that state something about the user which can go out of date
+export const CONTRADICTION_CHECKED_TYPES: MemoryType[] = ['user_preference', 'profile_data', 'learned_fact'];
+
+export interface ContradictionCandidate {
+  memory: MemoryEntry;
+  similarity: number;
+}
+
+export type ContradictionResolution = 'supersede' | 'clarify';
+
+export interface DetectedContradiction {
+  existing: MemoryEntry;
+  reason: string;
+  resolution: ContradictionResolution;
+  confidence: number;
+}
+
+const DETECTION_PROMPT = `You check a user's personal memory for contradictions.
+You get one NEW statement about the user and a numbered list of EXISTING memories.
+
+Return JSON: {"conflicts": [{"index", "reason", "resolution", "confidence"}]}
+- index: number of the existing memory that cannot be true at the same time as the new statement
+- reason: one short sentence explaining the conflict
+- resolution: "supersede" when the new statement clearly replaces the old one (the user changed, e.g. "now", "anymore", "switched to", "moved to"); "clarify" when it is unclear which one is true
+- confidence: 0-1, how sure you are that the two really conflict
+
+Memories that merely differ in detail, or are about different things, do not conflict.
+Return {"conflicts": []} when nothing conflicts.`;
+
+export class ContradictionDetector {
+  private static readonly CONFLICTS_KEY = 'og_memory_conflicts';
+  private static readonly AUTO_SUPERSEDE_CONFIDENCE = 0.8;
+  private static readonly HEURISTIC_SIMILARITY = 0.85; // Without an LLM only near-identical statements of opposite polarity count
+  private ai: OpenAIService | null;
+  private store: MemoryStore;
+
+  constructor(store: MemoryStore = getMemoryStore(), ai: OpenAIService | null = getOpenAIService()) {
+    this.store = store;
+    this.ai = ai;
+  }
+
+  /**
+   * Existing memories the new one contradicts. Only supersede results confident enough to act on
+   * without asking the user come back as 'supersede'.
+   */
+  async detect(memory: MemoryEntry, candidates: ContradictionCandidate[]): Promise<DetectedContradiction[]> {
+    if (candidates.length === 0) return [];
+
+    if (this.ai) {
+      try {
+        return await this.detectWithModel(memory, candidates);
+      } catch (error: any) {
+        console.warn('⚠️ LLM contradiction check failed, using heuristics:', error?.message);
+      }
+    }
+
+    return this.detectWithHeuristics(memory, candidates);
+  }
+
+  private async detectWithModel(memory: MemoryEntry, candidates: ContradictionCandidate[]): Promise<DetectedContradiction[]> {
+    const existing = candidates.map((candidate, i) => `${i + 1}. ${candidate.memory.content}`).join('\n');
+    const result = await this.ai!.generateJSON<{ conflicts?: any[] }>(
+      DETECTION_PROMPT,
+      `NEW: ${memory.content}\n\nEXISTING:\n${existing}`
+    );
+    if (!Array.isArray(result.conflicts)) {
+      throw new Error('Contradiction check response is missing a conflicts array');
+    }
+
+    return result.conflicts
+      .filter(raw => raw && typeof raw.index === 'number' && candidates[raw.index - 1])
+      .map(raw => {
+        const confidence = typeof raw.confidence === 'number' ? Math.max(0, Math.min(1, raw.confidence)) : 0.5;
+        const supersede = raw.resolution === 'supersede' && confidence >= ContradictionDetector.AUTO_SUPERSEDE_CONFIDENCE;
+        return {
+          existing: candidates[raw.index - 1].memory,
+          reason: typeof raw.reason === 'string' && raw.reason.trim() ? raw.reason.trim() : 'Conflicting statements',
+          resolution: supersede ? 'supersede' as const : 'clarify' as const,
+          confidence
+        };
+      });
+  }
+
+  /**
+   * Very similar statements where exactly one is negated ("I drink coffee" / "I don't drink coffee").
+   * The heuristic can't tell which one is current, so it always asks.
+   */
+  private detectWithHeuristics(memory: MemoryEntry, candidates: ContradictionCandidate[]): DetectedContradiction[] {
+    const negated = NEGATION_PATTERN.test(memory.content);
+    return candidates
+      .filter(candidate =>
+        candidate.similarity >= ContradictionDetector.HEURISTIC_SIMILARITY &&
+        NEGATION_PATTERN.test(candidate.memory.content) !== negated
+      )
+      .map(candidate => ({
+        existing: candidate.memory,
+        reason: 'One statement negates the other',
+        resolution: 'clarify' as const,
+        confidence: candidate.similarity
+      }));
+  }
+
+  /**
+   * Log a contradiction. Entries are kept after resolution as the audit trail.
+   */
+  record(newMemory: MemoryEntry, detected: DetectedContradiction, status: MemoryConflictStatus): MemoryConflict {
+    const now = new Date().toISOString();
+    const conflict: MemoryConflict = {
+      id: uuidv4(),
+      newMemoryId: newMemory.id,
+      existingMemoryId: detected.existing.id,
+      newContent: newMemory.content,
+      existingContent: detected.existing.content,
+      reason: detected.reason,
+      confidence: detected.confidence,
+      status,
+      detectedAt: now,
+      ...(status !== 'pending' ? { resolvedAt: now, resolvedBy: 'auto' as const } : {})
+    };
+
+    const conflicts = this.loadConflicts();
+    conflicts.push(conflict);
+    this.saveConflicts(conflicts);
+
+    console.log(`⚔️ Memory ${newMemory.id.slice(0, 8)}... contradicts ${detected.existing.id.slice(0, 8)}... (${status}): ${detected.reason}`);
+    return conflict;
+  }
+
+  /**
+   * Logged contradictions, newest first
+   */
+  list(status?: MemoryConflictStatus): MemoryConflict[] {
+    return this.loadConflicts()
+      .filter(conflict => !status || conflict.status === status)
+      .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+  }
+
+  get(conflictId: string): MemoryConflict | null {
+    return this.loadConflicts().find(conflict => conflict.id === conflictId) || null;
+  }
+
+  update(conflictId: string, changes: Partial<Omit<MemoryConflict, 'id'>>): MemoryConflict {
+    const conflicts = this.loadConflicts();
+    const index = conflicts.findIndex(conflict => conflict.id === conflictId);
+    if (index === -1) {
+      throw new Error(`Contradiction not found: ${conflictId}`);
+    }
+
+    conflicts[index] = { ...conflicts[index], ...changes };
+    this.saveConflicts(conflicts);
+    return conflicts[index];
+  }
+
+  private loadConflicts(): MemoryConflict[] {
+    return this.store.get<MemoryConflict[]>(ContradictionDetector.CONFLICTS_KEY, []);
+  }
+
+  private saveConflicts(conflicts: MemoryConflict[]): void {
+    this.store.set(ContradictionDetector.CONFLICTS_KEY, conflicts);
+  }
+}
+
+// Singleton instance
+let contradictionDetectorInstance: ContradictionDetector | null = null;
+
+export function getContradictionDetector(): ContradictionDetector {
+  if (!contradictionDetectorInstance) {
+    contradictionDetectorInstance = new ContradictionDetector();
+  }
+  return contradictionDetectorInstance;
+}
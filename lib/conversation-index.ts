@@ -0,0 +1,148 @@
+import { getMemoryStore, MemoryStore } from './memory-store';
+
+/**
+ * Conversation Index - Secondary index from conversationId / agentId to stored embedding blobs
+ * Holds only pointers and metadata; content and vectors are fetched back from Walrus/0G on demand
+ */
+export interface ConversationIndexEntry {
+  storageId: string;
+  conversationId: string;
+  agentId: string;
+  timestamp: string;
+  tags: string[];
+  contentHash: string;
+  explorerUrl?: string;
+  transactionHash?: string;
+}
+
+interface ConversationIndexData {
+  entries: Record<string, ConversationIndexEntry>; // Keyed by storageId
+  byConversation: Record<string, string[]>;
+  byAgent: Record<string, string[]>;
+  rebuiltAt?: string;
+}
+
+export class ConversationIndex {
+  private static readonly INDEX_KEY = 'og_conversation_index';
+  private store: MemoryStore;
+
+  constructor(store: MemoryStore = getMemoryStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Record a stored embedding; re-adding the same storageId replaces its entry
+   */
+  add(entry: ConversationIndexEntry): void {
+    const data = this.load();
+    const previous = data.entries[entry.storageId];
+    if (previous) {
+      this.unlink(data, previous);
+    }
+
+    data.entries[entry.storageId] = entry;
+    this.link(data.byConversation, entry.conversationId, entry.storageId);
+    this.link(data.byAgent, entry.agentId, entry.storageId);
+    this.save(data);
+  }
+
+  remove(storageId: string): void {
+    const data = this.load();
+    const entry = data.entries[storageId];
+    if (!entry) return;
+
+    this.unlink(data, entry);
+    delete data.entries[storageId];
+    this.save(data);
+  }
+
+  has(storageId: string): boolean {
+    return !!this.load().entries[storageId];
+  }
+
+  /**
+   * Entries for a conversation, newest first
+   */
+  getByConversation(conversationId: string): ConversationIndexEntry[] {
+    const data = this.load();
+    return this.resolve(data, data.byConversation[conversationId]);
+  }
+
+  /**
+   * Entries written by an agent, newest first
+   */
+  getByAgent(agentId: string): ConversationIndexEntry[] {
+    const data = this.load();
+    return this.resolve(data, data.byAgent[agentId]);
+  }
+
+  getAll(): ConversationIndexEntry[] {
+    return Object.values(this.load().entries);
+  }
+
+  getStats(): { entries: number; conversations: number; agents: number; rebuiltAt?: string } {
+    const data = this.load();
+    return {
+      entries: Object.keys(data.entries).length,
+      conversations: Object.keys(data.byConversation).length,
+      agents: Object.keys(data.byAgent).length,
+      rebuiltAt: data.rebuiltAt
+    };
+  }
+
+  markRebuilt(): void {
+    const data = this.load();
+    data.rebuiltAt = new Date().toISOString();
+    this.save(data);
+  }
+
+  private resolve(data: ConversationIndexData, storageIds: string[] = []): ConversationIndexEntry[] {
+    return storageIds
+      .map(storageId => data.entries[storageId])
+      .filter(Boolean)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  private link(bucket: Record<string, string[]>, key: string, storageId: string): void {
+    const ids = bucket[key] || [];
+    if (!ids.includes(storageId)) {
+      ids.push(storageId);
+    }
+    bucket[key] = ids;
+  }
+
+  private unlink(data: ConversationIndexData, entry: ConversationIndexEntry): void {
+    const drop = (bucket: Record<string, string[]>, key: string) => {
+      const ids = (bucket[key] || []).filter(id => id !== entry.storageId);
+      if (ids.length > 0) {
+        bucket[key] = ids;
+      } else {
+        delete bucket[key];
+      }
+    };
+    drop(data.byConversation, entry.conversationId);
+    drop(data.byAgent, entry.agentId);
+  }
+
+  private load(): ConversationIndexData {
+    return this.store.get<ConversationIndexData>(ConversationIndex.INDEX_KEY, {
+      entries: {},
+      byConversation: {},
+      byAgent: {}
+    });
+  }
+
+  private save(data: ConversationIndexData): void {
+    this.store.set(ConversationIndex.INDEX_KEY, data);
+  }
+}
+
+// Singleton instance
+let conversationIndexInstance: ConversationIndex | null = null;
+
+export function getConversationIndex(): ConversationIndex {
+  if (!conversationIndexInstance) {
+    conversationIndexInstance = new ConversationIndex();
+  }
+  return conversationIndexInstance;
+}
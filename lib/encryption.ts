@@ -1,12 +1,84 @@
 import CryptoJS from 'crypto-js';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { argon2idAsync } from '@noble/hashes/argon2';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import { chacha20poly1305 } from '@noble/ciphers/chacha';
 import { 
   EncryptionConfig, 
   EncryptedData, 
   ThresholdEncryptionConfig, 
   EncryptionKey, 
   TimelockEncryption, 
-  DecryptionResult 
+  DecryptionResult,
+  EnvelopeEncryptedData
 } from '@/types/encryption';
+import { splitSecret, combineShares, encodeShare, decodeShare } from './shamir';
+import { getTimelockBeacon, openFromRound, roundAt, sealToRound, TimelockBeacon } from './timelock';
+
+// Current ciphertext format: authenticated AES-256-GCM / ChaCha20-Poly1305 with a configurable KDF.
+// Data without a version was written by the legacy CryptoJS AES-CBC path.
+export const ENCRYPTION_FORMAT_VERSION = 2;
+
+const KEY_LENGTH = 32;
+// Random data keys need no stretching; HKDF only turns key + salt into the cipher key
+const DATA_KEY_DERIVATION = 'HKDF';
+const CHACHA_NONCE_LENGTH = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+}
+
+// Copy into a standalone ArrayBuffer, as WebCrypto expects
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer as ArrayBuffer;
+}
+
+// WebCrypto is global in browsers and Node 20+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('WebCrypto is not available in this environment');
+  }
+  return subtle;
+}
+
+function randomBytes(length: number): Uint8Array {
+  return globalThis.crypto.getRandomValues(new Uint8Array(length));
+}
 
 export class EncryptionService {
   private config: EncryptionConfig;
@@ -18,9 +90,11 @@ export class EncryptionService {
       keyDerivation: 'PBKDF2',
       iterations: 100000,
       saltLength: 32,
-      ivLength: 16,
+      ivLength: 12,
       tagLength: 16,
-      ...config
+      ...config,
+      scrypt: { N: 2 ** 15, r: 8, p: 1, ...config?.scrypt },
+      argon2: { memoryKiB: 19456, passes: 2, parallelism: 1, ...config?.argon2 }
     };
   }
 
@@ -71,7 +145,8 @@ export class EncryptionService {
   }
 
   /**
-   * Encrypt content using AES-256-GCM
+   * Encrypt content with the configured AEAD cipher and KDF. Throws when keyId is unknown:
+   * a key made up here would be lost with the process and the ciphertext with it.
    */
   async encrypt(content: string, keyId?: string, keyManagementService?: any): Promise<EncryptedData> {
     let key: EncryptionKey | undefined;
@@ -87,44 +162,42 @@ export class EncryptionService {
     }
     
     if (!key) {
-      // Generate new key if none found
-      key = this.generateKeyPair();
-    }
-    
-    if (!key) {
-      throw new Error('Encryption key not found');
+      throw new Error(`Encryption key not found: ${keyId || '(none given)'}`);
     }
 
-    const salt = CryptoJS.lib.WordArray.random(this.config.saltLength);
-    const iv = CryptoJS.lib.WordArray.random(this.config.ivLength);
-    
-    // Derive key from password using PBKDF2
-    const derivedKey = CryptoJS.PBKDF2(key.privateKey!, salt, {
-      keySize: 256 / 32,
-      iterations: this.config.iterations,
-      hasher: CryptoJS.algo.SHA256
-    });
+    return this.encryptWithKey(content, key.privateKey!, this.config.keyDerivation);
+  }
 
-    // Encrypt using AES-CBC (GCM not available in this version)
-    const encrypted = CryptoJS.AES.encrypt(content, derivedKey, {
-      iv: iv,
-      mode: CryptoJS.mode.CBC,
-      padding: CryptoJS.pad.Pkcs7
-    });
+  private async encryptWithKey(
+    content: string,
+    keyMaterial: string,
+    keyDerivation: EncryptionConfig['keyDerivation'] | typeof DATA_KEY_DERIVATION
+  ): Promise<EncryptedData> {
+    const salt = randomBytes(this.config.saltLength);
+    const iv = randomBytes(this.config.algorithm === 'ChaCha20-Poly1305' ? CHACHA_NONCE_LENGTH : this.config.ivLength);
+    const kdfParams = keyDerivation === 'scrypt'
+      ? { ...this.config.scrypt }
+      : keyDerivation === 'Argon2' ? { ...this.config.argon2 } : undefined;
+    const iterations = keyDerivation === 'PBKDF2' ? this.config.iterations : 0;
+
+    const derivedKey = await this.deriveKey(keyMaterial, salt, keyDerivation, iterations, kdfParams);
+    const sealed = await this.seal(this.config.algorithm, derivedKey, iv, encoder.encode(content));
 
     return {
-      encryptedContent: encrypted.toString(),
-      iv: iv.toString(CryptoJS.enc.Hex),
-      salt: salt.toString(CryptoJS.enc.Hex),
-      tag: '', // GCM mode handles authentication
+      version: ENCRYPTION_FORMAT_VERSION,
+      encryptedContent: toBase64(sealed.ciphertext),
+      iv: toHex(iv),
+      salt: toHex(salt),
+      tag: toHex(sealed.tag),
       algorithm: this.config.algorithm,
-      keyDerivation: this.config.keyDerivation,
-      iterations: this.config.iterations,
+      keyDerivation,
+      iterations,
+      ...(kdfParams && { kdfParams }),
     };
   }
 
   /**
-   * Decrypt content using AES-256-GCM
+   * Decrypt content, accepting both the current format and legacy CryptoJS ciphertext
    */
   async decrypt(encryptedData: EncryptedData, keyId: string, keyManagementService?: any): Promise<DecryptionResult> {
     let key: EncryptionKey | undefined;
@@ -143,17 +216,75 @@ export class EncryptionService {
       throw new Error('Decryption key not found');
     }
 
+    const content = this.isLegacyFormat(encryptedData)
+      ? this.decryptLegacy(encryptedData, key.privateKey!)
+      : await this.decryptAuthenticated(encryptedData, key.privateKey!);
+
+    return {
+      content,
+      metadata: {
+        decryptedAt: new Date(),
+        keyUsed: keyId,
+        algorithm: encryptedData.algorithm,
+      }
+    };
+  }
+
+  /**
+   * True for ciphertext written before the authenticated format (CryptoJS AES-CBC)
+   */
+  isLegacyFormat(encryptedData: EncryptedData): boolean {
+    return !encryptedData.version || encryptedData.version < ENCRYPTION_FORMAT_VERSION;
+  }
+
+  /**
+   * Re-encrypt legacy ciphertext in the current format; current-format data is returned unchanged
+   */
+  async migrate(encryptedData: EncryptedData, keyId: string, keyManagementService?: any): Promise<EncryptedData> {
+    if (!this.isLegacyFormat(encryptedData)) {
+      return encryptedData;
+    }
+
+    const decrypted = await this.decrypt(encryptedData, keyId, keyManagementService);
+    return this.encrypt(decrypted.content, keyId, keyManagementService);
+  }
+
+  private async decryptAuthenticated(encryptedData: EncryptedData, keyMaterial: string): Promise<string> {
+    const derivedKey = await this.deriveKey(
+      keyMaterial,
+      fromHex(encryptedData.salt),
+      encryptedData.keyDerivation as EncryptionConfig['keyDerivation'] | typeof DATA_KEY_DERIVATION,
+      encryptedData.iterations,
+      encryptedData.kdfParams
+    );
+
+    try {
+      const plaintext = await this.open(
+        encryptedData.algorithm as EncryptionConfig['algorithm'],
+        derivedKey,
+        fromHex(encryptedData.iv),
+        fromBase64(encryptedData.encryptedContent),
+        fromHex(encryptedData.tag)
+      );
+      return decoder.decode(plaintext);
+    } catch (error) {
+      throw new Error('Decryption failed - authentication tag mismatch (wrong key or tampered data)');
+    }
+  }
+
+  /**
+   * Legacy CryptoJS path: PBKDF2-SHA256 + AES-CBC, no authentication tag
+   */
+  private decryptLegacy(encryptedData: EncryptedData, keyMaterial: string): string {
     const salt = CryptoJS.enc.Hex.parse(encryptedData.salt);
     const iv = CryptoJS.enc.Hex.parse(encryptedData.iv);
 
-    // Derive key from password using PBKDF2
-    const derivedKey = CryptoJS.PBKDF2(key.privateKey!, salt, {
+    const derivedKey = CryptoJS.PBKDF2(keyMaterial, salt, {
       keySize: 256 / 32,
       iterations: encryptedData.iterations,
       hasher: CryptoJS.algo.SHA256
     });
 
-    // Decrypt using AES-CBC (GCM not available in this version)
     const decrypted = CryptoJS.AES.decrypt(encryptedData.encryptedContent, derivedKey, {
       iv: iv,
       mode: CryptoJS.mode.CBC,
@@ -164,86 +295,245 @@ export class EncryptionService {
     if (!content) {
       throw new Error('Decryption failed - invalid key or corrupted data');
     }
+    return content;
+  }
 
-    return {
-      content,
-      metadata: {
-        decryptedAt: new Date(),
-        keyUsed: keyId,
-        algorithm: encryptedData.algorithm,
+  /**
+   * Derive a 256-bit key from key material with the requested KDF
+   */
+  private async deriveKey(
+    keyMaterial: string,
+    salt: Uint8Array,
+    keyDerivation: EncryptionConfig['keyDerivation'] | typeof DATA_KEY_DERIVATION,
+    iterations: number,
+    kdfParams: EncryptedData['kdfParams'] = {}
+  ): Promise<Uint8Array> {
+    const password = encoder.encode(keyMaterial);
+
+    switch (keyDerivation) {
+      case 'scrypt': {
+        const { N, r, p } = { ...this.config.scrypt, ...kdfParams };
+        return scryptAsync(password, salt, { N, r, p, dkLen: KEY_LENGTH });
+      }
+      case 'Argon2': {
+        const { memoryKiB, passes, parallelism } = { ...this.config.argon2, ...kdfParams };
+        return argon2idAsync(password, salt, { m: memoryKiB, t: passes, p: parallelism, dkLen: KEY_LENGTH });
+      }
+      case 'HKDF':
+        return hkdf(sha256, password, salt, undefined, KEY_LENGTH);
+      case 'PBKDF2': {
+        const subtle = getSubtle();
+        const baseKey = await subtle.importKey('raw', toArrayBuffer(password), 'PBKDF2', false, ['deriveBits']);
+        const bits = await subtle.deriveBits(
+          { name: 'PBKDF2', salt: toArrayBuffer(salt), iterations, hash: 'SHA-256' },
+          baseKey,
+          KEY_LENGTH * 8
+        );
+        return new Uint8Array(bits);
       }
+      default:
+        throw new Error(`Unsupported key derivation: ${keyDerivation}`);
+    }
+  }
+
+  private async seal(
+    algorithm: EncryptionConfig['algorithm'],
+    key: Uint8Array,
+    iv: Uint8Array,
+    plaintext: Uint8Array
+  ): Promise<{ ciphertext: Uint8Array; tag: Uint8Array }> {
+    let sealed: Uint8Array;
+
+    if (algorithm === 'ChaCha20-Poly1305') {
+      sealed = chacha20poly1305(key, iv).encrypt(plaintext);
+    } else if (algorithm === 'AES-256-GCM') {
+      const subtle = getSubtle();
+      const cryptoKey = await subtle.importKey('raw', toArrayBuffer(key), 'AES-GCM', false, ['encrypt']);
+      sealed = new Uint8Array(await subtle.encrypt(
+        { name: 'AES-GCM', iv: toArrayBuffer(iv), tagLength: this.config.tagLength * 8 },
+        cryptoKey,
+        toArrayBuffer(plaintext)
+      ));
+    } else {
+      throw new Error(`Unsupported algorithm: ${algorithm}`);
+    }
+
+    // Both ciphers append the tag to the ciphertext; store it separately
+    const tagLength = algorithm === 'ChaCha20-Poly1305' ? 16 : this.config.tagLength;
+    return {
+      ciphertext: sealed.slice(0, sealed.length - tagLength),
+      tag: sealed.slice(sealed.length - tagLength)
     };
   }
 
+  private async open(
+    algorithm: EncryptionConfig['algorithm'],
+    key: Uint8Array,
+    iv: Uint8Array,
+    ciphertext: Uint8Array,
+    tag: Uint8Array
+  ): Promise<Uint8Array> {
+    const sealed = concatBytes(ciphertext, tag);
+
+    if (algorithm === 'ChaCha20-Poly1305') {
+      return chacha20poly1305(key, iv).decrypt(sealed);
+    }
+    if (algorithm === 'AES-256-GCM') {
+      const subtle = getSubtle();
+      const cryptoKey = await subtle.importKey('raw', toArrayBuffer(key), 'AES-GCM', false, ['decrypt']);
+      return new Uint8Array(await subtle.decrypt(
+        { name: 'AES-GCM', iv: toArrayBuffer(iv), tagLength: tag.length * 8 },
+        cryptoKey,
+        toArrayBuffer(sealed)
+      ));
+    }
+    throw new Error(`Unsupported algorithm: ${algorithm}`);
+  }
+
+  /**
+   * Envelope-encrypt content: a fresh data key encrypts the content and is itself
+   * encrypted under the key-encryption key identified by keyId
+   */
+  async encryptEnvelope(content: string, keyId: string, keyManagementService?: any): Promise<EnvelopeEncryptedData> {
+    const dataKey = toHex(randomBytes(KEY_LENGTH));
+    const wrappedKey = await this.encrypt(dataKey, keyId, keyManagementService);
+    const payload = await this.encryptWithKey(content, dataKey, DATA_KEY_DERIVATION);
+    return { keyId, wrappedKey, payload };
+  }
+
+  /**
+   * Unwrap the data key with the key-encryption key, then decrypt the payload
+   */
+  async decryptEnvelope(envelope: EnvelopeEncryptedData, keyManagementService?: any): Promise<DecryptionResult> {
+    const unwrapped = await this.decrypt(envelope.wrappedKey, envelope.keyId, keyManagementService);
+    const dataKeyId = this.generateKeyId();
+    this.keys.set(dataKeyId, {
+      publicKey: unwrapped.content,
+      privateKey: unwrapped.content,
+      keyId: dataKeyId,
+      algorithm: this.config.algorithm,
+      createdAt: new Date(),
+    });
+
+    try {
+      const result = await this.decrypt(envelope.payload, dataKeyId);
+      return { ...result, metadata: { ...result.metadata, keyUsed: envelope.keyId } };
+    } finally {
+      this.keys.delete(dataKeyId);
+    }
+  }
+
   /**
-   * Implement threshold encryption (Shamir's Secret Sharing)
+   * Threshold encryption: content is encrypted under a fresh random key, which is then
+   * split with Shamir's Secret Sharing so that any `threshold` of the shares unlock it.
+   * Shares are returned in participant order (share i belongs to participants[i]).
    */
   async createThresholdEncryption(
     content: string, 
     config: ThresholdEncryptionConfig
   ): Promise<{ shares: string[]; encryptedContent: EncryptedData }> {
-    // Generate a random secret key
-    const secretKey = CryptoJS.lib.WordArray.random(32);
+    if (config.algorithm !== 'Shamir') {
+      throw new Error(`Unsupported threshold algorithm: ${config.algorithm}`);
+    }
+    if (config.participants.length > 0 && config.participants.length !== config.totalShares) {
+      throw new Error(`Expected ${config.totalShares} participants, got ${config.participants.length}`);
+    }
+
+    const secretKey = randomBytes(KEY_LENGTH);
     const keyId = this.generateKeyId();
     
     // Store the key temporarily
     const tempKey: EncryptionKey = {
-      publicKey: secretKey.toString(CryptoJS.enc.Hex),
-      privateKey: secretKey.toString(CryptoJS.enc.Hex),
+      publicKey: toHex(secretKey),
+      privateKey: toHex(secretKey),
       keyId,
       algorithm: this.config.algorithm,
       createdAt: new Date(),
     };
     this.keys.set(keyId, tempKey);
 
-    // Encrypt the content with the secret key
-    const encryptedContent = await this.encrypt(content, keyId);
-
-    // Create shares using Shamir's Secret Sharing (simplified implementation)
-    const shares = this.createSecretShares(secretKey.toString(CryptoJS.enc.Hex), config);
-
-    // Clean up temporary key
-    this.keys.delete(keyId);
-
-    return { shares, encryptedContent };
+    try {
+      const shares = splitSecret(secretKey, config.threshold, config.totalShares).map(encodeShare);
+      const encryptedContent = await this.encrypt(content, keyId);
+      return { shares, encryptedContent };
+    } finally {
+      this.keys.delete(keyId);
+      secretKey.fill(0);
+    }
   }
 
   /**
-   * Reconstruct secret from threshold shares
+   * Reconstruct the threshold key (hex) from at least `threshold` encoded shares
    */
   async reconstructFromShares(shares: string[]): Promise<string> {
-    // Simplified Shamir's Secret Sharing reconstruction
-    // In production, use a proper cryptographic library
-    if (shares.length < 2) {
-      throw new Error('Not enough shares to reconstruct secret');
+    const secret = combineShares(shares.map(decodeShare));
+    try {
+      return toHex(secret);
+    } finally {
+      secret.fill(0);
     }
+  }
 
-    // For demo purposes, we'll use the first share as the secret
-    // In real implementation, use proper polynomial interpolation
-    return shares[0];
+  /**
+   * Decrypt threshold-encrypted content once enough shares have been collected.
+   * A wrong share yields a wrong key, which the authentication tag rejects.
+   */
+  async decryptWithShares(encryptedContent: EncryptedData, shares: string[]): Promise<DecryptionResult> {
+    const keyId = this.generateKeyId();
+    const secretKey = await this.reconstructFromShares(shares);
+    this.keys.set(keyId, {
+      publicKey: secretKey,
+      privateKey: secretKey,
+      keyId,
+      algorithm: this.config.algorithm,
+      createdAt: new Date(),
+    });
+
+    try {
+      return await this.decrypt(encryptedContent, keyId);
+    } finally {
+      this.keys.delete(keyId);
+    }
   }
 
   /**
-   * Create timelock encryption
+   * Timelock encryption: content is encrypted under a fresh key, and that key is sealed to the
+   * first beacon round at or after unlockTime. Nothing can recover it until the beacon publishes
+   * that round's signature.
    */
   async createTimelockEncryption(
     content: string, 
-    unlockTime: Date
-  ): Promise<TimelockEncryption> {
-    // Generate a key that will be "locked" until unlockTime
-    const key = this.generateKeyPair();
-    const encryptedContent = await this.encrypt(content, key.keyId);
-
-    // In a real implementation, this would use RSA or lattice-based encryption
-    // For demo purposes, we'll store the key with a timestamp
-    const timelock: TimelockEncryption = {
-      encryptedKey: key.privateKey!,
-      unlockTime: unlockTime.getTime(),
-      timelockAlgorithm: 'RSA', // Would be 'Lattice' for quantum-resistant
-      publicKey: key.publicKey,
-    };
+    unlockTime: Date,
+    beacon: TimelockBeacon = getTimelockBeacon()
+  ): Promise<{ timelock: TimelockEncryption; encryptedContent: EncryptedData }> {
+    const secretKey = randomBytes(KEY_LENGTH);
+    const keyId = this.generateKeyId();
+    this.keys.set(keyId, {
+      publicKey: toHex(secretKey),
+      privateKey: toHex(secretKey),
+      keyId,
+      algorithm: this.config.algorithm,
+      createdAt: new Date(),
+    });
 
-    return timelock;
+    try {
+      const round = roundAt(await beacon.getInfo(), unlockTime);
+      const sealed = await sealToRound(beacon, round, secretKey);
+      const encryptedContent = await this.encrypt(content, keyId);
+
+      const timelock: TimelockEncryption = {
+        encryptedKey: sealed.maskedSecret,
+        unlockTime: unlockTime.getTime(),
+        timelockAlgorithm: 'BLS-IBE',
+        publicKey: sealed.ephemeralKey,
+        round,
+        beaconId: beacon.id,
+      };
+      return { timelock, encryptedContent };
+    } finally {
+      this.keys.delete(keyId);
+      secretKey.fill(0);
+    }
   }
 
   /**
@@ -254,24 +544,41 @@ export class EncryptionService {
   }
 
   /**
-   * Decrypt timelock-encrypted content
+   * Decrypt timelock-encrypted content once the beacon has published the unlock round
    */
-  async decryptTimelock(timelock: TimelockEncryption, encryptedContent: EncryptedData): Promise<DecryptionResult> {
-    if (!this.isTimelockExpired(timelock)) {
-      throw new Error('Timelock has not expired yet');
+  async decryptTimelock(
+    timelock: TimelockEncryption,
+    encryptedContent: EncryptedData,
+    beacon: TimelockBeacon = getTimelockBeacon()
+  ): Promise<DecryptionResult> {
+    if (timelock.beaconId !== beacon.id) {
+      throw new Error(`Timelock was sealed to beacon ${timelock.beaconId}, not ${beacon.id} (see TIMELOCK_BEACON)`);
     }
 
-    // Reconstruct the key from timelock
-    const key: EncryptionKey = {
-      publicKey: timelock.publicKey,
-      privateKey: timelock.encryptedKey,
-      keyId: this.generateKeyId(),
+    const secretKey = await openFromRound(beacon, {
+      round: timelock.round,
+      ephemeralKey: timelock.publicKey,
+      maskedSecret: timelock.encryptedKey,
+    });
+    if (!secretKey) {
+      throw new Error(`Timelock has not expired yet (unlocks at ${new Date(timelock.unlockTime).toISOString()})`);
+    }
+
+    const keyId = this.generateKeyId();
+    this.keys.set(keyId, {
+      publicKey: toHex(secretKey),
+      privateKey: toHex(secretKey),
+      keyId,
       algorithm: this.config.algorithm,
       createdAt: new Date(),
-    };
+    });
 
-    this.keys.set(key.keyId, key);
-    return this.decrypt(encryptedContent, key.keyId);
+    try {
+      return await this.decrypt(encryptedContent, keyId);
+    } finally {
+      this.keys.delete(keyId);
+      secretKey.fill(0);
+    }
   }
 
   /**
@@ -281,37 +588,6 @@ export class EncryptionService {
     return `key_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  /**
-   * Create secret shares using Shamir's Secret Sharing (simplified)
-   */
-  private createSecretShares(secret: string, config: ThresholdEncryptionConfig): string[] {
-    // This is a simplified implementation
-    // In production, use a proper cryptographic library like 'secrets.js'
-    const shares: string[] = [];
-    const secretBytes = CryptoJS.enc.Hex.parse(secret);
-    
-    for (let i = 0; i < config.totalShares; i++) {
-      // Generate a random share (simplified)
-      const share = CryptoJS.lib.WordArray.random(32);
-      shares.push(share.toString(CryptoJS.enc.Hex));
-    }
-    
-    // The last share is the secret XORed with all other shares
-    let xorResult = secretBytes;
-    for (let i = 0; i < shares.length - 1; i++) {
-      const shareBytes = CryptoJS.enc.Hex.parse(shares[i]);
-      // Simple XOR implementation for WordArray
-      const resultWords = [];
-      for (let j = 0; j < Math.min(xorResult.words.length, shareBytes.words.length); j++) {
-        resultWords.push(xorResult.words[j] ^ shareBytes.words[j]);
-      }
-      xorResult = CryptoJS.lib.WordArray.create(resultWords);
-    }
-    shares[shares.length - 1] = xorResult.toString(CryptoJS.enc.Hex);
-    
-    return shares;
-  }
-
   /**
    * Get all available keys
    */
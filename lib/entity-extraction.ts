@@ -0,0 +1,148 @@
+import { EntityKind } from '@/types/entity';
+import { getOpenAIService, OpenAIService } from './ai-service';
+
+/**
+ * Entity Extraction - finds the people, places and organizations a piece of text is about
+ * Uses the configured LLM when available and falls back to capitalisation heuristics otherwise
+ */
+
+export interface ExtractedEntity {
+  kind: EntityKind;
+  name: string;
+  topics: string[]; // What the user discussed or did with them
+  preferences: string[]; // What the entity likes or dislikes
+  met: boolean;
+  source: 'llm' | 'heuristic';
+}
+
+const ENTITY_KINDS: EntityKind[] = ['person', 'place', 'organization'];
+
+// Runs of capitalised words are treated as names of people, places, organisations, etc.
+const PROPER_NOUN_PATTERN = /\b([A-Z][\w'-]+(?:\s+[A-Z][\w'-]+)*)/g;
+const NON_ENTITIES = [
+  'User', 'User\'s', 'I', 'The', 'A', 'An', 'They', 'He', 'She', 'My', 'We', 'It', 'This', 'That',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const ORGANIZATION_SUFFIX = /\b(Inc|Corp|Ltd|LLC|GmbH|University|College|School|Bank|Hospital|Clinic|Labs?|Company|Group|Foundation)\b/;
+const ORGANIZATION_CONTEXT = /\b(works? at|working at|joined|employed by|interview(?:ing|ed)? (?:at|with)|customer of)\s*$/i;
+const PLACE_CONTEXT = /\b(in|to|from|near|visit(?:ed|ing)?|moved to|lives? in|trip to)\s*$/i;
+const MET_PATTERN = /\b(met|meet|meeting|saw|seen|see|lunch|dinner|coffee|breakfast|call(?:ed)?|spoke|talked|visited|hung out)\b/i;
+
+const MAX_TOPICS = 5;
+
+const EXTRACTION_PROMPT = `You extract the people, places and organizations mentioned in a note from a user's personal memory.
+
+Return JSON: {"entities": [{"kind", "name", "topics", "preferences", "met"}]}
+- kind: "person", "place" or "organization"
+- name: the name as written, as complete as the note gives it (e.g. "Priya Sharma", "Priya", "Zurich", "Acme Corp")
+- topics: up to ${MAX_TOPICS} short phrases for what the user discussed, did or planned with this entity
+- preferences: things this entity likes, dislikes or needs, as stated in the note (people only)
+- met: true if the note says the user met, saw, called or spoke with them (or was at the place)
+
+Do not include the user themself, generic roles without a name ("my boss"), dates, or product names.
+Return {"entities": []} when no named entity is mentioned.`;
+
+export class EntityExtractor {
+  private ai: OpenAIService | null;
+
+  constructor(ai: OpenAIService | null = getOpenAIService()) {
+    this.ai = ai;
+  }
+
+  async extract(text: string): Promise<ExtractedEntity[]> {
+    if (!text.trim()) return [];
+
+    if (this.ai) {
+      try {
+        return await this.extractWithModel(text);
+      } catch (error: any) {
+        console.warn('⚠️ LLM entity extraction failed, using heuristics:', error?.message);
+      }
+    }
+
+    return this.extractWithHeuristics(text);
+  }
+
+  private async extractWithModel(text: string): Promise<ExtractedEntity[]> {
+    const result = await this.ai!.generateJSON<{ entities?: any[] }>(EXTRACTION_PROMPT, text);
+    if (!Array.isArray(result.entities)) {
+      throw new Error('Entity extraction response is missing an entities array');
+    }
+
+    return result.entities
+      .filter(raw => raw && typeof raw.name === 'string' && raw.name.trim())
+      .map(raw => ({
+        kind: ENTITY_KINDS.indexOf(raw.kind) !== -1 ? raw.kind : 'person',
+        name: raw.name.trim(),
+        topics: cleanList(raw.topics).slice(0, MAX_TOPICS),
+        preferences: cleanList(raw.preferences),
+        met: raw.met === true,
+        source: 'llm' as const
+      }));
+  }
+
+  /**
+   * Proper nouns, classified by the words around them
+   */
+  private extractWithHeuristics(text: string): ExtractedEntity[] {
+    const met = MET_PATTERN.test(text);
+    const seen = new Set<string>();
+    const entities: ExtractedEntity[] = [];
+
+    findProperNouns(text).forEach(({ name, index }) => {
+      const key = name.toLowerCase();
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const before = text.substring(0, index);
+      const kind: EntityKind = ORGANIZATION_SUFFIX.test(name) || ORGANIZATION_CONTEXT.test(before)
+        ? 'organization'
+        : PLACE_CONTEXT.test(before) ? 'place' : 'person';
+
+      entities.push({ kind, name, topics: [], preferences: [], met, source: 'heuristic' });
+    });
+
+    return entities;
+  }
+}
+
+/**
+ * Capitalised phrases in the text (minus pronouns, articles, weekdays and months) with their offsets
+ */
+export function findProperNouns(text: string): Array<{ name: string; index: number }> {
+  const names: Array<{ name: string; index: number }> = [];
+  const pattern = new RegExp(PROPER_NOUN_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const words = match[1].split(/\s+/);
+    // Drop leading/trailing non-entity words ("User Priya" -> "Priya") but keep inner ones
+    while (words.length > 0 && NON_ENTITIES.indexOf(words[0]) !== -1) words.shift();
+    while (words.length > 0 && NON_ENTITIES.indexOf(words[words.length - 1]) !== -1) words.pop();
+    if (words.length > 0) {
+      names.push({ name: words.join(' '), index: match.index + match[1].indexOf(words[0]) });
+    }
+  }
+
+  return names;
+}
+
+function cleanList(values: any): string[] {
+  if (!Array.isArray(values)) return [];
+  return values
+    .filter(value => typeof value === 'string')
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+}
+
+// Singleton instance
+let entityExtractorInstance: EntityExtractor | null = null;
+
+export function getEntityExtractor(): EntityExtractor {
+  if (!entityExtractorInstance) {
+    entityExtractorInstance = new EntityExtractor();
+  }
+  return entityExtractorInstance;
+}
@@ -21,6 +21,8 @@ export interface CalendarEvent {
     email: string;
     displayName?: string;
     responseStatus?: string;
+    self?: boolean; // The calendar's owner
+    resource?: boolean; // A room or equipment rather than a person
   }>;
   reminders?: {
     useDefault?: boolean;
@@ -99,6 +99,16 @@ export class KeyManagementService {
     console.log('🔐 Session keys cleared');
   }
 
+  /**
+   * Initialize with the configured default password unless a password was already supplied
+   */
+  async ensureInitialized(): Promise<void> {
+    if (this.masterKey) return;
+    await this.initializeWithPassword(
+      this.config.password || process.env.NEXT_PUBLIC_DEFAULT_ENCRYPTION_PASSWORD || 'default-encryption-key-2024'
+    );
+  }
+
   /**
    * Check if key management is initialized
    */
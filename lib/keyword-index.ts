@@ -0,0 +1,158 @@
+/**
+ * Keyword Index - BM25 ranking over an in-memory inverted index
+ * Used alongside the vector index for hybrid (keyword + semantic) memory search
+ */
+
+export interface KeywordSearchHit {
+  id: string;
+  score: number;
+}
+
+export interface BM25Params {
+  k1: number; // Term frequency saturation
+  b: number; // Document length normalization
+}
+
+interface IndexedDocument {
+  signature: string;
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this',
+  'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'will', 'with', 'you', 'your'
+]);
+
+/**
+ * Lowercase, strip punctuation and drop stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\uffff]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+export class KeywordIndex {
+  private params: BM25Params;
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Set<string>> = new Map();
+  private totalLength = 0;
+
+  constructor(params: Partial<BM25Params> = {}) {
+    this.params = { k1: 1.2, b: 0.75, ...params };
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  /**
+   * Add or replace a document. Unchanged signatures are skipped so callers can resync cheaply.
+   */
+  upsert(id: string, text: string, signature: string = text): void {
+    const existing = this.documents.get(id);
+    if (existing && existing.signature === signature) {
+      return;
+    }
+    if (existing) {
+      this.remove(id);
+    }
+
+    const tokens = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+
+    termFrequencies.forEach((_, term) => {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Set();
+        this.postings.set(term, posting);
+      }
+      posting.add(id);
+    });
+
+    this.documents.set(id, { signature, length: tokens.length, termFrequencies });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    document.termFrequencies.forEach((_, term) => {
+      const posting = this.postings.get(term);
+      if (!posting) return;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * Rank documents containing at least one query term by BM25 score
+   */
+  search(query: string, topK: number = Infinity): KeywordSearchHit[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const { k1, b } = this.params;
+    const documentCount = this.documents.size;
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+
+      posting.forEach(id => {
+        const document = this.documents.get(id)!;
+        const tf = document.termFrequencies.get(term) || 0;
+        const norm = tf + k1 * (1 - b + b * (document.length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + idf * ((tf * (k1 + 1)) / norm));
+      });
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
+
+/**
+ * Fuse several ranked id lists with reciprocal-rank fusion: score(d) = sum 1 / (k + rank)
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = 60): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
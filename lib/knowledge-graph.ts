@@ -0,0 +1,341 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Entity, EntityInteraction, EntityKind, EntityProfile } from '@/types/entity';
+import { MemoryEntry } from '@/types/memory';
+import { CalendarEvent } from './google-calendar-client';
+import { getEntityExtractor, EntityExtractor, ExtractedEntity } from './entity-extraction';
+import { getMemoryStore, MemoryStore } from './memory-store';
+
+/**
+ * Knowledge Graph - the people, places and organizations in the user's life
+ * Entities are extracted from memories and calendar events, resolved against the ones already
+ * known (by email, then name or alias), and accumulate a profile: when the user last met them,
+ * what they talked about and what they like.
+ */
+export class KnowledgeGraphService {
+  private static readonly ENTITIES_KEY = 'og_entities';
+  private static readonly MAX_INTERACTIONS = 50;
+  private static readonly SUMMARY_LENGTH = 200;
+  private extractor: EntityExtractor;
+  private store: MemoryStore;
+
+  constructor(store: MemoryStore = getMemoryStore(), extractor: EntityExtractor = getEntityExtractor()) {
+    this.store = store;
+    this.extractor = extractor;
+  }
+
+  /**
+   * Extract entities from a memory and record it as an interaction with each of them.
+   * Re-ingesting a memory (e.g. after an edit) replaces its earlier interactions.
+   */
+  async ingestMemory(memory: MemoryEntry): Promise<Entity[]> {
+    const text = memoryText(memory);
+    const extracted = await this.extractor.extract(text);
+
+    const entities = this.loadEntities();
+    this.removeInteractions(entities, 'memory', memory.id);
+
+    const date = new Date(memory.createdAt).toISOString();
+    const touched = extracted.map(item => {
+      const entity = this.resolve(entities, item.kind, item.name);
+      this.recordInteraction(entity, {
+        source: 'memory',
+        sourceId: memory.id,
+        date,
+        summary: truncate(text, KnowledgeGraphService.SUMMARY_LENGTH),
+        met: item.met
+      }, item);
+      return entity;
+    });
+
+    this.saveEntities(entities);
+    if (touched.length > 0) {
+      console.log(`👥 Memory ${memory.id.slice(0, 8)}... mentions ${touched.map(entity => entity.name).join(', ')}`);
+    }
+    return touched;
+  }
+
+  /**
+   * Record attendees, organizers and locations of calendar events. Past events count as meetings;
+   * upcoming ones set nextMeeting.
+   */
+  ingestCalendarEvents(events: CalendarEvent[]): number {
+    const entities = this.loadEntities();
+    const touched = new Set<string>();
+    const now = Date.now();
+
+    events.forEach(event => {
+      if (!event.id || event.status === 'cancelled') return;
+
+      const start = event.start?.dateTime || event.start?.date;
+      if (!start) return;
+
+      const date = new Date(start).toISOString();
+      const isPast = new Date(start).getTime() <= now;
+      this.removeInteractions(entities, 'calendar', event.id);
+
+      const people = (event.attendees || [])
+        .filter(attendee => !attendee.self && !attendee.resource && attendee.responseStatus !== 'declined')
+        .map(attendee => ({ email: attendee.email, displayName: attendee.displayName }));
+      if (event.organizer && !event.organizer.self) {
+        people.push({ email: event.organizer.email, displayName: event.organizer.displayName });
+      }
+
+      const interaction: EntityInteraction = {
+        source: 'calendar',
+        sourceId: event.id,
+        date,
+        summary: event.summary || 'Calendar event',
+        met: isPast
+      };
+      const topics = event.summary ? [event.summary] : [];
+
+      people.forEach(person => {
+        if (!person.email) return;
+        const entity = this.resolve(entities, 'person', person.displayName || nameFromEmail(person.email), person.email);
+        this.recordInteraction(entity, interaction, { topics, preferences: [] });
+        touched.add(entity.id);
+      });
+
+      if (event.location && !/^https?:\/\//i.test(event.location)) {
+        const entity = this.resolve(entities, 'place', event.location.split(',')[0].trim());
+        this.recordInteraction(entity, interaction, { topics, preferences: [] });
+        touched.add(entity.id);
+      }
+    });
+
+    this.saveEntities(entities);
+    console.log(`📅 Ingested ${events.length} calendar events into the knowledge graph (${touched.size} entities)`);
+    return touched.size;
+  }
+
+  /**
+   * Forget everything learned from a memory (e.g. when it is deleted)
+   */
+  removeMemory(memoryId: string): void {
+    const entities = this.loadEntities();
+    if (this.removeInteractions(entities, 'memory', memoryId)) {
+      this.saveEntities(entities);
+    }
+  }
+
+  listEntities(kind?: EntityKind): Entity[] {
+    const entities = this.loadEntities();
+    return Object.keys(entities)
+      .map(id => entities[id])
+      .filter(entity => !kind || entity.kind === kind)
+      .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+  }
+
+  /**
+   * Look up an entity by ID, email, name or alias
+   */
+  findEntity(idOrName: string): Entity | null {
+    const entities = this.loadEntities();
+    if (entities[idOrName]) return entities[idOrName];
+
+    const key = normalizeName(idOrName);
+    return this.listEntities().find(entity =>
+      entity.emails.indexOf(key) !== -1 || entity.aliases.indexOf(key) !== -1
+    ) || this.findMentionedEntities(idOrName).find(entity => entity.kind === 'person') || null;
+  }
+
+  /**
+   * Known entities whose name or alias appears in the text, e.g. "when did I last see Priya?".
+   * A person's first name alone counts when no other known person shares it.
+   */
+  findMentionedEntities(text: string): Entity[] {
+    const lower = ` ${text.toLowerCase().replace(/[^\w\s@.'-]/g, ' ').replace(/'s\b/g, '')} `;
+    const entities = this.listEntities();
+
+    const firstNameCounts: Record<string, number> = {};
+    entities.filter(entity => entity.kind === 'person').forEach(entity => {
+      const firstNames = new Set(entity.aliases.map(alias => alias.split(' ')[0]));
+      firstNames.forEach(firstName => {
+        firstNameCounts[firstName] = (firstNameCounts[firstName] || 0) + 1;
+      });
+    });
+
+    return entities.filter(entity => {
+      const names = entity.aliases.slice();
+      if (entity.kind === 'person') {
+        entity.aliases.forEach(alias => {
+          const firstName = alias.split(' ')[0];
+          if (firstNameCounts[firstName] === 1) names.push(firstName);
+        });
+      }
+      return names.some(name => name.length > 1 && lower.indexOf(` ${name} `) !== -1);
+    });
+  }
+
+  getProfile(idOrName: string): EntityProfile | null {
+    const entity = this.findEntity(idOrName);
+    if (!entity) return null;
+
+    const topTopics = Object.keys(entity.topics)
+      .sort((a, b) => entity.topics[b] - entity.topics[a])
+      .slice(0, 5);
+
+    return {
+      entity,
+      topTopics,
+      recentInteractions: entity.interactions.slice(0, 10),
+      lastMetInteraction: entity.interactions.find(interaction => interaction.met)
+    };
+  }
+
+  /**
+   * Find the entity a name refers to, or create it. Emails are authoritative; a bare first name
+   * resolves to the only known person with that first name.
+   */
+  private resolve(entities: Record<string, Entity>, kind: EntityKind, name: string, email?: string): Entity {
+    const key = normalizeName(name);
+    const normalizedEmail = email?.toLowerCase();
+    const candidates = Object.keys(entities).map(id => entities[id]).filter(entity => entity.kind === kind);
+
+    let entity = (normalizedEmail && candidates.find(candidate => candidate.emails.indexOf(normalizedEmail) !== -1))
+      || candidates.find(candidate => candidate.aliases.indexOf(key) !== -1);
+
+    if (!entity && kind === 'person') {
+      const firstName = key.split(' ')[0];
+      const sameFirstName = candidates.filter(candidate =>
+        candidate.aliases.some(alias => alias.split(' ')[0] === firstName)
+      );
+      // "Priya" <-> "Priya Sharma" only when no other known person is called Priya, and never
+      // between two different full names
+      const compatible = sameFirstName.filter(candidate =>
+        key === firstName || candidate.aliases.every(alias => alias.indexOf(' ') === -1)
+      );
+      if (sameFirstName.length === 1 && compatible.length === 1) {
+        entity = compatible[0];
+      }
+    }
+
+    const now = new Date().toISOString();
+    if (!entity) {
+      entity = {
+        id: uuidv4(),
+        kind,
+        name: name.trim(),
+        aliases: [],
+        emails: [],
+        firstSeen: now,
+        lastSeen: now,
+        topics: {},
+        preferences: [],
+        interactions: []
+      };
+      entities[entity.id] = entity;
+      console.log(`👤 New ${kind}: ${entity.name}`);
+    }
+
+    if (entity.aliases.indexOf(key) === -1) entity.aliases.push(key);
+    if (normalizedEmail && entity.emails.indexOf(normalizedEmail) === -1) entity.emails.push(normalizedEmail);
+    // Prefer the most complete form of the name
+    if (name.trim().length > entity.name.length && !name.includes('@')) entity.name = name.trim();
+
+    return entity;
+  }
+
+  private recordInteraction(
+    entity: Entity,
+    interaction: EntityInteraction,
+    details: Pick<ExtractedEntity, 'topics' | 'preferences'>
+  ): void {
+    entity.interactions = [interaction, ...entity.interactions]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, KnowledgeGraphService.MAX_INTERACTIONS);
+
+    details.topics.forEach(topic => {
+      const key = topic.toLowerCase();
+      entity.topics[key] = (entity.topics[key] || 0) + 1;
+    });
+    details.preferences.forEach(preference => {
+      if (entity.preferences.indexOf(preference) === -1) entity.preferences.push(preference);
+    });
+
+    this.refreshDates(entity);
+  }
+
+  /**
+   * Drop interactions from one source; returns whether anything changed
+   */
+  private removeInteractions(entities: Record<string, Entity>, source: EntityInteraction['source'], sourceId: string): boolean {
+    let changed = false;
+    Object.keys(entities).forEach(id => {
+      const entity = entities[id];
+      const remaining = entity.interactions.filter(interaction =>
+        !(interaction.source === source && interaction.sourceId === sourceId)
+      );
+      if (remaining.length !== entity.interactions.length) {
+        entity.interactions = remaining;
+        this.refreshDates(entity);
+        changed = true;
+      }
+    });
+    return changed;
+  }
+
+  private refreshDates(entity: Entity): void {
+    const now = new Date().toISOString();
+    const past = entity.interactions.filter(interaction => interaction.date <= now);
+    const upcoming = entity.interactions.filter(interaction => interaction.date > now && interaction.source === 'calendar');
+
+    const lastMet = past.find(interaction => interaction.met);
+    entity.lastMet = lastMet?.date;
+    entity.lastSeen = past[0]?.date || entity.lastSeen;
+    entity.nextMeeting = upcoming.length > 0 ? upcoming[upcoming.length - 1].date : undefined;
+    if (entity.interactions.length > 0) {
+      const oldest = entity.interactions[entity.interactions.length - 1].date;
+      if (oldest < entity.firstSeen) entity.firstSeen = oldest;
+    }
+  }
+
+  private loadEntities(): Record<string, Entity> {
+    return this.store.get<Record<string, Entity>>(KnowledgeGraphService.ENTITIES_KEY, {});
+  }
+
+  private saveEntities(entities: Record<string, Entity>): void {
+    this.store.set(KnowledgeGraphService.ENTITIES_KEY, entities);
+  }
+}
+
+/**
+ * Readable text of a memory; interactions stored by the heuristic extractor are raw JSON
+ */
+function memoryText(memory: MemoryEntry): string {
+  try {
+    const parsed = JSON.parse(memory.content);
+    if (parsed && parsed.userQuery) return parsed.userQuery;
+  } catch {
+    // Plain-text memory
+  }
+  return memory.content;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// "priya.sharma@example.com" -> "Priya Sharma"
+function nameFromEmail(email: string): string {
+  return email.split('@')[0]
+    .split(/[._-]+/)
+    .filter(part => part.length > 0)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? flat.substring(0, length) + '...' : flat;
+}
+
+// Singleton instance
+let knowledgeGraphInstance: KnowledgeGraphService | null = null;
+
+export function getKnowledgeGraphService(): KnowledgeGraphService {
+  if (!knowledgeGraphInstance) {
+    knowledgeGraphInstance = new KnowledgeGraphService();
+  }
+  return knowledgeGraphInstance;
+}
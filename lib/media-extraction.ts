@@ -0,0 +1,310 @@
+import { MediaExtractionMethod } from '@/types/memory';
+import { getOpenAIService, OpenAIService } from './ai-service';
+
+/**
+ * Media Extraction - the searchable text of an uploaded file, which becomes the content (and the
+ * embedding) of its multimedia memory. Markdown and plain text are read directly, PDFs have their
+ * text operators decoded, images are described by the vision model, and audio uses a transcript
+ * uploaded next to it (.txt, .vtt or .srt). Server-only: PDF streams are inflated with zlib.
+ * Images leave the device only on opt-in (MEDIA_DESCRIBE_IMAGES or per upload); otherwise they
+ * are stored with their file name as their only text.
+ */
+
+export interface MediaFile {
+  name: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface ExtractedMediaText {
+  text: string;
+  method: MediaExtractionMethod;
+}
+
+export interface MediaExtractOptions {
+  describeImages?: boolean; // Send images to the vision model; defaults to MEDIA_DESCRIBE_IMAGES
+}
+
+const EXTENSION_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  txt: 'text/plain',
+  pdf: 'application/pdf',
+  vtt: 'text/vtt',
+  srt: 'application/x-subrip',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  webm: 'audio/webm'
+};
+
+// Images the vision model accepts inline
+const VISION_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const MAX_VISION_BYTES = 20 * 1024 * 1024;
+const MAX_PDF_STREAM_BYTES = 4 * 1024 * 1024; // Per inflated stream; larger ones are skipped
+const MAX_PDF_TEXT_LENGTH = 200000;
+
+const IMAGE_PROMPT = `Describe this image for the owner's personal memory so it can be found again by search.
+Mention people, places, objects, any visible text and what seems to be happening. Plain text, at most 120 words.`;
+
+// Types an upload may have; anything else (SVG, HTML, XML...) could run script when served back
+const SUPPORTED_TYPES = ['text/markdown', 'text/plain', 'application/pdf', 'audio/mpeg', 'audio/mp4', 'audio/wav', 'audio/ogg', 'audio/webm']
+  .concat(VISION_TYPES);
+
+/**
+ * The file's MIME type, from the declared type or else its extension. Browsers often send
+ * markdown and subtitles as application/octet-stream or an empty type; a declared type is only
+ * kept when it is one of the supported types.
+ */
+export function resolveMimeType(name: string, declared?: string): string {
+  const extension = (name.split('.').pop() || '').toLowerCase();
+  const type = (declared || '').split(';')[0].trim().toLowerCase();
+  if (SUPPORTED_TYPES.indexOf(type) !== -1 && !(type === 'text/plain' && EXTENSION_TYPES[extension])) {
+    return type;
+  }
+  return EXTENSION_TYPES[extension] || type || 'application/octet-stream';
+}
+
+export function isSupportedMedia(mimeType: string): boolean {
+  return SUPPORTED_TYPES.indexOf(mimeType) !== -1;
+}
+
+/**
+ * Whether a stored file may be shown inline: raster images, audio and PDFs. Everything else is
+ * served as a download.
+ */
+export function isInlineMedia(mimeType: string): boolean {
+  return VISION_TYPES.indexOf(mimeType) !== -1
+    || mimeType === 'application/pdf'
+    || (mimeType.startsWith('audio/') && SUPPORTED_TYPES.indexOf(mimeType) !== -1);
+}
+
+export class MediaTextExtractor {
+  private ai: OpenAIService | null;
+
+  constructor(ai: OpenAIService | null = getOpenAIService()) {
+    this.ai = ai;
+  }
+
+  /**
+   * Text for a file, or empty text with method 'none' when nothing could be extracted
+   */
+  async extract(file: MediaFile, transcript?: MediaFile, options: MediaExtractOptions = {}): Promise<ExtractedMediaText> {
+    const mimeType = file.mimeType;
+
+    if (mimeType === 'text/markdown') {
+      return withMethod(stripMarkdown(file.data.toString('utf-8')), 'markdown');
+    }
+    if (mimeType === 'text/plain') {
+      return withMethod(file.data.toString('utf-8').trim(), 'text');
+    }
+    if (mimeType === 'application/pdf') {
+      return withMethod(extractPdfText(file.data), 'pdf');
+    }
+    if (mimeType.startsWith('audio/')) {
+      return withMethod(transcript ? parseTranscript(transcript.data.toString('utf-8')) : '', 'transcript');
+    }
+    if (mimeType.startsWith('image/')) {
+      if (!(options.describeImages ?? process.env.MEDIA_DESCRIBE_IMAGES === 'true')) {
+        console.log(`🖼️ Not describing image ${file.name}: vision descriptions are off`);
+        return { text: '', method: 'none' };
+      }
+      return withMethod(await this.describeImage(file), 'vision');
+    }
+
+    return { text: '', method: 'none' };
+  }
+
+  private async describeImage(file: MediaFile): Promise<string> {
+    if (!this.ai || VISION_TYPES.indexOf(file.mimeType) === -1 || file.data.length > MAX_VISION_BYTES) {
+      return '';
+    }
+
+    try {
+      const description = await this.ai.describeImage(`data:${file.mimeType};base64,${file.data.toString('base64')}`, IMAGE_PROMPT);
+      console.log(`🖼️ Described image ${file.name} (${description.length} chars)`);
+      return description;
+    } catch (error: any) {
+      console.warn(`⚠️ Failed to describe image ${file.name}:`, error?.message);
+      return '';
+    }
+  }
+}
+
+function withMethod(text: string, method: MediaExtractionMethod): ExtractedMediaText {
+  return text ? { text, method } : { text: '', method: 'none' };
+}
+
+/**
+ * Markdown to plain text: keeps headings, list items, link and image text; drops the markup
+ */
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // Front matter
+    .replace(/```[^\n]*\n?/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+    .replace(/^[ \t]*(?:[-*+]|\d+\.)[ \t]+(?:\[[ xX]\][ \t]+)?/gm, '')
+    .replace(/(\*\*|__|\*|_|~~|`)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/^[ \t]*(?:-{3,}|\*{3,}|_{3,})[ \t]*$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Plain text of a transcript; WebVTT and SRT cue numbers, timings and voice tags are removed
+ */
+export function parseTranscript(transcript: string): string {
+  const lines = transcript.replace(/\r/g, '').split('\n');
+  const text: string[] = [];
+  let skippingBlock = false;
+
+  lines.forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      skippingBlock = false;
+      return;
+    }
+    if (/^WEBVTT/.test(trimmed) || /^(NOTE|STYLE|REGION)\b/.test(trimmed)) {
+      skippingBlock = true;
+      return;
+    }
+    if (skippingBlock || /^\d+$/.test(trimmed) || /-->/.test(trimmed)) return;
+
+    const spoken = trimmed.replace(/<\/?[^>]+>/g, '').trim();
+    // Cues repeat text when captions roll up
+    if (spoken && text[text.length - 1] !== spoken) text.push(spoken);
+  });
+
+  return text.join(' ').trim();
+}
+
+/**
+ * Best-effort text of a PDF: decodes the strings shown by Tj/TJ/'/" operators in its content
+ * streams. Scanned PDFs and fonts with custom encodings yield little or nothing. Streams that
+ * inflate past MAX_PDF_STREAM_BYTES are skipped and the text stops at MAX_PDF_TEXT_LENGTH.
+ */
+export function extractPdfText(data: Buffer): string {
+  const zlib = require('zlib');
+  const raw = data.toString('latin1');
+  const pages: string[] = [];
+  let length = 0;
+  const streamPattern = /<<((?:[^<>]|<<(?:[^<>]|<<[^<>]*>>)*>>)*)>>\s*stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while (length < MAX_PDF_TEXT_LENGTH && (match = streamPattern.exec(raw)) !== null) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end;
+
+    const dictionary = match[1];
+    // Images, embedded fonts and other binary streams
+    if (/\/Subtype\s*\/Image|\/Length1|\/FontFile/.test(dictionary)) continue;
+
+    let content: Buffer = data.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        content = zlib.inflateSync(content, {
+          finishFlush: zlib.constants.Z_SYNC_FLUSH,
+          maxOutputLength: MAX_PDF_STREAM_BYTES
+        });
+      } catch {
+        // Corrupt, or over MAX_PDF_STREAM_BYTES
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const text = textFromContentStream(content.toString('latin1'));
+    if (text) {
+      pages.push(text);
+      length += text.length;
+    }
+  }
+
+  return pages.join('\n\n').slice(0, MAX_PDF_TEXT_LENGTH).replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+}
+
+function textFromContentStream(stream: string): string {
+  if (stream.indexOf('BT') === -1) return '';
+
+  let text = '';
+  const tokenPattern = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|\[|\]|T\*|Td|TD|Tj|TJ|'|"|ET/g;
+  let operands: string[] = [];
+  let inArray = false;
+  let token: RegExpExecArray | null;
+
+  while ((token = tokenPattern.exec(stream)) !== null) {
+    const value = token[0];
+    if (value.charAt(0) === '(' || (value.charAt(0) === '<' && value.length > 1)) {
+      operands.push(value.charAt(0) === '(' ? decodeLiteral(value.slice(1, -1)) : decodeHex(value.slice(1, -1)));
+    } else if (value === '[') {
+      inArray = true;
+      operands = [];
+    } else if (value === ']') {
+      inArray = false;
+    } else if (!inArray) {
+      if (value === 'Tj' || value === 'TJ') {
+        text += operands.join('');
+      } else if (value === "'" || value === '"') {
+        text += '\n' + operands.join('');
+      } else if (value === 'T*' || value === 'Td' || value === 'TD' || value === 'ET') {
+        text += value === 'ET' ? '\n' : ' ';
+      }
+      operands = [];
+    }
+  }
+
+  return text.replace(/ {2,}/g, ' ').trim();
+}
+
+function decodeLiteral(literal: string): string {
+  return literal.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (escape, code: string) => {
+    switch (code) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case '(': case ')': case '\\': return code;
+      default:
+        return /^[0-7]+$/.test(code) ? String.fromCharCode(parseInt(code, 8)) : ''; // Escaped line break
+    }
+  });
+}
+
+// Hex strings in simple fonts are single-byte; two-byte (CID) strings are assumed when a zero high byte shows up
+function decodeHex(hex: string): string {
+  const digits = hex.replace(/\s/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < digits.length; i += 2) {
+    bytes.push(parseInt((digits.substr(i, 2) + '0').slice(0, 2), 16));
+  }
+
+  const twoByte = bytes.length % 2 === 0 && bytes.length > 0 && bytes.filter((_, i) => i % 2 === 0).every(b => b === 0);
+  if (twoByte) {
+    return bytes.filter((_, i) => i % 2 === 1).map(b => String.fromCharCode(b)).join('');
+  }
+  return bytes.map(b => String.fromCharCode(b)).join('');
+}
+
+// Singleton instance
+let mediaTextExtractorInstance: MediaTextExtractor | null = null;
+
+export function getMediaTextExtractor(): MediaTextExtractor {
+  if (!mediaTextExtractorInstance) {
+    mediaTextExtractorInstance = new MediaTextExtractor();
+  }
+  return mediaTextExtractorInstance;
+}
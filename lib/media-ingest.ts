@@ -0,0 +1,138 @@
+import { MemoryEntry } from '@/types/memory';
+import { getMediaTextExtractor, isSupportedMedia, MediaFile, MediaTextExtractor, resolveMimeType } from './media-extraction';
+import { getMediaStorageService, hashBytes, MediaStorageService } from './media-storage';
+import { getMemoryService, MemoryService } from './memory-service';
+
+/**
+ * Media Ingest - turns an uploaded file into a multimedia memory: the extracted text becomes the
+ * memory content (and so its embedding), while the file itself is stored as encrypted chunks
+ * described by the manifest in metadata.media. Re-uploading the same file returns the existing memory.
+ */
+
+export interface MediaIngestRequest {
+  file: MediaFile;
+  transcript?: MediaFile; // Text sidecar for audio: .txt, .vtt or .srt
+  describeImage?: boolean; // Opt in to sending an image to the vision model (default MEDIA_DESCRIBE_IMAGES)
+  category?: string;
+  tags?: string[];
+}
+
+export interface MediaIngestResult {
+  memory: MemoryEntry;
+  duplicate: boolean;
+}
+
+export interface RetrievedMediaFile {
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export const MEDIA_MAX_FILE_BYTES = (Number(process.env.MEDIA_MAX_FILE_MB) || 25) * 1024 * 1024;
+
+export class MediaIngestService {
+  private static readonly MAX_FILE_BYTES = MEDIA_MAX_FILE_BYTES;
+  private static readonly MAX_CONTENT_LENGTH = 8000; // Extracted text kept as memory content
+  private extractor: MediaTextExtractor;
+  private storage: MediaStorageService;
+
+  constructor(
+    extractor: MediaTextExtractor = getMediaTextExtractor(),
+    storage: MediaStorageService = getMediaStorageService()
+  ) {
+    this.extractor = extractor;
+    this.storage = storage;
+  }
+
+  /**
+   * Extract, store and remember a file. Throws on unsupported types and files over the size limit.
+   */
+  async ingest(request: MediaIngestRequest, memoryService: MemoryService = getMemoryService()): Promise<MediaIngestResult> {
+    const file: MediaFile = { ...request.file, mimeType: resolveMimeType(request.file.name, request.file.mimeType) };
+
+    if (!isSupportedMedia(file.mimeType)) {
+      throw new Error(`Unsupported file type: ${file.mimeType}`);
+    }
+    if (file.data.length === 0) {
+      throw new Error(`File is empty: ${file.name}`);
+    }
+    if (file.data.length > MediaIngestService.MAX_FILE_BYTES) {
+      throw new Error(`File too large: ${file.name} is ${file.data.length} bytes, the limit is ${MediaIngestService.MAX_FILE_BYTES}`);
+    }
+
+    const hash = hashBytes(file.data);
+    const existing = (await memoryService.getAllMemories()).find(memory => memory.metadata?.media?.hash === hash);
+    if (existing) {
+      console.log(`📎 ${file.name} was already uploaded as memory ${existing.id.slice(0, 8)}...`);
+      return { memory: existing, duplicate: true };
+    }
+
+    const extracted = await this.extractor.extract(file, request.transcript, { describeImages: request.describeImage });
+    const manifest = await this.storage.storeFile(file.data, {
+      fileName: file.name,
+      mimeType: file.mimeType,
+      extraction: extracted.method
+    });
+
+    const content = extracted.text
+      ? `${file.name}\n\n${extracted.text}`.slice(0, MediaIngestService.MAX_CONTENT_LENGTH)
+      : file.name;
+
+    const memory = await memoryService.createMemory({
+      content,
+      type: 'multimedia',
+      category: request.category || defaultCategory(file.mimeType),
+      tags: (request.tags || []).concat('upload'),
+      encrypted: true,
+      accessPolicy: {
+        owner: 'local-user',
+        permissions: []
+      },
+      metadata: {
+        size: content.length, // Of the memory text; the file's byte size is media.size
+        checksum: '',
+        version: 1,
+        relatedMemories: [],
+        mimeType: file.mimeType,
+        media: manifest
+      }
+    }, { onDuplicate: 'allow' });
+
+    console.log(`📎 Ingested ${file.name} (${file.mimeType}, text via ${extracted.method}) as memory ${memory.id.slice(0, 8)}...`);
+    return { memory, duplicate: false };
+  }
+
+  /**
+   * The original file behind a multimedia memory
+   */
+  async getFile(memoryId: string, memoryService: MemoryService = getMemoryService()): Promise<RetrievedMediaFile> {
+    const memory = await memoryService.getMemory(memoryId);
+    if (!memory) {
+      throw new Error(`Memory not found: ${memoryId}`);
+    }
+
+    const manifest = memory.metadata?.media;
+    if (!manifest) {
+      throw new Error(`Memory ${memoryId} has no file attached`);
+    }
+
+    const data = await this.storage.retrieveFile(manifest);
+    return { fileName: manifest.fileName, mimeType: manifest.mimeType, data };
+  }
+}
+
+function defaultCategory(mimeType: string): string {
+  if (mimeType.startsWith('image/')) return 'images';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'documents';
+}
+
+// Singleton instance
+let mediaIngestInstance: MediaIngestService | null = null;
+
+export function getMediaIngestService(): MediaIngestService {
+  if (!mediaIngestInstance) {
+    mediaIngestInstance = new MediaIngestService();
+  }
+  return mediaIngestInstance;
+}
@@ -0,0 +1,194 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { EncryptedData } from '@/types/encryption';
+import { MediaChunk, MediaExtractionMethod, MediaManifest } from '@/types/memory';
+import { getEncryptionService } from './encryption';
+import { getKeyManagementService } from './key-management';
+import { getMemoryStore, MemoryStore } from './memory-store';
+import { createWalrusStorage, WalrusStorageService } from './walrus-storage';
+
+/**
+ * Media Storage - uploads files as encrypted, content-addressed chunks
+ * A file is split into fixed-size chunks; each chunk is envelope-encrypted under a key derived
+ * from the master password and stored as its own Walrus blob. Chunks are addressed by the hash of
+ * their plaintext, so a chunk already uploaded (by this or another file) is reused. The manifest
+ * that lists the chunks is kept on the memory and also uploaded, encrypted, for restores.
+ */
+
+interface MediaBlobEnvelope {
+  format: 'og-media-chunk' | 'og-media-manifest';
+  version: 1;
+  keyScope: string;
+  keySalt: string;
+  payload: EncryptedData;
+  wrappedKey: EncryptedData;
+}
+
+interface StoredChunk {
+  blobId: string;
+  keyScope: string;
+  keySalt: string;
+}
+
+export interface MediaFileInfo {
+  fileName: string;
+  mimeType: string;
+  extraction: MediaExtractionMethod;
+}
+
+export function hashBytes(data: Uint8Array): string {
+  return bytesToHex(sha256(data));
+}
+
+export class MediaStorageService {
+  private static readonly CHUNK_INDEX_KEY = 'og_media_chunks';
+  private static readonly CHUNK_SIZE = (Number(process.env.MEDIA_CHUNK_SIZE_KB) || 512) * 1024;
+  private encryptionService = getEncryptionService();
+  private keyManagement = getKeyManagementService();
+  private walrus: WalrusStorageService;
+  private store: MemoryStore;
+
+  constructor(store: MemoryStore = getMemoryStore(), walrus: WalrusStorageService = createWalrusStorage()) {
+    this.store = store;
+    this.walrus = walrus;
+  }
+
+  /**
+   * Chunk, encrypt and upload a file. Returns its manifest.
+   */
+  async storeFile(data: Buffer, info: MediaFileInfo): Promise<MediaManifest> {
+    await this.keyManagement.ensureInitialized();
+
+    const hash = hashBytes(data);
+    // One key per file; every chunk still gets its own data key inside its envelope
+    const keyScope = `media_${hash}`;
+    const key = await this.keyManagement.generateMemoryKey(keyScope);
+    const index = this.loadChunkIndex();
+    const chunks: MediaChunk[] = [];
+    let uploaded = 0;
+
+    for (let offset = 0, i = 0; offset < data.length || i === 0; offset += MediaStorageService.CHUNK_SIZE, i++) {
+      const chunk = data.subarray(offset, offset + MediaStorageService.CHUNK_SIZE);
+      const chunkHash = hashBytes(chunk);
+
+      let stored = index[chunkHash];
+      if (!stored) {
+        const envelope = await this.seal('og-media-chunk', chunk.toString('base64'), keyScope, key.keyId, key.salt!);
+        const result = await this.walrus.storeBlob(envelope);
+        stored = { blobId: result.blobId, keyScope, keySalt: key.salt! };
+        index[chunkHash] = stored;
+        this.saveChunkIndex(index);
+        uploaded++;
+      }
+
+      chunks.push({ index: i, hash: chunkHash, size: chunk.length, ...stored });
+    }
+
+    const manifest: MediaManifest = {
+      fileName: info.fileName,
+      mimeType: info.mimeType,
+      size: data.length,
+      hash,
+      chunkSize: MediaStorageService.CHUNK_SIZE,
+      chunks,
+      extraction: info.extraction
+    };
+
+    try {
+      const envelope = await this.seal('og-media-manifest', JSON.stringify(manifest), keyScope, key.keyId, key.salt!);
+      manifest.manifestBlobId = (await this.walrus.storeBlob(envelope)).blobId;
+    } catch (error: any) {
+      // The chunks are stored; only restoring the file on another device needs the manifest blob
+      console.warn(`⚠️ Failed to upload manifest for ${info.fileName}:`, error?.message);
+    }
+
+    console.log(`📦 Stored ${info.fileName} (${data.length} bytes) as ${chunks.length} chunks, ${uploaded} uploaded, ${chunks.length - uploaded} reused`);
+    return manifest;
+  }
+
+  /**
+   * Download, decrypt and reassemble a file, verifying every chunk and the whole file
+   */
+  async retrieveFile(manifest: MediaManifest): Promise<Buffer> {
+    await this.keyManagement.ensureInitialized();
+
+    const parts: Buffer[] = [];
+    for (const chunk of manifest.chunks.slice().sort((a, b) => a.index - b.index)) {
+      const envelope = JSON.parse((await this.walrus.retrieveBlob(chunk.blobId)).toString('utf-8')) as MediaBlobEnvelope;
+      if (envelope.format !== 'og-media-chunk') {
+        throw new Error(`Blob ${chunk.blobId} is not a media chunk`);
+      }
+
+      const data = Buffer.from(await this.open(envelope), 'base64');
+      if (hashBytes(data) !== chunk.hash) {
+        throw new Error(`Chunk ${chunk.index} of ${manifest.fileName} failed its integrity check`);
+      }
+      parts.push(data);
+    }
+
+    const file = Buffer.concat(parts);
+    if (hashBytes(file) !== manifest.hash) {
+      throw new Error(`${manifest.fileName} failed its integrity check`);
+    }
+    return file;
+  }
+
+  /**
+   * Read an uploaded manifest back, e.g. when restoring on another device
+   */
+  async retrieveManifest(manifestBlobId: string): Promise<MediaManifest> {
+    await this.keyManagement.ensureInitialized();
+
+    const envelope = JSON.parse((await this.walrus.retrieveBlob(manifestBlobId)).toString('utf-8')) as MediaBlobEnvelope;
+    if (envelope.format !== 'og-media-manifest') {
+      throw new Error(`Blob ${manifestBlobId} is not a media manifest`);
+    }
+    return { ...JSON.parse(await this.open(envelope)), manifestBlobId };
+  }
+
+  private async seal(
+    format: MediaBlobEnvelope['format'],
+    content: string,
+    keyScope: string,
+    keyId: string,
+    keySalt: string
+  ): Promise<Buffer> {
+    const sealed = await this.encryptionService.encryptEnvelope(content, keyId, this.keyManagement);
+    const envelope: MediaBlobEnvelope = {
+      format,
+      version: 1,
+      keyScope,
+      keySalt,
+      payload: sealed.payload,
+      wrappedKey: sealed.wrappedKey
+    };
+    return Buffer.from(JSON.stringify(envelope), 'utf-8');
+  }
+
+  private async open(envelope: MediaBlobEnvelope): Promise<string> {
+    const key = await this.keyManagement.generateMemoryKey(envelope.keyScope, envelope.keySalt);
+    const decrypted = await this.encryptionService.decryptEnvelope(
+      { keyId: key.keyId, wrappedKey: envelope.wrappedKey, payload: envelope.payload },
+      this.keyManagement
+    );
+    return decrypted.content;
+  }
+
+  private loadChunkIndex(): Record<string, StoredChunk> {
+    return this.store.get<Record<string, StoredChunk>>(MediaStorageService.CHUNK_INDEX_KEY, {});
+  }
+
+  private saveChunkIndex(index: Record<string, StoredChunk>): void {
+    this.store.set(MediaStorageService.CHUNK_INDEX_KEY, index);
+  }
+}
+
+// Singleton instance
+let mediaStorageInstance: MediaStorageService | null = null;
+
+export function getMediaStorageService(): MediaStorageService {
+  if (!mediaStorageInstance) {
+    mediaStorageInstance = new MediaStorageService();
+  }
+  return mediaStorageInstance;
+}
@@ -0,0 +1,370 @@
+import { MemoryEntry, MemoryType } from '@/types/memory';
+import { getMemoryService, MemoryService } from './memory-service';
+import { getMemoryManager } from './memory-manager';
+import { getMemoryStore, MemoryStore } from './memory-store';
+import { getOpenAIService, OpenAIService } from './ai-service';
+import { MemoryIndexer } from './memory-indexer';
+
+export interface ConsolidationOptions {
+  similarityThreshold?: number; // Minimum cosine similarity to a cluster's centroid
+  minClusterSize?: number; // Smaller clusters are left alone
+  maxClusterSize?: number;
+  dryRun?: boolean; // Report clusters without writing anything
+}
+
+export interface ConsolidationCluster {
+  summaryId?: string;
+  summary: string;
+  sourceIds: string[];
+}
+
+export interface ConsolidationReport {
+  startedAt: string;
+  completedAt?: string;
+  candidates: number;
+  clusters: ConsolidationCluster[];
+  archived: number;
+  dryRun: boolean;
+  error?: string;
+}
+
+interface Cluster {
+  members: MemoryEntry[];
+  centroid: number[];
+}
+
+export const CONSOLIDATED_TAG = 'consolidated';
+
+// Fragment types produced by learnFromInteraction; profiles, media and shared memories are never merged
+const CONSOLIDATABLE_TYPES: MemoryType[] = ['conversation', 'learned_fact', 'user_preference', 'task_outcome'];
+
+const SUMMARY_PROMPT = `You merge several related memories about the same user into one concise summary memory.
+
+Return JSON: {"summary": string, "tags": string[]}
+- summary: a few sentences in the third person that keep every distinct fact, preference, commitment and date; drop repetition
+- tags: up to 6 short lowercase keywords`;
+
+/**
+ * Memory Consolidation - clusters near-duplicate memory fragments by embedding and replaces each
+ * cluster with a summary memory. Originals are archived, not deleted: they stay anchored on-chain
+ * and the summary lists them in metadata.relatedMemories (also committed with its own anchor).
+ */
+export class MemoryConsolidationService {
+  private static readonly STATE_KEY = 'og_consolidation_state';
+  private static readonly INTERVAL_MS = 24 * 60 * 60 * 1000;
+  private static readonly DEFAULTS: Required<Omit<ConsolidationOptions, 'dryRun'>> = {
+    similarityThreshold: 0.85,
+    minClusterSize: 3,
+    maxClusterSize: 20
+  };
+
+  private memoryService: MemoryService = getMemoryService();
+  private memoryManager = getMemoryManager();
+  private store: MemoryStore = getMemoryStore();
+  private ai: OpenAIService | null = getOpenAIService();
+  private activeRun: Promise<ConsolidationReport> | null = null;
+
+  getLastReport(): ConsolidationReport | null {
+    return this.store.get<ConsolidationReport | null>(MemoryConsolidationService.STATE_KEY, null);
+  }
+
+  isRunning(): boolean {
+    return this.activeRun !== null;
+  }
+
+  isDue(): boolean {
+    const last = this.getLastReport();
+    if (!last || last.dryRun) return true;
+    // Failed runs also wait out the interval so every chat turn doesn't retry them
+    const lastRun = last.completedAt || last.startedAt;
+    return Date.now() - new Date(lastRun).getTime() >= MemoryConsolidationService.INTERVAL_MS;
+  }
+
+  /**
+   * Run consolidation if the last completed run is older than the interval
+   */
+  async runIfDue(): Promise<ConsolidationReport | null> {
+    if (this.isRunning() || !this.isDue()) {
+      return null;
+    }
+    return this.consolidate();
+  }
+
+  /**
+   * Start (or join) a consolidation run. Concurrent callers share the same run.
+   */
+  consolidate(options: ConsolidationOptions = {}): Promise<ConsolidationReport> {
+    if (!this.activeRun) {
+      this.activeRun = this.run(options).finally(() => {
+        this.activeRun = null;
+      });
+    }
+    return this.activeRun;
+  }
+
+  /**
+   * Re-apply archive flags from summaries in the local index, e.g. after a restore from chain
+   */
+  reconcileArchived(): number {
+    const index = MemoryIndexer.getMetadataIndex();
+    const byId = new Map(index.map(memory => [memory.id, memory] as [string, MemoryEntry]));
+    let archived = 0;
+
+    index
+      .filter(memory => memory.tags?.includes(CONSOLIDATED_TAG) && !memory.metadata?.archived)
+      .forEach(summary => {
+        (summary.metadata.relatedMemories || []).forEach(sourceId => {
+          const source = byId.get(sourceId);
+          if (!source || source.metadata?.archived) return;
+
+          MemoryIndexer.updateMetadata({
+            ...source,
+            metadata: {
+              ...source.metadata,
+              archived: true,
+              archivedAt: new Date(summary.createdAt).toISOString(),
+              consolidatedInto: summary.id
+            }
+          });
+          archived++;
+        });
+      });
+
+    if (archived > 0) {
+      console.log(`🗄️ Re-archived ${archived} consolidated memories`);
+    }
+    return archived;
+  }
+
+  private async run(options: ConsolidationOptions): Promise<ConsolidationReport> {
+    const settings = { ...MemoryConsolidationService.DEFAULTS };
+    if (options.similarityThreshold !== undefined) settings.similarityThreshold = options.similarityThreshold;
+    if (options.minClusterSize !== undefined) settings.minClusterSize = options.minClusterSize;
+    if (options.maxClusterSize !== undefined) settings.maxClusterSize = options.maxClusterSize;
+
+    const report: ConsolidationReport = {
+      startedAt: new Date().toISOString(),
+      candidates: 0,
+      clusters: [],
+      archived: 0,
+      dryRun: !!options.dryRun
+    };
+
+    try {
+      console.log('🧹 Starting memory consolidation...');
+      await this.memoryService.initialize();
+
+      const memories = await this.memoryService.getAllMemories();
+      const candidates = memories.filter(memory => this.isConsolidatable(memory));
+      report.candidates = candidates.length;
+
+      const clusters = (await this.cluster(candidates, settings.similarityThreshold, settings.maxClusterSize))
+        .filter(cluster => cluster.members.length >= settings.minClusterSize);
+
+      console.log(`📊 ${candidates.length} candidates, ${clusters.length} clusters to consolidate`);
+
+      for (const cluster of clusters) {
+        const summary = await this.summarize(cluster.members);
+        const entry: ConsolidationCluster = {
+          summary: summary.content,
+          sourceIds: cluster.members.map(memory => memory.id)
+        };
+
+        if (!options.dryRun) {
+          const summaryMemory = await this.writeSummary(cluster.members, summary);
+          entry.summaryId = summaryMemory.id;
+          report.archived += await this.archiveSources(cluster.members, summaryMemory.id);
+        }
+        report.clusters.push(entry);
+      }
+
+      report.completedAt = new Date().toISOString();
+      console.log(`✅ Consolidation completed: ${report.clusters.length} summaries, ${report.archived} memories archived`);
+    } catch (error: any) {
+      console.error('❌ Memory consolidation failed:', error);
+      report.error = error?.message || 'Unknown error';
+    }
+
+    this.store.set(MemoryConsolidationService.STATE_KEY, report);
+    return report;
+  }
+
+  private isConsolidatable(memory: MemoryEntry): boolean {
+    return CONSOLIDATABLE_TYPES.includes(memory.type)
+      && !memory.metadata?.archived
+      && !memory.metadata?.pinned
+      && !memory.tags?.includes(CONSOLIDATED_TAG)
+      && !memory.accessPolicy?.threshold
+      && !memory.accessPolicy?.timelock;
+  }
+
+  /**
+   * Greedy centroid clustering in chronological order: each memory joins the most similar
+   * cluster above the threshold, or starts a new one
+   */
+  private async cluster(memories: MemoryEntry[], threshold: number, maxSize: number): Promise<Cluster[]> {
+    const clusters: Cluster[] = [];
+    const ordered = [...memories].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    for (const memory of ordered) {
+      const vector = await this.getVector(memory);
+      if (!vector) continue;
+
+      let best: Cluster | null = null;
+      let bestSimilarity = threshold;
+      for (const cluster of clusters) {
+        if (cluster.members.length >= maxSize) continue;
+        const similarity = cosineSimilarity(vector, cluster.centroid);
+        if (similarity >= bestSimilarity) {
+          best = cluster;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (best) {
+        const n = best.members.length;
+        best.centroid = best.centroid.map((value, i) => (value * n + vector[i]) / (n + 1));
+        best.members.push(memory);
+      } else {
+        clusters.push({ members: [memory], centroid: vector.slice() });
+      }
+    }
+
+    return clusters;
+  }
+
+  private async getVector(memory: MemoryEntry): Promise<number[] | null> {
+    const stored = MemoryIndexer.getVector(memory.id);
+    if (stored && stored.length > 0) {
+      return stored;
+    }
+
+    try {
+      return await this.memoryManager.generateEmbedding(memoryText(memory));
+    } catch (error: any) {
+      console.warn(`⚠️ No embedding for ${memory.id.slice(0, 8)}..., skipping:`, error?.message);
+      return null;
+    }
+  }
+
+  private async summarize(members: MemoryEntry[]): Promise<{ content: string; tags: string[]; model?: string }> {
+    const lines = members.map(memory => `- (${new Date(memory.createdAt).toISOString().slice(0, 10)}) ${memoryText(memory)}`);
+
+    if (this.ai) {
+      try {
+        const result = await this.ai.generateJSON<{ summary?: string; tags?: string[] }>(SUMMARY_PROMPT, lines.join('\n'));
+        if (typeof result.summary === 'string' && result.summary.trim()) {
+          return {
+            content: result.summary.trim(),
+            tags: Array.isArray(result.tags) ? result.tags.filter(tag => typeof tag === 'string') : [],
+            model: this.ai.getModel()
+          };
+        }
+      } catch (error: any) {
+        console.warn('⚠️ LLM summarization failed, using extractive summary:', error?.message);
+      }
+    }
+
+    // Extractive fallback: distinct fragments, oldest first
+    const distinct = Array.from(new Set(members.map(memoryText)));
+    return { content: distinct.join('\n'), tags: [] };
+  }
+
+  private async writeSummary(members: MemoryEntry[], summary: { content: string; tags: string[]; model?: string }): Promise<MemoryEntry> {
+    const tags = Array.from(new Set([
+      CONSOLIDATED_TAG,
+      ...summary.tags.map(tag => tag.toLowerCase()),
+      ...mostCommon(members.reduce<string[]>((all, memory) => all.concat(memory.tags || []), []), 5)
+    ])).slice(0, 8);
+
+    return this.memoryService.createMemory({
+      content: summary.content,
+      type: mostCommon(members.map(memory => memory.type), 1)[0],
+      category: mostCommon(members.map(memory => memory.category), 1)[0],
+      tags,
+      encrypted: true,
+      accessPolicy: {
+        owner: 'local-user',
+        permissions: []
+      },
+      metadata: {
+        size: summary.content.length,
+        checksum: '',
+        version: 1,
+        relatedMemories: members.map(memory => memory.id),
+        // The summary traces back to every message its sources came from
+        provenance: {
+          messageIds: Array.from(new Set(members.reduce<string[]>(
+            (all, memory) => all.concat(memory.metadata?.provenance?.messageIds || []), []
+          ))),
+          extractionMethod: 'consolidation',
+          model: summary.model,
+          createdAt: new Date().toISOString()
+        }
+      }
+    }, { onDuplicate: 'allow' }); // A summary must not be merged into one of its own sources
+  }
+
+  private async archiveSources(members: MemoryEntry[], summaryId: string): Promise<number> {
+    let archived = 0;
+    const archivedAt = new Date().toISOString();
+
+    for (const memory of members) {
+      try {
+        await this.memoryService.updateMemory(memory.id, {
+          metadata: { ...memory.metadata, archived: true, archivedAt, consolidatedInto: summaryId }
+        });
+        archived++;
+      } catch (error: any) {
+        console.warn(`⚠️ Failed to archive ${memory.id.slice(0, 8)}...:`, error?.message);
+      }
+    }
+    return archived;
+  }
+}
+
+/**
+ * Readable text for a memory; interactions stored as JSON are flattened
+ */
+function memoryText(memory: MemoryEntry): string {
+  try {
+    const parsed = JSON.parse(memory.content);
+    if (parsed && parsed.userQuery) {
+      return `User said: "${parsed.userQuery}"`;
+    }
+  } catch {
+    // Plain-text memory
+  }
+  return memory.content.replace(/\s+/g, ' ').trim();
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+function mostCommon<T>(values: T[], count: number): T[] {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([value]) => value);
+}
+
+// Singleton instance
+let consolidationInstance: MemoryConsolidationService | null = null;
+
+export function getMemoryConsolidationService(): MemoryConsolidationService {
+  if (!consolidationInstance) {
+    consolidationInstance = new MemoryConsolidationService();
+  }
+  return consolidationInstance;
+}
@@ -0,0 +1,213 @@
+import { MemoryType } from '@/types/memory';
+import { getOpenAIService, OpenAIService } from './ai-service';
+
+/**
+ * Memory Extraction - turns a conversation turn into zero or more atomic memories
+ * Uses the configured LLM when available and falls back to keyword heuristics otherwise
+ */
+
+export type ExtractedMemoryKind = 'fact' | 'preference' | 'commitment' | 'goal';
+
+export interface ExtractedMemory {
+  kind: ExtractedMemoryKind;
+  content: string; // One self-contained statement about the user
+  type: MemoryType;
+  category: string;
+  tags: string[];
+  confidence: number; // 0-1
+  source: 'llm' | 'heuristic';
+  model?: string; // Set for LLM extractions
+}
+
+export const MEMORY_CATEGORIES = [
+  'Health & Fitness',
+  'Food & Nutrition',
+  'Schedule & Planning',
+  'Personal Profile',
+  'Knowledge & Learning',
+  'Goals & Productivity',
+  'Relationships',
+  'Work & Career',
+  'General Chat'
+];
+
+const KIND_TO_TYPE: Record<ExtractedMemoryKind, MemoryType> = {
+  fact: 'learned_fact',
+  preference: 'user_preference',
+  commitment: 'task_outcome',
+  goal: 'task_outcome'
+};
+
+const MAX_TAGS = 6;
+
+const EXTRACTION_PROMPT = `You extract long-term memories about the user from one turn of a conversation with their personal assistant.
+
+Return JSON: {"memories": [{"kind", "content", "category", "tags", "confidence"}]}
+- kind: "fact" (something true about the user or their life), "preference" (likes, dislikes, habits),
+  "commitment" (something the user said they will do, with any date), or "goal" (something they want to achieve)
+- content: one atomic, self-contained statement in the third person, e.g. "User is vegetarian"
+- category: one of ${MEMORY_CATEGORIES.map(c => `"${c}"`).join(', ')}
+- tags: up to ${MAX_TAGS} short lowercase keywords
+- confidence: 0-1, how sure you are the user actually stated or clearly implied it
+
+Only extract information about the user that will still be useful in future conversations.
+Ignore greetings, small talk, questions with no personal information, and anything the assistant said that the user did not confirm.
+Return {"memories": []} when there is nothing worth remembering.`;
+
+export class MemoryExtractor {
+  private ai: OpenAIService | null;
+  private minConfidence: number;
+
+  constructor(ai: OpenAIService | null = getOpenAIService(), minConfidence: number = 0.5) {
+    this.ai = ai;
+    this.minConfidence = minConfidence;
+  }
+
+  /**
+   * Extract memories from a user message and the assistant's reply
+   */
+  async extract(userInput: string, aiResponse: string): Promise<ExtractedMemory[]> {
+    if (this.ai) {
+      try {
+        const memories = await this.extractWithModel(userInput, aiResponse);
+        console.log(`🧩 Extracted ${memories.length} memories with LLM`);
+        return memories;
+      } catch (error: any) {
+        console.warn('⚠️ LLM memory extraction failed, using heuristics:', error?.message);
+      }
+    }
+
+    return this.extractWithHeuristics(userInput, aiResponse);
+  }
+
+  private async extractWithModel(userInput: string, aiResponse: string): Promise<ExtractedMemory[]> {
+    const result = await this.ai!.generateJSON<{ memories?: any[] }>(
+      EXTRACTION_PROMPT,
+      `User: ${userInput}\n\nAssistant: ${aiResponse}`
+    );
+
+    if (!Array.isArray(result.memories)) {
+      throw new Error('Extraction response is missing a memories array');
+    }
+
+    const seen = new Set<string>();
+    return result.memories
+      .map(raw => this.normalize(raw))
+      .filter((memory): memory is ExtractedMemory => {
+        if (!memory || memory.confidence < this.minConfidence) return false;
+        const key = memory.content.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  /**
+   * Validate one model-produced memory and coerce it onto the known kinds, categories and tags
+   */
+  private normalize(raw: any): ExtractedMemory | null {
+    if (!raw || typeof raw.content !== 'string' || !raw.content.trim()) {
+      return null;
+    }
+
+    const kind: ExtractedMemoryKind = KIND_TO_TYPE.hasOwnProperty(raw.kind) ? raw.kind : 'fact';
+    const category = MEMORY_CATEGORIES.find(c => c.toLowerCase() === String(raw.category || '').toLowerCase())
+      || 'General Chat';
+    const confidence = Math.min(1, Math.max(0, Number(raw.confidence)));
+
+    return {
+      kind,
+      content: raw.content.trim(),
+      type: KIND_TO_TYPE[kind],
+      category,
+      tags: normalizeTags([kind, ...(Array.isArray(raw.tags) ? raw.tags : [])]),
+      confidence: isNaN(confidence) ? 0 : confidence,
+      source: 'llm',
+      model: this.ai?.getModel()
+    };
+  }
+
+  /**
+   * Keyword classification of the whole exchange, stored as a single memory
+   */
+  private extractWithHeuristics(userInput: string, aiResponse: string): ExtractedMemory[] {
+    const input = userInput.toLowerCase();
+
+    let kind: ExtractedMemoryKind = 'fact';
+    let type: MemoryType = 'conversation';
+    let category = 'General Chat';
+    let tags = ['conversation', 'chat'];
+
+    // Health & Wellness patterns
+    if (input.includes('workout') || input.includes('exercise') || input.includes('fitness') || input.includes('gym')) {
+      kind = 'preference';
+      type = 'user_preference';
+      category = 'Health & Fitness';
+      tags = ['fitness', 'workout', 'health', 'preferences'];
+    }
+    // Food & Nutrition patterns
+    else if (input.includes('eat') || input.includes('food') || input.includes('meal') || input.includes('cook') || input.includes('recipe') || input.includes('lunch') || input.includes('dinner') || input.includes('breakfast')) {
+      kind = 'preference';
+      type = 'user_preference';
+      category = 'Food & Nutrition';
+      tags = ['food', 'nutrition', 'meals', 'preferences'];
+    }
+    // Schedule & Time Management patterns
+    else if (input.includes('schedule') || input.includes('time') || input.includes('plan') || input.includes('day') || input.includes('calendar') || input.includes('meeting')) {
+      kind = 'commitment';
+      type = 'task_outcome';
+      category = 'Schedule & Planning';
+      tags = ['schedule', 'planning', 'time-management', 'tasks'];
+    }
+    // Personal preferences and lifestyle
+    else if (input.includes('prefer') || input.includes('like') || input.includes('favorite') || input.includes('enjoy') || input.includes('hobby')) {
+      kind = 'preference';
+      type = 'user_preference';
+      category = 'Personal Profile';
+      tags = ['profile', 'preferences', 'lifestyle'];
+    }
+    // Learning and facts
+    else if (input.includes('how') || input.includes('what') || input.includes('why') || input.includes('explain') || input.includes('tell me')) {
+      type = 'learned_fact';
+      category = 'Knowledge & Learning';
+      tags = ['learning', 'knowledge', 'facts'];
+    }
+    // Goal setting and productivity
+    else if (input.includes('goal') || input.includes('achieve') || input.includes('productive') || input.includes('improve') || input.includes('better')) {
+      kind = 'goal';
+      type = 'task_outcome';
+      category = 'Goals & Productivity';
+      tags = ['goals', 'productivity', 'improvement', 'tasks'];
+    }
+
+    // Keep the raw exchange; without a model we can't reliably pull out atomic statements
+    const content = JSON.stringify({
+      userQuery: userInput,
+      aiResponse: aiResponse.substring(0, 200) + (aiResponse.length > 200 ? '...' : ''),
+      timestamp: new Date().toISOString(),
+      context: category,
+      interaction_type: type
+    }, null, 2);
+
+    return [{ kind, content, type, category, tags, confidence: 0.5, source: 'heuristic' }];
+  }
+}
+
+function normalizeTags(tags: any[]): string[] {
+  const normalized = tags
+    .filter(tag => typeof tag === 'string')
+    .map(tag => tag.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''))
+    .filter(tag => tag.length > 0);
+
+  return Array.from(new Set(normalized)).slice(0, MAX_TAGS);
+}
+
+// Singleton instance
+let memoryExtractorInstance: MemoryExtractor | null = null;
+
+export function getMemoryExtractor(): MemoryExtractor {
+  if (!memoryExtractorInstance) {
+    memoryExtractorInstance = new MemoryExtractor();
+  }
+  return memoryExtractorInstance;
+}
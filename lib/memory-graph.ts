@@ -0,0 +1,400 @@
+import { MemoryEdge, MemoryEdgeType, MemoryEntry, MemoryLinkReason } from '@/types/memory';
+import { getMemoryStore, MemoryStore } from './memory-store';
+import { MemoryIndexer } from './memory-indexer';
+import { findProperNouns } from './entity-extraction';
+
+/**
+ * Memory Graph - typed relationship edges between memories
+ * Edges are derived from explicit links, shared entities, shared tags, a shared conversation turn
+ * and embedding similarity. Each memory keeps only its strongest derived links, plus every explicit
+ * one; the graph is rebuilt per memory whenever that memory is created, relinked or its content changes.
+ */
+
+export interface GraphQueryOptions {
+  types?: MemoryEdgeType[]; // Only walk these edge types
+  isVisible?: (memoryId: string) => boolean; // Skip nodes the caller can't show (deleted, archived)
+}
+
+export interface NeighbourhoodOptions extends GraphQueryOptions {
+  depth?: number;
+  limit?: number;
+}
+
+export interface GraphNeighbour {
+  memoryId: string;
+  depth: number;
+  via: MemoryEdge; // Edge through which the node was first reached
+}
+
+export interface MemoryNeighbourhood {
+  memoryId: string;
+  neighbours: GraphNeighbour[];
+  edges: MemoryEdge[]; // All edges among the returned nodes
+}
+
+export interface MemoryPath {
+  memoryIds: string[]; // From start to end, inclusive
+  edges: MemoryEdge[];
+}
+
+// Tags every memory of a kind carries; sharing them says nothing about the content
+const GENERIC_TAGS = ['conversation', 'chat', 'fact', 'preference', 'commitment', 'goal', 'consolidated', 'profile', 'upload', 'imported'];
+
+export const NEGATION_PATTERN = /\b(not|no longer|never|don't|doesn't|didn't|isn't|aren't|won't|can't|stopped|quit|dislikes?|hates?)\b/i;
+
+export class MemoryGraphService {
+  private static readonly GRAPH_KEY = 'og_memory_graph';
+  private static readonly MAX_EDGES_PER_MEMORY = 8;
+  private static readonly MIN_LINK_WEIGHT = 0.3; // One shared entity is enough on its own
+  private static readonly EMBEDDING_NEIGHBOURS = 20;
+  private static readonly RELATED_SIMILARITY = 0.75; // Minimum similarity to count as an embedding link
+  private static readonly SUPPORT_SIMILARITY = 0.85;
+  private static readonly CONTRADICTION_SIMILARITY = 0.8;
+  private static readonly MAX_PATH_DEPTH = 6;
+  private store: MemoryStore;
+
+  constructor(store: MemoryStore = getMemoryStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Recompute the edges of one memory against the given candidates.
+   * Returns the IDs whose neighbour lists changed (including the memory itself).
+   */
+  linkMemory(memory: MemoryEntry, candidates: MemoryEntry[], vector?: number[]): string[] {
+    const edges = this.loadEdges();
+    const affected = new Set<string>([memory.id]);
+
+    Object.keys(edges).forEach(key => {
+      const edge = edges[key];
+      if (edge.source === memory.id || edge.target === memory.id) {
+        affected.add(edge.source === memory.id ? edge.target : edge.source);
+        delete edges[key];
+      }
+    });
+
+    const links = this.computeLinks(memory, candidates, vector);
+    links.forEach(edge => {
+      edges[edgeKey(edge.source, edge.target)] = edge;
+      affected.add(edge.source === memory.id ? edge.target : edge.source);
+    });
+
+    this.saveEdges(edges);
+    console.log(`🕸️ Linked memory ${memory.id.slice(0, 8)}... to ${links.length} related memories`);
+    return Array.from(affected);
+  }
+
+  /**
+   * The strongest links from a memory to the candidates, without touching the stored graph
+   */
+  private computeLinks(memory: MemoryEntry, candidates: MemoryEntry[], vector?: number[]): MemoryEdge[] {
+    const similarities = new Map<string, number>();
+    if (vector && vector.length > 0) {
+      MemoryIndexer.searchByVectorWithScores(vector, MemoryGraphService.EMBEDDING_NEIGHBOURS)
+        .forEach(hit => similarities.set(hit.memory.id, hit.similarity));
+    }
+
+    const entities = extractEntities(memory.content);
+    const tags = meaningfulTags(memory);
+
+    return candidates
+      .filter(candidate => candidate.id !== memory.id)
+      .map(candidate => this.scoreLink(memory, candidate, {
+        similarity: similarities.get(candidate.id) || 0,
+        entities,
+        tags
+      }))
+      .filter((edge): edge is MemoryEdge => edge !== null)
+      .sort((a, b) => b.weight - a.weight)
+      .filter((edge, i) => i < MemoryGraphService.MAX_EDGES_PER_MEMORY || isExplicit(edge));
+  }
+
+  /**
+   * Drop every edge touching a memory; returns its former neighbours
+   */
+  removeMemory(memoryId: string): string[] {
+    const edges = this.loadEdges();
+    const neighbours: string[] = [];
+
+    Object.keys(edges).forEach(key => {
+      const edge = edges[key];
+      if (edge.source === memoryId || edge.target === memoryId) {
+        neighbours.push(edge.source === memoryId ? edge.target : edge.source);
+        delete edges[key];
+      }
+    });
+
+    if (neighbours.length > 0) {
+      this.saveEdges(edges);
+    }
+    return neighbours;
+  }
+
+  getEdges(memoryId: string, options: GraphQueryOptions = {}): MemoryEdge[] {
+    return this.adjacency(options)[memoryId] || [];
+  }
+
+  /**
+   * Directly linked memory IDs, strongest first. Explicit links are never cut off by the limit.
+   */
+  getRelatedIds(memoryId: string, limit: number = MemoryGraphService.MAX_EDGES_PER_MEMORY): string[] {
+    return this.getEdges(memoryId)
+      .sort((a, b) => b.weight - a.weight)
+      .filter((edge, i) => i < limit || isExplicit(edge))
+      .map(edge => edge.source === memoryId ? edge.target : edge.source);
+  }
+
+  /**
+   * Breadth-first walk out to `depth` hops, strongest edges first at each hop
+   */
+  getNeighbourhood(memoryId: string, options: NeighbourhoodOptions = {}): MemoryNeighbourhood {
+    const depth = Math.max(1, Math.min(options.depth || 1, MemoryGraphService.MAX_PATH_DEPTH));
+    const limit = options.limit || 25;
+    const adjacency = this.adjacency(options);
+    const visible = options.isVisible || (() => true);
+
+    const visited = new Set<string>([memoryId]);
+    const neighbours: GraphNeighbour[] = [];
+    let frontier = [memoryId];
+
+    for (let hop = 1; hop <= depth && frontier.length > 0 && neighbours.length < limit; hop++) {
+      const next: string[] = [];
+      frontier.forEach(current => {
+        (adjacency[current] || [])
+          .sort((a, b) => b.weight - a.weight)
+          .forEach(edge => {
+            const other = edge.source === current ? edge.target : edge.source;
+            if (visited.has(other) || !visible(other) || neighbours.length >= limit) return;
+            visited.add(other);
+            neighbours.push({ memoryId: other, depth: hop, via: edge });
+            next.push(other);
+          });
+      });
+      frontier = next;
+    }
+
+    const edges: MemoryEdge[] = [];
+    visited.forEach(id => {
+      (adjacency[id] || []).forEach(edge => {
+        if (visited.has(edge.source) && visited.has(edge.target)) {
+          edges.push(edge);
+        }
+      });
+    });
+
+    return { memoryId, neighbours, edges: uniqueEdges(edges) };
+  }
+
+  /**
+   * Fewest-hops path between two memories, or null if they aren't connected within MAX_PATH_DEPTH
+   */
+  findPath(fromId: string, toId: string, options: GraphQueryOptions = {}): MemoryPath | null {
+    if (fromId === toId) {
+      return { memoryIds: [fromId], edges: [] };
+    }
+
+    const adjacency = this.adjacency(options);
+    const visible = options.isVisible || (() => true);
+    const cameFrom = new Map<string, MemoryEdge>();
+    const visited = new Set<string>([fromId]);
+    let frontier = [fromId];
+
+    for (let hop = 0; hop < MemoryGraphService.MAX_PATH_DEPTH && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const current of frontier) {
+        for (const edge of adjacency[current] || []) {
+          const other = edge.source === current ? edge.target : edge.source;
+          if (visited.has(other) || !visible(other)) continue;
+          visited.add(other);
+          cameFrom.set(other, edge);
+
+          if (other === toId) {
+            return this.tracePath(fromId, toId, cameFrom);
+          }
+          next.push(other);
+        }
+      }
+      frontier = next;
+    }
+
+    return null;
+  }
+
+  /**
+   * Rebuild the whole graph from scratch, e.g. after a restore
+   */
+  rebuild(memories: MemoryEntry[]): number {
+    const edges: Record<string, MemoryEdge> = {};
+    memories.forEach(memory => {
+      this.computeLinks(memory, memories, MemoryIndexer.getVector(memory.id)).forEach(edge => {
+        edges[edgeKey(edge.source, edge.target)] = edge;
+      });
+    });
+
+    this.saveEdges(edges);
+    console.log(`🕸️ Rebuilt memory graph: ${Object.keys(edges).length} edges across ${memories.length} memories`);
+    return Object.keys(edges).length;
+  }
+
+  private scoreLink(
+    memory: MemoryEntry,
+    candidate: MemoryEntry,
+    context: { similarity: number; entities: string[]; tags: string[] }
+  ): MemoryEdge | null {
+    const reasons: MemoryLinkReason[] = [];
+    const strengths: number[] = [];
+
+    const linked = (memory.metadata?.links || []).indexOf(candidate.id) !== -1
+      || (candidate.metadata?.links || []).indexOf(memory.id) !== -1;
+    if (linked) {
+      reasons.push('link');
+      strengths.push(1);
+    }
+
+    if (context.similarity >= MemoryGraphService.RELATED_SIMILARITY) {
+      reasons.push('embedding');
+      strengths.push(context.similarity);
+    }
+
+    const candidateEntities = extractEntities(candidate.content);
+    const sharedEntities = context.entities.filter(entity => candidateEntities.indexOf(entity) !== -1);
+    if (sharedEntities.length > 0) {
+      reasons.push('entity');
+      strengths.push(Math.min(1, 0.35 * sharedEntities.length));
+    }
+
+    const candidateTags = meaningfulTags(candidate);
+    const sharedTags = context.tags.filter(tag => candidateTags.indexOf(tag) !== -1);
+    if (sharedTags.length > 0) {
+      reasons.push('tag');
+      const union = new Set(context.tags.concat(candidateTags)).size;
+      strengths.push(0.6 * sharedTags.length / union);
+    }
+
+    const conversationId = memory.metadata?.conversationId;
+    const sameConversation = !!conversationId && conversationId === candidate.metadata?.conversationId;
+    if (sameConversation) {
+      reasons.push('conversation');
+      strengths.push(0.5);
+    }
+
+    // Independent signals reinforce each other: 1 - Π(1 - s)
+    const weight = 1 - strengths.reduce((remaining, strength) => remaining * (1 - strength), 1);
+    if (reasons.length === 0 || weight < MemoryGraphService.MIN_LINK_WEIGHT) {
+      return null;
+    }
+
+    // Orient from the older memory to the newer one so 'follows-up' edges read forwards in time
+    const [earlier, later] = new Date(memory.createdAt).getTime() <= new Date(candidate.createdAt).getTime()
+      ? [memory, candidate]
+      : [candidate, memory];
+
+    return {
+      source: earlier.id,
+      target: later.id,
+      type: this.classify(earlier, later, context.similarity, sameConversation, sharedEntities.length > 0),
+      weight: Math.round(weight * 1000) / 1000,
+      reasons,
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  private classify(
+    earlier: MemoryEntry,
+    later: MemoryEntry,
+    similarity: number,
+    sameConversation: boolean,
+    sharesEntity: boolean
+  ): MemoryEdgeType {
+    const polarityDiffers = NEGATION_PATTERN.test(earlier.content) !== NEGATION_PATTERN.test(later.content);
+    if (similarity >= MemoryGraphService.CONTRADICTION_SIMILARITY && polarityDiffers) {
+      return 'contradicts';
+    }
+    if (sameConversation || (later.type === 'task_outcome' && (sharesEntity || similarity >= MemoryGraphService.RELATED_SIMILARITY))) {
+      return 'follows-up';
+    }
+    if (similarity >= MemoryGraphService.SUPPORT_SIMILARITY) {
+      return 'supports';
+    }
+    return 'same-topic';
+  }
+
+  private tracePath(fromId: string, toId: string, cameFrom: Map<string, MemoryEdge>): MemoryPath {
+    const memoryIds = [toId];
+    const edges: MemoryEdge[] = [];
+    let current = toId;
+
+    while (current !== fromId) {
+      const edge = cameFrom.get(current)!;
+      edges.unshift(edge);
+      current = edge.source === current ? edge.target : edge.source;
+      memoryIds.unshift(current);
+    }
+
+    return { memoryIds, edges };
+  }
+
+  private adjacency(options: GraphQueryOptions): Record<string, MemoryEdge[]> {
+    const edges = this.loadEdges();
+    const adjacency: Record<string, MemoryEdge[]> = {};
+
+    Object.keys(edges).forEach(key => {
+      const edge = edges[key];
+      if (options.types && options.types.indexOf(edge.type) === -1) return;
+      (adjacency[edge.source] = adjacency[edge.source] || []).push(edge);
+      (adjacency[edge.target] = adjacency[edge.target] || []).push(edge);
+    });
+
+    return adjacency;
+  }
+
+  private loadEdges(): Record<string, MemoryEdge> {
+    return this.store.get<Record<string, MemoryEdge>>(MemoryGraphService.GRAPH_KEY, {});
+  }
+
+  private saveEdges(edges: Record<string, MemoryEdge>): void {
+    this.store.set(MemoryGraphService.GRAPH_KEY, edges);
+  }
+}
+
+/**
+ * Proper-noun phrases in a memory's text, lowercased
+ */
+export function extractEntities(content: string): string[] {
+  return Array.from(new Set(findProperNouns(content).map(noun => noun.name.toLowerCase())));
+}
+
+function meaningfulTags(memory: MemoryEntry): string[] {
+  return (memory.tags || [])
+    .map(tag => tag.toLowerCase())
+    .filter(tag => GENERIC_TAGS.indexOf(tag) === -1);
+}
+
+function isExplicit(edge: MemoryEdge): boolean {
+  return edge.reasons.indexOf('link') !== -1;
+}
+
+// One edge per pair of memories, whichever direction it points
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function uniqueEdges(edges: MemoryEdge[]): MemoryEdge[] {
+  const seen = new Set<string>();
+  return edges.filter(edge => {
+    const key = edgeKey(edge.source, edge.target);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Singleton instance
+let memoryGraphInstance: MemoryGraphService | null = null;
+
+export function getMemoryGraphService(): MemoryGraphService {
+  if (!memoryGraphInstance) {
+    memoryGraphInstance = new MemoryGraphService();
+  }
+  return memoryGraphInstance;
+}
@@ -0,0 +1,731 @@
+import { ethers } from 'ethers';
+import { MemoryImportFormat, MemoryType } from '@/types/memory';
+import { stripMarkdown } from './media-extraction';
+import { DuplicateMatch, getMemoryService, MemoryService } from './memory-service';
+import { getMemoryStore, MemoryStore } from './memory-store';
+
+/**
+ * Memory Import - bulk import of existing notes: a Markdown folder or Obsidian vault, a generic
+ * JSON or CSV export, or a ChatGPT data export (conversations.json).
+ * Identical items are merged by the dedup stage, near-duplicates are imported separately and
+ * reported, front-matter tags become memory tags, and wiki-links become explicit links between
+ * the imported memories. Memories are stored locally first and then committed on-chain in batches
+ * through batchCommitMemoryHashes. Progress is saved every few items, so an interrupted import
+ * resumes where it stopped when the same set of items is sent again.
+ */
+
+export interface ImportFile {
+  path: string; // Relative path inside the archive, e.g. "Projects/Garden.md"
+  content: string;
+}
+
+export interface ImportItem {
+  key: string; // Stable across runs: format, path and content hash
+  path: string;
+  content: string;
+  title?: string;
+  type: MemoryType;
+  category: string;
+  tags: string[];
+  links: string[]; // Wiki-link targets, as written
+  aliases: string[]; // Names other notes may link to this one by
+  createdAt?: string;
+  truncatedFrom?: number; // Original length when the content was cut to MAX_CONTENT_LENGTH
+}
+
+export interface ImportFailure {
+  key: string;
+  path: string;
+  error: string;
+}
+
+export interface ImportNearDuplicate {
+  key: string;
+  path: string;
+  memoryId: string; // The memory the item was imported as
+  similarTo: string; // The existing memory it resembles
+  similarity: number;
+}
+
+export interface ImportTruncation {
+  key: string;
+  path: string;
+  length: number; // Characters before truncation
+}
+
+export interface ImportProgress {
+  status: 'idle' | 'running' | 'completed' | 'failed';
+  format?: MemoryImportFormat;
+  itemSet?: string; // Hash of the run's item keys; only a run over the same items resumes it
+  startedAt?: string;
+  updatedAt?: string;
+  completedAt?: string;
+  total: number;
+  imported: number;
+  duplicates: number; // Identical to a memory that already existed; only its tags were merged
+  nearDuplicates: ImportNearDuplicate[]; // Similar to an existing memory but imported separately
+  truncated: ImportTruncation[]; // Imported with only their first MAX_CONTENT_LENGTH characters
+  skipped: number; // Already imported by an earlier, interrupted run
+  linked: number;
+  anchored: number;
+  batches: number;
+  failed: ImportFailure[];
+  processed: Record<string, string>; // Item key -> memory ID
+  pendingAnchor: string[]; // Imported but not yet committed on-chain; carried over until it is
+  error?: string;
+}
+
+export interface ImportOptions {
+  format?: MemoryImportFormat; // Detected from the files when omitted
+  category?: string; // Overrides the category of every item
+  resume?: boolean; // Continue an interrupted run instead of starting over (default true)
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+const MEMORY_TYPES: MemoryType[] = ['conversation', 'learned_fact', 'user_preference', 'task_outcome', 'multimedia', 'workflow', 'agent_share', 'profile_data'];
+const MAX_CONTENT_LENGTH = 8000;
+
+// Upper bounds for one import request
+export const IMPORT_MAX_FILES = Number(process.env.MEMORY_IMPORT_MAX_FILES) || 5000;
+export const IMPORT_MAX_FILE_BYTES = (Number(process.env.MEMORY_IMPORT_MAX_FILE_MB) || 10) * 1024 * 1024;
+export const IMPORT_MAX_TOTAL_BYTES = (Number(process.env.MEMORY_IMPORT_MAX_TOTAL_MB) || 100) * 1024 * 1024;
+
+const WIKI_LINK_PATTERN = /!?\[\[([^\]|#^]*)(?:[#^][^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+const INLINE_TAG_PATTERN = /(^|[\s(])#([A-Za-z][\w/-]*)/g;
+
+export class MemoryImportService {
+  private static readonly STATE_KEY = 'og_import_state';
+  private static readonly BATCH_SIZE = Number(process.env.MEMORY_IMPORT_BATCH_SIZE) || 20;
+  private static readonly PROGRESS_EVERY = 10; // Items between progress writes; the state holds every processed key
+  private store: MemoryStore;
+  private activeRun: Promise<ImportProgress> | null = null;
+
+  constructor(store: MemoryStore = getMemoryStore()) {
+    this.store = store;
+  }
+
+  getProgress(): ImportProgress {
+    return this.store.get<ImportProgress>(MemoryImportService.STATE_KEY, {
+      status: 'idle',
+      total: 0,
+      imported: 0,
+      duplicates: 0,
+      nearDuplicates: [],
+      truncated: [],
+      skipped: 0,
+      linked: 0,
+      anchored: 0,
+      batches: 0,
+      failed: [],
+      processed: {},
+      pendingAnchor: []
+    });
+  }
+
+  isRunning(): boolean {
+    return this.activeRun !== null;
+  }
+
+  /**
+   * Start an import run. Throws when one is already running, the files exceed the import limits
+   * or they can't be parsed.
+   */
+  importFiles(files: ImportFile[], options: ImportOptions = {}, memoryService: MemoryService = getMemoryService()): Promise<ImportProgress> {
+    if (this.activeRun) {
+      throw new Error('An import is already in progress');
+    }
+    checkImportLimits(files);
+
+    const format = options.format || detectImportFormat(files);
+    const items = parseImportFiles(files, format).map(item => options.category ? { ...item, category: options.category } : item);
+    if (items.length === 0) {
+      throw new Error(`No ${format} items found in the uploaded files`);
+    }
+
+    this.activeRun = this.run(items, format, options, memoryService).finally(() => {
+      this.activeRun = null;
+    });
+    return this.activeRun;
+  }
+
+  private async run(items: ImportItem[], format: MemoryImportFormat, options: ImportOptions, memoryService: MemoryService): Promise<ImportProgress> {
+    const previous = this.getProgress();
+    const itemSet = ethers.keccak256(ethers.toUtf8Bytes(items.map(item => item.key).sort().join('\n')));
+    const resuming = options.resume !== false && previous.status !== 'completed' && previous.itemSet === itemSet
+      && Object.keys(previous.processed).length > 0;
+    const now = new Date().toISOString();
+
+    // Failed items are retried on resume; memories still waiting for their on-chain commit always carry over
+    const progress: ImportProgress = resuming
+      ? {
+        ...previous, status: 'running', updatedAt: now, failed: [], error: undefined,
+        nearDuplicates: previous.nearDuplicates || [], truncated: previous.truncated || []
+      }
+      : {
+        status: 'running', format, itemSet, startedAt: now, updatedAt: now, total: 0, imported: 0, duplicates: 0, nearDuplicates: [],
+        truncated: [], skipped: 0, linked: 0, anchored: 0, batches: 0, failed: [], processed: {}, pendingAnchor: previous.pendingAnchor || []
+      };
+
+    const report = () => {
+      progress.updatedAt = new Date().toISOString();
+      this.store.set(MemoryImportService.STATE_KEY, progress);
+      options.onProgress?.(progress);
+    };
+
+    // Written before the first await, so the state is 'running' by the time importFiles returns
+    progress.total = items.length;
+    progress.skipped = items.filter(item => progress.processed[item.key]).length;
+    report();
+
+    try {
+      console.log(`📥 ${resuming ? 'Resuming' : 'Starting'} ${format} import of ${items.length} items...`);
+      await memoryService.initialize();
+
+      const existingIds = new Set((await memoryService.getAllMemories()).map(memory => memory.id));
+
+      let sinceReport = 0;
+      for (const item of items) {
+        if (progress.processed[item.key]) continue;
+
+        try {
+          const similar: DuplicateMatch[] = [];
+          const memory = await memoryService.createMemory({
+            content: item.content,
+            type: item.type,
+            category: item.category,
+            tags: item.tags,
+            encrypted: true,
+            accessPolicy: {
+              owner: 'local-user',
+              permissions: []
+            },
+            metadata: {
+              size: item.content.length,
+              checksum: '',
+              version: 1,
+              relatedMemories: [],
+              importSource: {
+                format,
+                path: item.path,
+                originalCreatedAt: item.createdAt,
+                importedAt: new Date().toISOString()
+              }
+            }
+          }, {
+            // Distinct notes can be near-identical (daily notes, templates): keep both rather than overwrite one
+            onDuplicate: 'exact',
+            onNearDuplicate: match => similar.push(match),
+            anchor: false,
+            checkContradictions: false // Old notes would flood the contradiction queue
+          });
+
+          similar.forEach(match => progress.nearDuplicates.push({
+            key: item.key,
+            path: item.path,
+            memoryId: memory.id,
+            similarTo: match.memory.id,
+            similarity: match.similarity
+          }));
+          if (existingIds.has(memory.id)) {
+            progress.duplicates++;
+          } else {
+            progress.imported++;
+            progress.pendingAnchor.push(memory.id);
+            existingIds.add(memory.id);
+          }
+          if (item.truncatedFrom) {
+            progress.truncated.push({ key: item.key, path: item.path, length: item.truncatedFrom });
+          }
+          progress.processed[item.key] = memory.id;
+        } catch (error: any) {
+          console.warn(`⚠️ Failed to import ${item.path}:`, error?.message);
+          progress.failed.push({ key: item.key, path: item.path, error: error?.message || 'Unknown error' });
+        }
+        if (++sinceReport >= MemoryImportService.PROGRESS_EVERY) {
+          report();
+          sinceReport = 0;
+        }
+      }
+
+      progress.linked = this.linkItems(items, progress.processed, memoryService);
+      report();
+
+      await this.anchorPending(progress, memoryService, report);
+
+      progress.status = 'completed';
+      progress.completedAt = new Date().toISOString();
+      report();
+
+      console.log(`✅ Import completed: ${progress.imported} imported, ${progress.duplicates} duplicates, ${progress.nearDuplicates.length} near-duplicates kept, ${progress.truncated.length} truncated, ${progress.skipped} skipped, ${progress.failed.length} failed, ${progress.anchored} anchored`);
+      return progress;
+    } catch (error: any) {
+      console.error('❌ Import failed:', error);
+      progress.status = 'failed';
+      progress.error = error?.message || 'Unknown error';
+      report();
+      return progress;
+    }
+  }
+
+  /**
+   * Resolve wiki-links by file name, path, title or alias (case-insensitive) and store them as
+   * explicit links. Returns the number of notes that link to at least one imported memory.
+   */
+  private linkItems(items: ImportItem[], processed: Record<string, string>, memoryService: MemoryService): number {
+    const byName: Record<string, string> = {};
+    items.forEach(item => {
+      const memoryId = processed[item.key];
+      if (!memoryId) return;
+      linkNames(item).forEach(name => {
+        if (!byName[name]) byName[name] = memoryId;
+      });
+    });
+
+    let linked = 0;
+    items.forEach(item => {
+      const memoryId = processed[item.key];
+      if (!memoryId || item.links.length === 0) return;
+
+      const targets = item.links
+        .map(link => byName[normalizeLinkName(link)])
+        .filter((id): id is string => !!id && id !== memoryId);
+      if (targets.length === 0) return;
+
+      try {
+        memoryService.linkMemories(memoryId, targets);
+        linked++;
+      } catch (error: any) {
+        console.warn(`⚠️ Failed to link ${item.path}:`, error?.message);
+      }
+    });
+
+    console.log(`🔗 Linked ${linked} imported notes to the notes they reference`);
+    return linked;
+  }
+
+  /**
+   * Commit pending memories on-chain, BATCH_SIZE per transaction. Memories that fail stay pending
+   * for the next run; when the chain isn't configured, all of them stay pending.
+   */
+  private async anchorPending(progress: ImportProgress, memoryService: MemoryService, report: () => void): Promise<void> {
+    // Memories deleted since they were imported have nothing left to anchor
+    const existing = new Set((await memoryService.getAllMemories()).map(memory => memory.id));
+    const pending = progress.pendingAnchor.filter(id => existing.has(id));
+    const stillPending: string[] = [];
+
+    for (let i = 0; i < pending.length; i += MemoryImportService.BATCH_SIZE) {
+      const batch = pending.slice(i, i + MemoryImportService.BATCH_SIZE);
+      const results = await memoryService.anchorMemories(batch);
+
+      if (results.length === 0) {
+        console.log(`🔗 On-chain indexing not available; ${pending.length - i} imported memories left to anchor later`);
+        stillPending.push(...pending.slice(i));
+        break;
+      }
+
+      progress.batches++;
+      results.forEach((result, index) => {
+        if (result.success) {
+          progress.anchored++;
+        } else {
+          stillPending.push(batch[index]);
+        }
+      });
+      progress.pendingAnchor = stillPending.concat(pending.slice(i + MemoryImportService.BATCH_SIZE));
+      report();
+    }
+
+    progress.pendingAnchor = stillPending;
+  }
+}
+
+/**
+ * Throws when a request holds too many files, or files too large to import
+ */
+export function checkImportLimits(files: ImportFile[]): void {
+  if (files.length > IMPORT_MAX_FILES) {
+    throw new Error(`Too many files: ${files.length}, the limit is ${IMPORT_MAX_FILES}`);
+  }
+  let total = 0;
+  for (const file of files) {
+    const size = Buffer.byteLength(file.content, 'utf-8');
+    if (size > IMPORT_MAX_FILE_BYTES) {
+      throw new Error(`File too large: ${file.path} is ${size} bytes, the limit is ${IMPORT_MAX_FILE_BYTES}`);
+    }
+    total += size;
+  }
+  if (total > IMPORT_MAX_TOTAL_BYTES) {
+    throw new Error(`Import too large: ${total} bytes, the limit is ${IMPORT_MAX_TOTAL_BYTES}`);
+  }
+}
+
+/**
+ * Guess the format from the files: Markdown notes, a CSV, a ChatGPT conversations.json or other JSON
+ */
+export function detectImportFormat(files: ImportFile[]): MemoryImportFormat {
+  if (files.some(file => isMarkdown(file.path))) return 'markdown';
+  if (files.some(file => extensionOf(file.path) === 'csv')) return 'csv';
+
+  const json = files.find(file => extensionOf(file.path) === 'json');
+  if (json) {
+    try {
+      const data = JSON.parse(json.content);
+      return Array.isArray(data) && data.length > 0 && data[0] && data[0].mapping ? 'chatgpt' : 'json';
+    } catch {
+      throw new Error(`${json.path} is not valid JSON`);
+    }
+  }
+
+  throw new Error('Unrecognized import: expected Markdown notes, a JSON or CSV export, or a ChatGPT conversations.json');
+}
+
+export function parseImportFiles(files: ImportFile[], format: MemoryImportFormat): ImportItem[] {
+  const items: ImportItem[] = [];
+
+  // A picked folder prefixes every path with its own name; vault paths (and links) are relative to it
+  const roots = files.map(file => file.path.indexOf('/') !== -1 ? file.path.split('/')[0] : '');
+  const root = roots[0] && roots.every(r => r === roots[0]) ? `${roots[0]}/` : '';
+  if (root) {
+    files = files.map(file => ({ ...file, path: file.path.slice(root.length) }));
+  }
+
+  files.forEach(file => {
+    const extension = extensionOf(file.path);
+    if (format === 'markdown') {
+      // Obsidian keeps its settings and deleted notes inside the vault
+      if (!isMarkdown(file.path) || /(^|\/)\.(obsidian|trash)\//.test(file.path)) return;
+      const item = parseMarkdownNote(file);
+      if (item) items.push(item);
+    } else if (format === 'csv' && extension === 'csv') {
+      items.push(...parseCsvItems(file));
+    } else if (format === 'json' && extension === 'json') {
+      items.push(...parseJsonItems(file));
+    } else if (format === 'chatgpt' && extension === 'json') {
+      items.push(...parseChatGptExport(file));
+    }
+  });
+
+  // Longer notes keep their first part only; the run reports which ones were cut
+  return items.map(item => item.content.length > MAX_CONTENT_LENGTH
+    ? { ...item, content: item.content.slice(0, MAX_CONTENT_LENGTH), truncatedFrom: item.content.length }
+    : item);
+}
+
+/**
+ * One note: front-matter tags, aliases, type, category and dates; inline #tags; wiki-links read
+ * as their display text and kept as links. Empty notes are skipped.
+ */
+export function parseMarkdownNote(file: ImportFile): ImportItem | null {
+  const { attributes, body } = parseFrontMatter(file.content);
+  const title = stringValue(attributes.title) || baseName(file.path);
+
+  const links: string[] = [];
+  const linked = body.replace(new RegExp(WIKI_LINK_PATTERN.source, 'g'), (match, target: string, alias?: string) => {
+    if (target.trim()) links.push(target.trim());
+    // Embeds (![[...]]) show another note or an attachment in place; there's no text to keep
+    return match.charAt(0) === '!' ? '' : (alias || target).trim();
+  });
+
+  const inlineTags: string[] = [];
+  linked.replace(/```[\s\S]*?```|`[^`\n]*`/g, '').replace(new RegExp(INLINE_TAG_PATTERN.source, 'gm'), (match, _lead, tag: string) => {
+    inlineTags.push(tag);
+    return match;
+  });
+
+  const text = stripMarkdown(linked);
+  if (!text) return null;
+
+  const folder = file.path.indexOf('/') !== -1 ? file.path.split('/')[0] : '';
+  return {
+    key: itemKey('markdown', file.path, file.content),
+    path: file.path,
+    content: withTitle(title, text),
+    title,
+    type: memoryType(attributes.type, 'learned_fact'),
+    category: stringValue(attributes.category) || folder || 'notes',
+    tags: uniqueTags(listValue(attributes.tags).concat(listValue(attributes.tag), inlineTags)),
+    links,
+    aliases: listValue(attributes.aliases).concat(listValue(attributes.alias)),
+    createdAt: dateValue(attributes.created || attributes.date || attributes.created_at)
+  };
+}
+
+/**
+ * Records from a JSON array, or from the memories/items/notes/entries array of an object
+ */
+export function parseJsonItems(file: ImportFile): ImportItem[] {
+  const data = JSON.parse(file.content);
+  const records = Array.isArray(data) ? data : data && (data.memories || data.items || data.notes || data.entries);
+  if (!Array.isArray(records)) {
+    throw new Error(`${file.path}: expected an array of records or an object with a "memories" array`);
+  }
+
+  return records
+    .map((record, i) => recordToItem(record, 'json', file.path, i + 1))
+    .filter((item): item is ImportItem => item !== null);
+}
+
+/**
+ * Rows of a CSV with a header row; columns are matched by the same names as JSON fields
+ */
+export function parseCsvItems(file: ImportFile): ImportItem[] {
+  const rows = parseCsv(file.content);
+  if (rows.length < 2) return [];
+
+  const header = rows[0].map(column => column.trim().toLowerCase());
+  return rows.slice(1)
+    .map((row, i) => {
+      const record: Record<string, string> = {};
+      header.forEach((column, c) => {
+        if (row[c] !== undefined) record[column] = row[c];
+      });
+      return recordToItem(record, 'csv', file.path, i + 1);
+    })
+    .filter((item): item is ImportItem => item !== null);
+}
+
+/**
+ * One conversation memory per ChatGPT conversation, following the branch that was shown last
+ */
+export function parseChatGptExport(file: ImportFile): ImportItem[] {
+  const data = JSON.parse(file.content);
+  const conversations: any[] = Array.isArray(data) ? data : [data];
+
+  return conversations
+    .map((conversation, i) => {
+      const messages = chatGptMessages(conversation);
+      if (messages.length === 0) return null;
+
+      const title = stringValue(conversation.title) || 'Untitled conversation';
+      const transcript = messages.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.text}`).join('\n\n');
+      const path = `${file.path}#${conversation.id || conversation.conversation_id || i + 1}`;
+      const item: ImportItem = {
+        key: itemKey('chatgpt', path, transcript),
+        path,
+        content: withTitle(title, transcript),
+        title,
+        type: 'conversation',
+        category: 'chatgpt',
+        tags: ['chatgpt'],
+        links: [],
+        aliases: [],
+        createdAt: dateValue(conversation.create_time)
+      };
+      return item;
+    })
+    .filter((item): item is ImportItem => item !== null);
+}
+
+function chatGptMessages(conversation: any): Array<{ role: string; text: string }> {
+  const mapping: Record<string, any> = (conversation && conversation.mapping) || {};
+
+  // Walk back from the current node; exports without one fall back to every node in time order
+  let nodes: any[] = [];
+  const seen = new Set<string>();
+  let nodeId: string | undefined = conversation && conversation.current_node;
+  while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    nodes.unshift(mapping[nodeId]);
+    nodeId = mapping[nodeId].parent;
+  }
+  if (nodes.length === 0) {
+    nodes = Object.keys(mapping)
+      .map(id => mapping[id])
+      .sort((a, b) => ((a.message && a.message.create_time) || 0) - ((b.message && b.message.create_time) || 0));
+  }
+
+  return nodes
+    .map(node => node && node.message)
+    .filter(message => message && message.author && (message.author.role === 'user' || message.author.role === 'assistant'))
+    .map(message => ({
+      role: message.author.role as string,
+      text: ((message.content && message.content.parts) || [])
+        .filter((part: unknown) => typeof part === 'string')
+        .join('\n')
+        .trim()
+    }))
+    .filter(message => message.text);
+}
+
+function recordToItem(record: any, format: 'json' | 'csv', file: string, index: number): ImportItem | null {
+  if (!record || typeof record !== 'object') return null;
+
+  const body = stringValue(record.content) || stringValue(record.text) || stringValue(record.body)
+    || stringValue(record.note) || stringValue(record.memory);
+  if (!body) return null;
+
+  const title = stringValue(record.title) || stringValue(record.name);
+  const id = stringValue(record.id);
+  const path = `${file}#${id || index}`;
+  return {
+    key: itemKey(format, path, body),
+    path,
+    content: title ? withTitle(title, body) : body,
+    title,
+    type: memoryType(record.type, 'learned_fact'),
+    category: stringValue(record.category) || 'imported',
+    tags: uniqueTags(listValue(record.tags)),
+    links: listValue(record.links || record.related),
+    aliases: id ? [id] : [],
+    createdAt: dateValue(record.createdAt || record.created_at || record.created || record.date || record.timestamp)
+  };
+}
+
+/**
+ * Minimal YAML front matter: scalar values, [inline, lists] and "- item" lists
+ */
+export function parseFrontMatter(markdown: string): { attributes: Record<string, string | string[]>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(markdown);
+  if (!match) return { attributes: {}, body: markdown };
+
+  const attributes: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = /^\s+-\s*(.*)$/.exec(line) || (listKey ? /^-\s*(.*)$/.exec(line) : null);
+    if (item && listKey) {
+      (attributes[listKey] as string[]).push(unquote(item[1]));
+      return;
+    }
+
+    const pair = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/.exec(line);
+    if (!pair) return;
+
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim();
+    listKey = null;
+    if (!value) {
+      attributes[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(value)) {
+      attributes[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      attributes[key] = unquote(value);
+    }
+  });
+
+  return { attributes, body: markdown.slice(match[0].length) };
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (quoted) {
+      if (char === '"' && text.charAt(i + 1) === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text.charAt(i + 1) === '\n') i++;
+      row.push(field);
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+}
+
+function itemKey(format: MemoryImportFormat, path: string, content: string): string {
+  return `${format}:${path}:${ethers.keccak256(ethers.toUtf8Bytes(content)).slice(2, 18)}`;
+}
+
+// Names a link may use for an item: title and aliases, plus file name and path for notes
+function linkNames(item: ImportItem): string[] {
+  const names = isMarkdown(item.path) ? [baseName(item.path), item.path] : [];
+  return names
+    .concat(item.title || '', item.aliases)
+    .filter(Boolean)
+    .map(normalizeLinkName);
+}
+
+function normalizeLinkName(name: string): string {
+  return name.trim().replace(/\.(md|markdown)$/i, '').replace(/\s+/g, ' ').toLowerCase();
+}
+
+function withTitle(title: string, text: string): string {
+  return text.split('\n')[0].trim().toLowerCase() === title.trim().toLowerCase() ? text : `${title}\n\n${text}`;
+}
+
+function memoryType(value: unknown, fallback: MemoryType): MemoryType {
+  return MEMORY_TYPES.indexOf(value as MemoryType) !== -1 ? value as MemoryType : fallback;
+}
+
+function uniqueTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.replace(/^#/, '').trim())
+    .filter(tag => {
+      if (!tag || seen.has(tag.toLowerCase())) return false;
+      seen.add(tag.toLowerCase());
+      return true;
+    });
+}
+
+function stringValue(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function listValue(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(stringValue).filter((entry): entry is string => !!entry);
+  const text = stringValue(value);
+  return text ? text.split(/[,;]/).map(entry => entry.trim()).filter(Boolean) : [];
+}
+
+// ISO date from a date string or a Unix timestamp in seconds or milliseconds
+function dateValue(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const numeric = typeof value === 'number' ? value : /^\d+(\.\d+)?$/.test(String(value)) ? Number(value) : NaN;
+  const date = isNaN(numeric) ? new Date(String(value)) : new Date(numeric < 1e12 ? numeric * 1000 : numeric);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])([\s\S]*)\1$/, '$2');
+}
+
+function baseName(path: string): string {
+  return (path.split('/').pop() || path).replace(/\.[^.]+$/, '');
+}
+
+function extensionOf(path: string): string {
+  return (path.split('.').pop() || '').toLowerCase();
+}
+
+function isMarkdown(path: string): boolean {
+  const extension = extensionOf(path);
+  return extension === 'md' || extension === 'markdown';
+}
+
+// Singleton instance
+let memoryImportInstance: MemoryImportService | null = null;
+
+export function getMemoryImportService(): MemoryImportService {
+  if (!memoryImportInstance) {
+    memoryImportInstance = new MemoryImportService();
+  }
+  return memoryImportInstance;
+}
@@ -0,0 +1,75 @@
+import { MemoryEntry, MemoryType } from '@/types/memory';
+
+/**
+ * Memory Importance - how much a memory is worth keeping and surfacing
+ * Combines what kind of memory it is, how often it is used, how recently it was touched (decaying
+ * with a configurable half-life) and explicit user feedback. Pinned memories always score 1.
+ */
+
+export interface ImportanceScore {
+  score: number; // 0-1
+  factors: {
+    type: number;
+    access: number;
+    recency: number;
+    feedback: number;
+  };
+  pinned: boolean;
+}
+
+// Facts about the user outlive passing conversation
+const TYPE_WEIGHTS: Record<MemoryType, number> = {
+  profile_data: 1,
+  user_preference: 0.9,
+  learned_fact: 0.7,
+  task_outcome: 0.6,
+  workflow: 0.6,
+  multimedia: 0.5,
+  agent_share: 0.4,
+  conversation: 0.3
+};
+
+const FACTOR_WEIGHTS = { type: 0.35, access: 0.2, recency: 0.3, feedback: 0.15 };
+
+const HALF_LIFE_DAYS = Number(process.env.MEMORY_DECAY_HALF_LIFE_DAYS) || 30;
+const ACCESS_SATURATION = 5; // Uses after which access frequency stops adding much
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How much importance can lift a relevance score in retrieval ranking (at most x1.5)
+export const IMPORTANCE_BOOST = 0.5;
+
+export function scoreImportance(memory: MemoryEntry, now: number = Date.now()): ImportanceScore {
+  const metadata = memory.metadata || ({} as MemoryEntry['metadata']);
+  const lastTouched = Math.max(
+    new Date(memory.updatedAt || memory.createdAt).getTime(),
+    metadata.lastAccessedAt ? new Date(metadata.lastAccessedAt).getTime() : 0
+  );
+  const ageDays = Math.max(0, (now - lastTouched) / DAY_MS);
+
+  const factors = {
+    type: TYPE_WEIGHTS[memory.type] ?? 0.5,
+    access: 1 - Math.exp(-(metadata.accessCount || 0) / ACCESS_SATURATION),
+    recency: Math.pow(0.5, ageDays / HALF_LIFE_DAYS),
+    // Neutral 0.5 without votes; each net vote moves it towards 0 or 1
+    feedback: 0.5 + 0.5 * Math.tanh((metadata.feedback || 0) / 2)
+  };
+
+  const pinned = metadata.pinned === true;
+  const weighted = factors.type * FACTOR_WEIGHTS.type
+    + factors.access * FACTOR_WEIGHTS.access
+    + factors.recency * FACTOR_WEIGHTS.recency
+    + factors.feedback * FACTOR_WEIGHTS.feedback;
+
+  return {
+    score: pinned ? 1 : Math.round(weighted * 1000) / 1000,
+    factors,
+    pinned
+  };
+}
+
+/**
+ * Scale a relevance score (similarity, fused rank score) by a memory's importance
+ */
+export function weightByImportance(relevance: number, memory: MemoryEntry, now: number = Date.now()): number {
+  return relevance * (1 + IMPORTANCE_BOOST * scoreImportance(memory, now).score);
+}
@@ -1,6 +1,9 @@
 import { MemoryEntry } from '@/types/memory';
-import { getZGIndexingService, ZGIndexingService } from './0g-indexing-service';
+import { getZGIndexingService, ZGIndexingService, MemoryHash, IndexingResult } from './0g-indexing-service';
 import { getMemoryRegistryConfig } from './contracts/MemoryRegistry';
+import { getMemoryStore } from './memory-store';
+import { createVectorIndex, restoreVectorIndex, VectorIndex, VectorIndexSnapshot } from './vector-index';
+import { weightByImportance } from './memory-importance';
 
 /**
  * Enhanced Memory Indexer - Handles indexing across local storage, 0G Storage, and 0G Chain
@@ -10,9 +13,15 @@ export class MemoryIndexer {
   private static readonly MEMORY_INDEX_KEY = 'og_memory_index';
   private static readonly VECTOR_INDEX_KEY = 'og_vector_index';
   private static readonly INDEX_CONFIG_KEY = 'og_index_config';
+  private static readonly VECTOR_SNAPSHOT_KEY = 'og_vector_index_snapshot';
+  private static readonly STORAGE_ID_MIGRATIONS_KEY = 'og_storage_id_migrations';
+  private static readonly CACHED_MEMORY_KEYS = ['memories', 'walrus_memory_index']; // MemoryService's copies
+  private static readonly SNAPSHOT_DELAY_MS = 1000;
   
   private static zgIndexingService: ZGIndexingService | null = null;
   private static initializationPromise: Promise<void> | null = null;
+  private static annIndex: VectorIndex | null = null;
+  private static snapshotTimer: ReturnType<typeof setTimeout> | null = null;
   
   /**
    * Initialize the indexing service
@@ -69,8 +78,10 @@ export class MemoryIndexer {
 
   /**
    * Add memory to both local and on-chain indices
+   * On-chain indexing runs in the background unless `awaitOnChain` is set; `onChain: false`
+   * leaves it to the caller (e.g. a batched commit)
    */
-  static async addToIndex(memory: MemoryEntry, vector?: number[]): Promise<void> {
+  static async addToIndex(memory: MemoryEntry, vector?: number[], options: { awaitOnChain?: boolean; onChain?: boolean } = {}): Promise<void> {
     try {
       // Always update local indices first (fast)
       this.updateLocalMetadataIndex(memory);
@@ -81,6 +92,13 @@ export class MemoryIndexer {
       
       console.log(`📚 Added memory to local index: ${memory.id.slice(0, 8)}...`);
 
+      if (options.onChain === false) return;
+
+      if (options.awaitOnChain) {
+        await this.addToOnChainIndex(memory, vector);
+        return;
+      }
+
       // Try to add to 0G contract (async, non-blocking)
       this.addToOnChainIndex(memory, vector).catch(error => {
         console.warn('⚠️ Failed to add to on-chain index:', error);
@@ -136,15 +154,9 @@ export class MemoryIndexer {
   }
   
   /**
-   * Update local metadata index (localStorage-based or server-side fallback)
+   * Update local metadata index (localStorage in the browser, file store on the server)
    */
   private static updateLocalMetadataIndex(memory: MemoryEntry): void {
-    if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-      // In server environment, skip local indexing but log the action
-      console.log(`📚 Server environment: Memory ${memory.id.slice(0, 8)}... would be indexed locally`);
-      return;
-    }
-    
     const currentIndex = this.getMetadataIndex();
     const existingIndex = currentIndex.findIndex(m => m.id === memory.id);
     
@@ -154,7 +166,7 @@ export class MemoryIndexer {
       currentIndex.unshift(memory);
     }
     
-    localStorage.setItem(this.MEMORY_INDEX_KEY, JSON.stringify(currentIndex));
+    getMemoryStore().set(this.MEMORY_INDEX_KEY, currentIndex);
     console.log(`📚 Updated metadata index: ${currentIndex.length} memories`);
   }
   
@@ -162,11 +174,15 @@ export class MemoryIndexer {
    * Update local vector index for similarity search
    */
   private static updateLocalVectorIndex(memoryId: string, vector: number[], metadata: MemoryEntry): void {
-    if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-      console.log(`📊 Server environment: Vector for ${memoryId.slice(0, 8)}... would be indexed in vector DB`);
-      return;
+    // Load (or build) the ANN index from the persisted vectors before they change, then keep it in step
+    try {
+      this.getAnnIndex().add(memoryId, vector);
+      this.scheduleSnapshot();
+    } catch (error) {
+      console.warn('⚠️ Failed to insert vector into ANN index, it will be rebuilt on next load:', error);
+      this.annIndex = null;
     }
-    
+
     const vectorIndex = this.getVectorIndex();
     const existingIndex = vectorIndex.findIndex(v => v.id === memoryId);
     
@@ -188,21 +204,81 @@ export class MemoryIndexer {
       vectorIndex.push(vectorEntry);
     }
     
-    localStorage.setItem(this.VECTOR_INDEX_KEY, JSON.stringify(vectorIndex));
+    getMemoryStore().set(this.VECTOR_INDEX_KEY, vectorIndex);
+
     console.log(`📊 Updated vector index: ${vectorIndex.length} vectors`);
   }
+
+  /**
+   * Get the approximate nearest-neighbour index, restoring or rebuilding it on first use.
+   * Once loaded it is kept in step by every insert and removal, so queries never re-read the stored vectors.
+   */
+  private static getAnnIndex(): VectorIndex {
+    if (this.annIndex) {
+      return this.annIndex;
+    }
+
+    const vectorEntries = this.getVectorIndex();
+
+    const vectors = new Map(vectorEntries.map(entry => [entry.id, entry.vector] as [string, number[]]));
+    const dimension = vectorEntries[0]?.vector.length || 1536;
+
+    // Prefer the persisted snapshot when it still covers exactly the stored vectors
+    const snapshot = getMemoryStore().get<VectorIndexSnapshot | null>(this.VECTOR_SNAPSHOT_KEY, null);
+    if (snapshot && snapshot.dimension === dimension) {
+      const restored = restoreVectorIndex(snapshot, vectors);
+      if (restored && restored.size() === vectors.size) {
+        console.log(`📊 Restored ${restored.kind} vector index snapshot: ${restored.size()} vectors`);
+        this.annIndex = restored;
+        return restored;
+      }
+    }
+
+    console.log(`📊 Building vector index from ${vectorEntries.length} stored vectors...`);
+    const index = createVectorIndex(dimension);
+    vectorEntries.forEach(entry => {
+      if (entry.vector?.length === dimension) {
+        index.add(entry.id, entry.vector);
+      }
+    });
+    this.annIndex = index;
+    this.scheduleSnapshot();
+    return index;
+  }
+
+  /**
+   * Persist the ANN index snapshot shortly after the last change
+   */
+  private static scheduleSnapshot(): void {
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
+    }
+
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = null;
+      try {
+        if (this.annIndex) {
+          getMemoryStore().set(this.VECTOR_SNAPSHOT_KEY, this.annIndex.snapshot());
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to persist vector index snapshot:', error);
+      }
+    }, this.SNAPSHOT_DELAY_MS);
+  }
+
+  /**
+   * Get the stored embedding vector for a memory
+   */
+  static getVector(memoryId: string): number[] | undefined {
+    return this.getVectorIndex().find(entry => entry.id === memoryId)?.vector;
+  }
   
   /**
    * Get metadata index
    */
   static getMetadataIndex(): MemoryEntry[] {
     try {
-      if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-        return [];
-      }
-      
-      const index = localStorage.getItem(this.MEMORY_INDEX_KEY);
-      return index ? JSON.parse(index) : [];
+      return getMemoryStore().get<MemoryEntry[]>(this.MEMORY_INDEX_KEY, []);
     } catch (error) {
       console.warn('⚠️ Failed to load metadata index:', error);
       return [];
@@ -214,12 +290,7 @@ export class MemoryIndexer {
    */
   static getVectorIndex(): Array<{id: string, vector: number[], metadata: any}> {
     try {
-      if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-        return [];
-      }
-      
-      const index = localStorage.getItem(this.VECTOR_INDEX_KEY);
-      return index ? JSON.parse(index) : [];
+      return getMemoryStore().get<Array<{id: string, vector: number[], metadata: any}>>(this.VECTOR_INDEX_KEY, []);
     } catch (error) {
       console.warn('⚠️ Failed to load vector index:', error);
       return [];
@@ -227,35 +298,39 @@ export class MemoryIndexer {
   }
   
   /**
-   * Search memories by vector similarity
+   * Search memories by vector similarity, with more important memories ranked higher.
+   * Over-fetches so an important memory just outside the raw top K can still make it in.
    */
   static searchByVector(queryVector: number[], topK: number = 10): MemoryEntry[] {
+    const now = Date.now();
+    return this.searchByVectorWithScores(queryVector, topK * 2)
+      .map(result => ({ memory: result.memory, score: weightByImportance(result.similarity, result.memory, now) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(result => result.memory);
+  }
+
+  /**
+   * Search memories by vector similarity, returning cosine similarity scores
+   */
+  static searchByVectorWithScores(queryVector: number[], topK: number = 10): Array<{ memory: MemoryEntry; similarity: number }> {
     try {
-      const vectorIndex = this.getVectorIndex();
+      const index = this.getAnnIndex();
       
-      if (vectorIndex.length === 0) {
+      if (index.size() === 0) {
         console.log('📊 No vectors in index for similarity search');
         return [];
       }
       
-      // Calculate cosine similarity for each vector
-      const similarities = vectorIndex.map(entry => ({
-        ...entry,
-        similarity: this.cosineSimilarity(queryVector, entry.vector)
-      }));
-      
-      // Sort by similarity and take top K
-      const topResults = similarities
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, topK);
+      const hits = index.search(queryVector, topK);
       
-      console.log(`📊 Vector search: ${topResults.length} results, top similarity: ${topResults[0]?.similarity.toFixed(3)}`);
+      console.log(`📊 Vector search (${index.kind}): ${hits.length} results, top similarity: ${hits[0]?.score.toFixed(3)}`);
       
       // Convert back to MemoryEntry format
-      const metadataIndex = this.getMetadataIndex();
-      return topResults
-        .map(result => metadataIndex.find(m => m.id === result.id))
-        .filter(Boolean) as MemoryEntry[];
+      const metadataById = new Map(this.getMetadataIndex().map(memory => [memory.id, memory] as [string, MemoryEntry]));
+      return hits
+        .filter(hit => metadataById.has(hit.id))
+        .map(hit => ({ memory: metadataById.get(hit.id)!, similarity: hit.score }));
         
     } catch (error) {
       console.warn('⚠️ Vector search failed:', error);
@@ -263,26 +338,6 @@ export class MemoryIndexer {
     }
   }
   
-  /**
-   * Calculate cosine similarity between two vectors
-   */
-  private static cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-    
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-  }
-  
-  
   /**
    * Update index configuration for a memory entry
    */
@@ -294,14 +349,10 @@ export class MemoryIndexer {
     verified?: boolean;
     verifiedAt?: string;
   }): void {
-    if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-      return;
-    }
-
     try {
       const currentConfig = this.getIndexConfig();
       currentConfig[memoryId] = { ...currentConfig[memoryId], ...config };
-      localStorage.setItem(this.INDEX_CONFIG_KEY, JSON.stringify(currentConfig));
+      getMemoryStore().set(this.INDEX_CONFIG_KEY, currentConfig);
     } catch (error) {
       console.warn('⚠️ Failed to update index config:', error);
     }
@@ -312,12 +363,7 @@ export class MemoryIndexer {
    */
   private static getIndexConfig(): Record<string, any> {
     try {
-      if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-        return {};
-      }
-      
-      const config = localStorage.getItem(this.INDEX_CONFIG_KEY);
-      return config ? JSON.parse(config) : {};
+      return getMemoryStore().get<Record<string, any>>(this.INDEX_CONFIG_KEY, {});
     } catch (error) {
       console.warn('⚠️ Failed to load index config:', error);
       return {};
@@ -429,6 +475,199 @@ export class MemoryIndexer {
     }
   }
 
+  /**
+   * Revoke a memory's anchor in the MemoryRegistry contract. Must run before removeFromIndex,
+   * which forgets the contract hash.
+   */
+  static async revokeMemory(memory: MemoryEntry): Promise<IndexingResult> {
+    try {
+      await this.ensureInitialized();
+
+      const contractHash: string | undefined = this.getIndexConfig()[memory.id]?.contractHash
+        || (memory.metadata?.checksum?.startsWith('0x') ? memory.metadata.checksum : undefined);
+      if (!contractHash) {
+        return { success: false, error: 'Memory was never anchored on-chain' };
+      }
+
+      if (!this.zgIndexingService?.isInitialized()) {
+        return { success: false, contractHash, error: 'Blockchain revocation not available' };
+      }
+
+      return await this.zgIndexingService.revokeMemory(contractHash);
+    } catch (error: any) {
+      console.warn('⚠️ Memory revocation failed:', error);
+      return { success: false, error: error?.message || 'Unknown error' };
+    }
+  }
+
+  /**
+   * Every active memory this wallet has committed on-chain
+   */
+  static async getOnChainMemories(): Promise<MemoryHash[]> {
+    try {
+      await this.ensureInitialized();
+      if (!this.zgIndexingService?.isInitialized()) {
+        return [];
+      }
+      return await this.zgIndexingService.getCommittedMemories();
+    } catch (error) {
+      console.warn('⚠️ Failed to list on-chain memories:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Current storage IDs for every memory this wallet has committed on-chain
+   */
+  static async getOnChainStorageIds(): Promise<string[]> {
+    const memories = await this.getOnChainMemories();
+    return memories.map(memory => this.resolveStorageId(memory.zgStorageId));
+  }
+
+  /**
+   * Write a memory recovered from chain/storage into the local indices without re-committing it
+   */
+  static restoreToIndex(memory: MemoryEntry, vector: number[] | undefined, contractHash: string): void {
+    this.updateLocalMetadataIndex(memory);
+
+    if (vector && vector.length > 0) {
+      this.updateLocalVectorIndex(memory.id, vector, memory);
+    }
+
+    this.updateIndexConfig(memory.id, {
+      onChain: true,
+      contractHash,
+      transactionHash: memory.transactionHash,
+      indexedAt: new Date().toISOString(),
+      verified: true,
+      verifiedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Replace a memory's local metadata entry (e.g. after archiving) without touching vectors or chain
+   */
+  static updateMetadata(memory: MemoryEntry): void {
+    this.updateLocalMetadataIndex(memory);
+  }
+
+  /**
+   * Replace a memory's local metadata and vector after its content changed, without touching chain
+   */
+  static updateContent(memory: MemoryEntry, vector?: number[]): void {
+    this.updateLocalMetadataIndex(memory);
+
+    if (vector && vector.length > 0) {
+      this.updateLocalVectorIndex(memory.id, vector, memory);
+    }
+  }
+
+  /**
+   * Point local memories at a re-uploaded blob, in the index and in the memory service's cache
+   */
+  static replaceStorageId(oldStorageId: string, newStorageId: string): void {
+    const store = getMemoryStore();
+
+    [this.MEMORY_INDEX_KEY].concat(this.CACHED_MEMORY_KEYS).forEach(key => {
+      const memories = store.get<MemoryEntry[]>(key, []);
+      let updated = 0;
+
+      memories.forEach(memory => {
+        if (memory.metadata?.blobId === oldStorageId) {
+          memory.metadata.blobId = newStorageId;
+          updated++;
+        }
+        if (memory.ipfsHash === oldStorageId) {
+          memory.ipfsHash = newStorageId;
+          updated++;
+        }
+      });
+
+      if (updated > 0) {
+        store.set(key, memories);
+      }
+    });
+  }
+
+  /**
+   * Move a memory to a re-uploaded blob everywhere: locally and in its on-chain commitment.
+   * When the commitment can't be updated, the mapping is recorded so restores still find the new blob.
+   */
+  static async migrateStorageId(oldStorageId: string, newStorageId: string): Promise<IndexingResult> {
+    this.replaceStorageId(oldStorageId, newStorageId);
+
+    try {
+      await this.ensureInitialized();
+      if (!this.zgIndexingService?.isInitialized()) {
+        throw new Error('Blockchain update not available');
+      }
+
+      const [committed] = await this.zgIndexingService.queryMemories({ zgStorageId: oldStorageId });
+      if (!committed) {
+        return { success: false, error: 'Blob was never anchored on-chain' };
+      }
+
+      const result = await this.zgIndexingService.updateStorageId(committed.hash, newStorageId);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return result;
+    } catch (error: any) {
+      console.warn(`⚠️ On-chain storage ID not updated for ${oldStorageId}, recording the mapping instead:`, error?.message);
+      const migrations = getMemoryStore().get<Record<string, string>>(this.STORAGE_ID_MIGRATIONS_KEY, {});
+      migrations[oldStorageId] = newStorageId;
+      getMemoryStore().set(this.STORAGE_ID_MIGRATIONS_KEY, migrations);
+      return { success: false, error: error?.message || 'Unknown error' };
+    }
+  }
+
+  /**
+   * The current blob for a committed storage ID, following any recorded migrations
+   */
+  static resolveStorageId(storageId: string): string {
+    const migrations = getMemoryStore().get<Record<string, string>>(this.STORAGE_ID_MIGRATIONS_KEY, {});
+    const seen = new Set<string>();
+    let current = storageId;
+    while (migrations[current] && !seen.has(current)) {
+      seen.add(current);
+      current = migrations[current];
+    }
+    return current;
+  }
+
+  /**
+   * Check a memory's content against its committed hash without sending a transaction
+   * Locally indexed memories must hash to the recorded contract hash; every memory
+   * must have that hash committed and active on-chain
+   */
+  static async verifyMemoryContent(memory: MemoryEntry): Promise<boolean> {
+    try {
+      const { ethers } = await import('ethers');
+      const contractHash: string | undefined = this.getIndexConfig()[memory.id]?.contractHash;
+
+      if (contractHash && ethers.keccak256(ethers.toUtf8Bytes(memory.content)) !== contractHash) {
+        console.warn(`⚠️ Content hash mismatch for memory ${memory.id.slice(0, 8)}...`);
+        return false;
+      }
+
+      // Contract-sourced memories are keyed by their committed hash
+      const committedHash = contractHash || (memory.metadata?.checksum?.startsWith('0x') ? memory.metadata.checksum : undefined);
+      if (!committedHash) {
+        return false;
+      }
+
+      await this.ensureInitialized();
+      if (!this.zgIndexingService?.isInitialized()) {
+        return false;
+      }
+
+      return await this.zgIndexingService.isHashCommitted(committedHash);
+    } catch (error) {
+      console.warn('⚠️ Memory content verification failed:', error);
+      return false;
+    }
+  }
+
   /**
    * Get comprehensive index statistics (local + on-chain)
    */
@@ -479,14 +718,15 @@ export class MemoryIndexer {
 
   /**
    * Batch index multiple memories on-chain
+   * Returns one result per memory, or none when on-chain indexing isn't available
    */
-  static async batchIndexOnChain(memories: MemoryEntry[]): Promise<void> {
+  static async batchIndexOnChain(memories: MemoryEntry[]): Promise<IndexingResult[]> {
     try {
       await this.ensureInitialized();
       
       if (!this.zgIndexingService?.isInitialized()) {
         console.log('🔗 0G indexing service not available for batch indexing');
-        return;
+        return [];
       }
 
       console.log(`📦 Batch indexing ${memories.length} memories on-chain...`);
@@ -507,9 +747,11 @@ export class MemoryIndexer {
 
       const successCount = results.filter(r => r.success).length;
       console.log(`✅ Batch indexed ${successCount}/${memories.length} memories on-chain`);
+      return results;
 
-    } catch (error) {
+    } catch (error: any) {
       console.error('❌ Batch indexing failed:', error);
+      return memories.map(() => ({ success: false, error: error?.message || 'Batch indexing failed' }));
     }
   }
 
@@ -550,24 +792,22 @@ export class MemoryIndexer {
       // Remove from metadata index
       const metadataIndex = this.getMetadataIndex();
       const updatedMetadata = metadataIndex.filter(entry => entry.id !== memoryId);
-      if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
-        localStorage.setItem(this.MEMORY_INDEX_KEY, JSON.stringify(updatedMetadata));
-      }
+      getMemoryStore().set(this.MEMORY_INDEX_KEY, updatedMetadata);
       
       // Remove from vector index
       const vectorIndex = this.getVectorIndex();
       const updatedVectors = vectorIndex.filter(entry => entry.id !== memoryId);
-      if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
-        localStorage.setItem(this.VECTOR_INDEX_KEY, JSON.stringify(updatedVectors));
+      getMemoryStore().set(this.VECTOR_INDEX_KEY, updatedVectors);
+      if (this.annIndex?.has(memoryId)) {
+        this.annIndex.remove(memoryId);
+        this.scheduleSnapshot();
       }
       
       // Remove from index config
       const indexConfig = this.getIndexConfig();
       if (indexConfig[memoryId]) {
         delete indexConfig[memoryId];
-        if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
-          localStorage.setItem(this.INDEX_CONFIG_KEY, JSON.stringify(indexConfig));
-        }
+        getMemoryStore().set(this.INDEX_CONFIG_KEY, indexConfig);
       }
       
       console.log(`✅ Memory removed from all local indices: ${memoryId}`);
@@ -1,5 +1,7 @@
 import { OpenAI } from 'openai';
-import { getOGStorage, OGStorageService, OGEmbeddingResult } from './0g-storage';
+import { getOGStorage, OGStorageService, OGEmbeddingResult, MemoryScoreBreakdown } from './0g-storage';
+import { getConversationIndex, ConversationIndex, ConversationIndexEntry } from './conversation-index';
+import { MemoryIndexer } from './memory-indexer';
 
 interface EmbeddingMetadata {
   conversationId: string;
@@ -10,12 +12,22 @@ interface EmbeddingMetadata {
   contentHash: string;
 }
 
-interface MemoryQuery {
+export type MemoryRankingMode = 'semantic' | 'hybrid';
+
+export interface MemoryRankingWeights {
+  semantic: number;
+  recency: number;
+  tags: number;
+}
+
+export interface MemoryQuery {
   query: string;
   agentId?: string;
   tags?: string[];
   limit?: number;
   threshold?: number;
+  ranking?: MemoryRankingMode;
+  weights?: Partial<MemoryRankingWeights>;
 }
 
 interface MemoryManagerConfig {
@@ -23,10 +35,14 @@ interface MemoryManagerConfig {
   embeddingModel: string;
   maxVectorSize: number;
   similarityThreshold: number;
+  rankingWeights: MemoryRankingWeights;
+  recencyHalfLifeDays: number;
+  candidateMultiplier: number;
 }
 
 export class MemoryManager {
   private ogStorage: OGStorageService;
+  private conversationIndex: ConversationIndex = getConversationIndex();
   private openai: OpenAI | null = null;
   private config: MemoryManagerConfig;
 
@@ -37,7 +53,10 @@ export class MemoryManager {
       openaiApiKey: process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY || '',
       embeddingModel: 'text-embedding-3-small',
       maxVectorSize: 1536,
-      similarityThreshold: 0.7,
+      similarityThreshold: 0.35, // Embedding similarities for related text sit well below 0.7
+      rankingWeights: { semantic: 0.7, recency: 0.2, tags: 0.1 },
+      recencyHalfLifeDays: 30,
+      candidateMultiplier: 4,
       ...config
     };
   }
@@ -118,6 +137,18 @@ export class MemoryManager {
         embeddingMetadata
       );
 
+      // Keep the conversation/agent index pointing at the new blob
+      this.conversationIndex.add({
+        storageId: result.storageId,
+        conversationId,
+        agentId: metadata.agentId,
+        timestamp: embeddingMetadata.timestamp,
+        tags: metadata.tags,
+        contentHash: result.metadata.contentHash,
+        explorerUrl: result.explorerUrl,
+        transactionHash: result.transactionHash
+      });
+
       console.log(`✅ Embedding stored successfully:`, {
         conversationId,
         storageId: result.storageId,
@@ -138,10 +169,13 @@ export class MemoryManager {
       // Generate embedding for the query
       const queryVector = await this.generateEmbedding(query.query);
 
-      // Query 0G Storage for similar embeddings
+      const limit = query.limit || 10;
+      const threshold = query.threshold ?? this.config.similarityThreshold;
+
+      // Over-fetch so agent/tag/threshold filtering still leaves enough candidates
       const results = await this.ogStorage.queryEmbedding(
         queryVector,
-        query.limit || 10
+        limit * this.config.candidateMultiplier
       );
 
       // Filter results based on agent ID and tags if specified
@@ -159,12 +193,14 @@ export class MemoryManager {
         );
       }
 
-      // Sort by similarity (this would be done by 0G Storage in a real implementation)
-      filteredResults.sort((a, b) => {
-        // In a real implementation, 0G Storage would return similarity scores
-        // For now, we'll use a simple heuristic
-        return b.metadata.timestamp.localeCompare(a.metadata.timestamp);
-      });
+      // Drop anything below the similarity threshold
+      filteredResults = filteredResults.filter(result => (result.similarity ?? 0) >= threshold);
+
+      // Score and rank the remaining candidates
+      filteredResults = filteredResults
+        .map(result => ({ ...result, score: this.scoreResult(result, query) }))
+        .sort((a, b) => b.score.combined - a.score.combined)
+        .slice(0, limit);
 
       console.log(`✅ Retrieved ${filteredResults.length} memory results`);
       return filteredResults;
@@ -174,26 +210,161 @@ export class MemoryManager {
     }
   }
 
+  private scoreResult(result: OGEmbeddingResult, query: MemoryQuery): MemoryScoreBreakdown {
+    const semantic = result.similarity ?? 0;
+
+    if (query.ranking !== 'hybrid') {
+      return { semantic, recency: 0, tagBoost: 0, combined: semantic };
+    }
+
+    const defaults = this.config.rankingWeights;
+    const weights: MemoryRankingWeights = {
+      semantic: query.weights?.semantic ?? defaults.semantic,
+      recency: query.weights?.recency ?? defaults.recency,
+      tags: query.weights?.tags ?? defaults.tags
+    };
+    const totalWeight = weights.semantic + weights.recency + weights.tags;
+
+    const ageMs = Date.now() - new Date(result.metadata.timestamp).getTime();
+    const ageDays = Number.isFinite(ageMs) ? Math.max(0, ageMs) / (24 * 60 * 60 * 1000) : Infinity;
+    const recency = Math.pow(0.5, ageDays / this.config.recencyHalfLifeDays);
+
+    const queryTags = query.tags || [];
+    const tagBoost = queryTags.length > 0
+      ? queryTags.filter(tag => result.metadata.tags.includes(tag)).length / queryTags.length
+      : 0;
+
+    const combined = totalWeight > 0
+      ? (weights.semantic * semantic + weights.recency * recency + weights.tags * tagBoost) / totalWeight
+      : semantic;
+
+    return { semantic, recency, tagBoost, combined };
+  }
+
   async getMemoryByConversation(conversationId: string): Promise<OGEmbeddingResult[]> {
     try {
       console.log(`📖 Retrieving memory for conversation: ${conversationId}`);
 
-      // In a real implementation, this would query 0G Storage with conversation ID filter
-      // For now, we'll return empty array as this would require indexing
-      console.log('⚠️ Conversation-based retrieval requires indexing implementation');
-      return [];
+      const entries = this.conversationIndex.getByConversation(conversationId);
+
+      const results = await this.hydrateEntries(entries);
+      console.log(`✅ Retrieved ${results.length} memories for conversation ${conversationId}`);
+      return results;
     } catch (error) {
       console.error('❌ Failed to get memory by conversation:', error);
       throw new Error(`Conversation memory retrieval failed: ${error?.message}`);
     }
   }
 
+  async getMemoryByAgent(agentId: string, limit?: number): Promise<OGEmbeddingResult[]> {
+    try {
+      console.log(`📖 Retrieving memory for agent: ${agentId}`);
+
+      const entries = this.conversationIndex.getByAgent(agentId);
+
+      const results = await this.hydrateEntries(limit ? entries.slice(0, limit) : entries);
+      console.log(`✅ Retrieved ${results.length} memories for agent ${agentId}`);
+      return results;
+    } catch (error: any) {
+      console.error('❌ Failed to get memory by agent:', error);
+      throw new Error(`Agent memory retrieval failed: ${error?.message}`);
+    }
+  }
+
+  /**
+   * Rebuild the conversation/agent index from decentralized storage
+   * Storage IDs come from the on-chain registry and the local memory index; each blob
+   * is downloaded and decrypted to recover its conversation and agent. Run by restore and
+   * migration only: lookups never trigger it, so an unknown ID cannot start a full scan.
+   */
+  async rebuildConversationIndex(): Promise<number> {
+    console.log('🔄 Rebuilding conversation index from decentralized storage...');
+
+    const storageIds = new Set<string>(await MemoryIndexer.getOnChainStorageIds());
+    MemoryIndexer.getMetadataIndex().forEach(memory => {
+      const storageId = memory.metadata?.blobId || memory.ipfsHash;
+      if (storageId && storageId !== memory.id) {
+        storageIds.add(storageId);
+      }
+    });
+
+    let added = 0;
+    for (const storageId of Array.from(storageIds)) {
+      if (this.conversationIndex.has(storageId)) continue;
+
+      const result = await this.ogStorage.retrieveEmbedding(storageId);
+      if (!result) continue;
+
+      this.conversationIndex.add({
+        storageId,
+        conversationId: result.metadata.conversationId,
+        agentId: result.metadata.agentId,
+        timestamp: result.metadata.timestamp,
+        tags: result.metadata.tags,
+        contentHash: result.metadata.contentHash
+      });
+      added++;
+    }
+
+    this.conversationIndex.markRebuilt();
+    console.log(`✅ Conversation index rebuilt: ${added} new entries from ${storageIds.size} blobs`);
+    return added;
+  }
+
+  /**
+   * Re-encrypt every indexed blob still using the legacy CryptoJS format or v1 envelope
+   */
+  async migrateLegacyEmbeddings(): Promise<{ checked: number; migrated: number }> {
+    await this.rebuildConversationIndex();
+    const entries = this.conversationIndex.getAll();
+    let migrated = 0;
+
+    for (const entry of entries) {
+      try {
+        const result = await this.ogStorage.migrateEmbedding(entry.storageId);
+        if (!result) continue;
+
+        this.conversationIndex.remove(entry.storageId);
+        this.conversationIndex.add({
+          ...entry,
+          storageId: result.storageId,
+          explorerUrl: result.explorerUrl,
+          transactionHash: result.transactionHash
+        });
+        await MemoryIndexer.migrateStorageId(entry.storageId, result.storageId);
+        migrated++;
+      } catch (error: any) {
+        console.warn(`⚠️ Failed to migrate embedding ${entry.storageId}:`, error?.message);
+      }
+    }
+
+    console.log(`✅ Encryption migration: ${migrated}/${entries.length} blobs re-encrypted`);
+    return { checked: entries.length, migrated };
+  }
+
+  private async hydrateEntries(entries: ConversationIndexEntry[]): Promise<OGEmbeddingResult[]> {
+    const results = await Promise.all(entries.map(async (entry): Promise<OGEmbeddingResult | null> => {
+      const result = await this.ogStorage.retrieveEmbedding(entry.storageId);
+      if (!result) {
+        console.warn(`⚠️ Could not rehydrate blob ${entry.storageId}`);
+        return null;
+      }
+      return {
+        ...result,
+        explorerUrl: entry.explorerUrl,
+        transactionHash: entry.transactionHash
+      };
+    }));
+
+    return results.filter((result): result is OGEmbeddingResult => result !== null);
+  }
+
   async verifyMemoryIntegrity(embeddingResult: OGEmbeddingResult): Promise<boolean> {
     try {
       console.log(`🔍 Verifying memory integrity for: ${embeddingResult.storageId}`);
 
       // Generate hash of the content and compare with stored hash
-      const currentHash = await this.generateContentHash(embeddingResult.metadata.content);
+      const currentHash = await this.generateContentHash(embeddingResult.metadata.content || '');
       const isValid = currentHash === embeddingResult.metadata.contentHash;
 
       if (!isValid) {
@@ -248,6 +419,8 @@ export class MemoryManager {
         embeddingModel: this.config.embeddingModel,
         maxVectorSize: this.config.maxVectorSize,
         similarityThreshold: this.config.similarityThreshold,
+        rankingWeights: this.config.rankingWeights,
+        conversationIndex: this.conversationIndex.getStats(),
         lastUpdated: new Date().toISOString()
       };
     } catch (error) {
@@ -0,0 +1,242 @@
+import { ethers } from 'ethers';
+import { MemoryEntry, AccessPolicy } from '@/types/memory';
+import { getOGStorage, OGStorageService } from './0g-storage';
+import { MemoryHash, memoryTypeFromContentType } from './0g-indexing-service';
+import { getKeyManagementService, KeyManagementService } from './key-management';
+import { getConversationIndex } from './conversation-index';
+import { getMemoryStore, MemoryStore } from './memory-store';
+import { MemoryIndexer } from './memory-indexer';
+import { getMemoryConsolidationService } from './memory-consolidation';
+import { getMemoryManager } from './memory-manager';
+import { getMemoryService } from './memory-service';
+
+export interface RestoreFailure {
+  hash: string;
+  storageId: string;
+  error: string;
+}
+
+export interface RestoreProgress {
+  status: 'idle' | 'running' | 'completed' | 'failed';
+  startedAt?: string;
+  updatedAt?: string;
+  completedAt?: string;
+  total: number;
+  restored: number;
+  skipped: number; // Already restored by an earlier, interrupted run
+  failed: RestoreFailure[];
+  processedHashes: string[];
+  error?: string;
+}
+
+export interface RestoreOptions {
+  password?: string; // Master password used when the blobs were written
+  resume?: boolean; // Continue an interrupted run instead of starting over (default true)
+  onProgress?: (progress: RestoreProgress) => void;
+}
+
+/**
+ * Memory Restore - Rebuilds the local metadata, vector and conversation indices from chain
+ * Enumerates the wallet's MemoryRegistry entries, downloads and decrypts each blob, and
+ * checks the content against the committed hash before indexing it
+ */
+export class MemoryRestoreService {
+  private static readonly STATE_KEY = 'og_restore_state';
+  private store: MemoryStore = getMemoryStore();
+  private ogStorage: OGStorageService = getOGStorage();
+  private keyManagement = getKeyManagementService();
+  private conversationIndex = getConversationIndex();
+  private activeRun: Promise<RestoreProgress> | null = null;
+
+  getProgress(): RestoreProgress {
+    return this.store.get<RestoreProgress>(MemoryRestoreService.STATE_KEY, {
+      status: 'idle',
+      total: 0,
+      restored: 0,
+      skipped: 0,
+      failed: [],
+      processedHashes: []
+    });
+  }
+
+  isRunning(): boolean {
+    return this.activeRun !== null;
+  }
+
+  /**
+   * Start (or join) a restore run. Concurrent callers share the same run.
+   */
+  restoreFromChain(options: RestoreOptions = {}): Promise<RestoreProgress> {
+    if (!this.activeRun) {
+      this.activeRun = this.run(options).finally(() => {
+        this.activeRun = null;
+      });
+    }
+    return this.activeRun;
+  }
+
+  private async run(options: RestoreOptions): Promise<RestoreProgress> {
+    const previous = this.getProgress();
+    const resuming = options.resume !== false && previous.status !== 'completed' && previous.processedHashes.length > 0;
+    const now = new Date().toISOString();
+
+    // Failed entries are retried on resume, so only successful hashes carry over
+    const progress: RestoreProgress = resuming
+      ? { ...previous, status: 'running', updatedAt: now, failed: [], error: undefined }
+      : { status: 'running', startedAt: now, updatedAt: now, total: 0, restored: 0, skipped: 0, failed: [], processedHashes: [] };
+
+    const report = () => {
+      progress.updatedAt = new Date().toISOString();
+      this.store.set(MemoryRestoreService.STATE_KEY, progress);
+      options.onProgress?.(progress);
+    };
+
+    let keyManagement: KeyManagementService = this.keyManagement;
+
+    try {
+      console.log(`🔄 ${resuming ? 'Resuming' : 'Starting'} restore from chain...`);
+
+      // A password from the caller only decrypts this run's blobs; it never replaces the session's master key
+      if (options.password) {
+        keyManagement = new KeyManagementService({ usePasswordDerivation: true });
+        await keyManagement.initializeWithPassword(options.password);
+      } else {
+        await keyManagement.ensureInitialized();
+      }
+      await this.ogStorage.initialize();
+
+      const records = await MemoryIndexer.getOnChainMemories();
+      const processed = new Set(progress.processedHashes);
+      progress.total = records.length;
+      progress.skipped = records.filter(record => processed.has(record.hash)).length;
+      report();
+
+      console.log(`📊 Found ${records.length} memories on-chain (${progress.skipped} already restored)`);
+
+      for (const record of records) {
+        if (processed.has(record.hash)) continue;
+
+        try {
+          await this.restoreRecord(record, keyManagement);
+          progress.restored++;
+          progress.processedHashes.push(record.hash);
+          processed.add(record.hash);
+        } catch (error: any) {
+          console.warn(`⚠️ Failed to restore memory ${record.hash.slice(0, 10)}...:`, error?.message);
+          progress.failed.push({
+            hash: record.hash,
+            storageId: record.zgStorageId,
+            error: error?.message || 'Unknown error'
+          });
+        }
+        report();
+      }
+
+      // Sources of consolidation summaries come back unarchived; re-apply from the summaries' anchors
+      getMemoryConsolidationService().reconcileArchived();
+
+      // The relationship graph only lives in the local store; rebuild it over the restored memories
+      try {
+        const memoryService = getMemoryService();
+        await memoryService.initialize();
+        memoryService.rebuildMemoryGraph();
+      } catch (graphError: any) {
+        console.warn('⚠️ Failed to rebuild memory graph after restore:', graphError?.message);
+      }
+
+      // Blobs known only to the local memory index are not on-chain; index their conversations too
+      try {
+        await getMemoryManager().rebuildConversationIndex();
+      } catch (indexError: any) {
+        console.warn('⚠️ Failed to rebuild conversation index after restore:', indexError?.message);
+      }
+
+      progress.status = 'completed';
+      progress.completedAt = new Date().toISOString();
+      report();
+
+      console.log(`✅ Restore completed: ${progress.restored} restored, ${progress.skipped} skipped, ${progress.failed.length} failed`);
+      return progress;
+    } catch (error: any) {
+      console.error('❌ Restore from chain failed:', error);
+      progress.status = 'failed';
+      progress.error = error?.message || 'Unknown error';
+      report();
+      return progress;
+    } finally {
+      if (keyManagement !== this.keyManagement) {
+        keyManagement.clearSession();
+      }
+    }
+  }
+
+  private async restoreRecord(record: MemoryHash, keyManagement: KeyManagementService): Promise<MemoryEntry> {
+    // Blobs re-uploaded by an encryption migration whose commitment couldn't be updated
+    const storageId = MemoryIndexer.resolveStorageId(record.zgStorageId);
+    const embedding = await this.ogStorage.retrieveEmbedding(storageId, keyManagement);
+    if (!embedding) {
+      throw new Error(`Blob ${storageId} could not be retrieved or decrypted`);
+    }
+
+    const content = embedding.metadata.content || '';
+    if (ethers.keccak256(ethers.toUtf8Bytes(content)) !== record.hash) {
+      throw new Error('Content hash does not match the on-chain commitment');
+    }
+
+    let onChainMetadata: { category?: string; agentId?: string; createdAt?: string; encrypted?: boolean; relatedMemories?: string[] } = {};
+    try {
+      onChainMetadata = JSON.parse(record.metadata);
+    } catch {
+      // Older commitments stored a plain-text title
+    }
+
+    const createdAt = new Date(onChainMetadata.createdAt || Number(record.timestamp) * 1000);
+    const memory: MemoryEntry = {
+      id: embedding.metadata.conversationId,
+      content,
+      type: memoryTypeFromContentType(record.contentType),
+      category: onChainMetadata.category || 'conversation',
+      tags: record.tags.length > 0 ? Array.from(record.tags) : embedding.metadata.tags,
+      createdAt,
+      updatedAt: createdAt,
+      encrypted: onChainMetadata.encrypted ?? true,
+      accessPolicy: {
+        owner: onChainMetadata.agentId || embedding.metadata.agentId,
+        permissions: []
+      } as AccessPolicy,
+      metadata: {
+        size: content.length,
+        checksum: record.hash,
+        version: 1,
+        relatedMemories: onChainMetadata.relatedMemories || [],
+        encryptionKeyId: embedding.encryption?.keyId,
+        encryptionSalt: embedding.encryption?.salt,
+        blobId: storageId
+      },
+      ipfsHash: storageId
+    };
+
+    MemoryIndexer.restoreToIndex(memory, embedding.vector, record.hash);
+    this.conversationIndex.add({
+      storageId,
+      conversationId: embedding.metadata.conversationId,
+      agentId: embedding.metadata.agentId,
+      timestamp: embedding.metadata.timestamp,
+      tags: embedding.metadata.tags,
+      contentHash: embedding.metadata.contentHash
+    });
+
+    console.log(`✅ Restored memory ${memory.id.slice(0, 8)}... from ${storageId}`);
+    return memory;
+  }
+}
+
+// Singleton instance
+let memoryRestoreInstance: MemoryRestoreService | null = null;
+
+export function getMemoryRestoreService(): MemoryRestoreService {
+  if (!memoryRestoreInstance) {
+    memoryRestoreInstance = new MemoryRestoreService();
+  }
+  return memoryRestoreInstance;
+}
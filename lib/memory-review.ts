@@ -0,0 +1,302 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MemoryEntry, MemoryProvenance, MemoryReviewAction, MemoryReviewSettings, MemoryType, ProposedMemory, ProposedMemoryStatus } from '@/types/memory';
+import { getMemoryService, MemoryService } from './memory-service';
+import { getMemoryStore, MemoryStore } from './memory-store';
+
+/**
+ * Memory Review - memories the agent extracts from a conversation are only proposed. Nothing is
+ * encrypted, uploaded or anchored until the user approves it (optionally after editing) or a
+ * per-category rule approves it automatically. Proposals never leave this device.
+ */
+
+export interface ProposalInput {
+  content: string;
+  type: MemoryType;
+  category: string;
+  tags: string[];
+  confidence?: number;
+  provenance?: MemoryProvenance;
+}
+
+export type ProposalEdits = Partial<Pick<ProposedMemory, 'content' | 'type' | 'category' | 'tags'>>;
+
+const REVIEW_ACTIONS: MemoryReviewAction[] = ['approve', 'review'];
+const MEMORY_TYPES: MemoryType[] = ['conversation', 'learned_fact', 'user_preference', 'task_outcome', 'multimedia', 'workflow', 'agent_share', 'profile_data'];
+
+export class MemoryReviewQueue {
+  private static readonly PROPOSALS_KEY = 'og_memory_proposals';
+  private static readonly SETTINGS_KEY = 'og_memory_review_settings';
+  private static readonly MAX_REVIEWED = 100; // Reviewed proposals kept as history
+  private static readonly DEFAULTS: MemoryReviewSettings = { defaultAction: 'review', categories: {} };
+  private store: MemoryStore;
+  private approving = new Set<string>(); // Proposals whose memory is being stored right now
+
+  constructor(store: MemoryStore = getMemoryStore()) {
+    this.store = store;
+  }
+
+  getSettings(): MemoryReviewSettings {
+    const settings = this.store.get<Partial<MemoryReviewSettings>>(MemoryReviewQueue.SETTINGS_KEY, {});
+    return {
+      defaultAction: settings.defaultAction || MemoryReviewQueue.DEFAULTS.defaultAction,
+      categories: { ...settings.categories }
+    };
+  }
+
+  /**
+   * Replace the auto-approve rules. Throws on an unknown action.
+   */
+  setSettings(settings: Partial<MemoryReviewSettings>): MemoryReviewSettings {
+    const next: MemoryReviewSettings = {
+      defaultAction: settings.defaultAction ?? MemoryReviewQueue.DEFAULTS.defaultAction,
+      categories: { ...settings.categories }
+    };
+
+    if (REVIEW_ACTIONS.indexOf(next.defaultAction) === -1) {
+      throw new Error(`Invalid review settings: unknown defaultAction "${next.defaultAction}"`);
+    }
+    Object.keys(next.categories).forEach(category => {
+      if (REVIEW_ACTIONS.indexOf(next.categories[category]) === -1) {
+        throw new Error(`Invalid review settings: unknown action "${next.categories[category]}" for "${category}"`);
+      }
+    });
+
+    this.store.set(MemoryReviewQueue.SETTINGS_KEY, next);
+    console.log(`📋 Saved memory review settings (default: ${next.defaultAction}, ${Object.keys(next.categories).length} category rules)`);
+    return next;
+  }
+
+  actionFor(category: string): MemoryReviewAction {
+    const settings = this.getSettings();
+    return settings.categories[category] || settings.defaultAction;
+  }
+
+  /**
+   * Proposals, newest first
+   */
+  list(status?: ProposedMemoryStatus): ProposedMemory[] {
+    return this.loadProposals()
+      .filter(proposal => !status || proposal.status === status)
+      .sort((a, b) => b.proposedAt.localeCompare(a.proposedAt));
+  }
+
+  get(proposalId: string): ProposedMemory | null {
+    return this.loadProposals().find(proposal => proposal.id === proposalId) || null;
+  }
+
+  /**
+   * Queue memories extracted from one conversation turn. Those in auto-approved categories are
+   * stored straight away; the rest wait for the user.
+   */
+  async propose(
+    items: ProposalInput[],
+    conversationId: string = uuidv4(),
+    memoryService: MemoryService = getMemoryService()
+  ): Promise<ProposedMemory[]> {
+    const proposedAt = new Date().toISOString();
+    const proposals: ProposedMemory[] = items.map(item => ({
+      id: uuidv4(),
+      content: item.content,
+      type: item.type,
+      category: item.category,
+      tags: item.tags,
+      confidence: item.confidence,
+      conversationId,
+      provenance: item.provenance,
+      status: 'pending',
+      proposedAt
+    }));
+
+    this.saveProposals(this.loadProposals().concat(proposals));
+    console.log(`📝 Proposed ${proposals.length} memories for review`);
+
+    const results: ProposedMemory[] = [];
+    for (const proposal of proposals) {
+      if (this.actionFor(proposal.category) === 'approve') {
+        results.push(await this.commit(proposal, {}, 'auto', memoryService));
+      } else {
+        results.push(proposal);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Approve a pending proposal, optionally with edits, and store it as a memory
+   */
+  async approve(proposalId: string, edits: ProposalEdits = {}, memoryService: MemoryService = getMemoryService()): Promise<ProposedMemory> {
+    const proposal = this.requirePending(proposalId);
+    validateEdits(edits);
+    return this.commit(proposal, edits, 'user', memoryService);
+  }
+
+  /**
+   * Reject a pending proposal; nothing is stored and its content is discarded, only the decision is kept
+   */
+  reject(proposalId: string): ProposedMemory {
+    const proposal = this.requirePending(proposalId);
+    const rejected = this.update(proposal.id, {
+      content: '',
+      tags: [],
+      status: 'rejected',
+      reviewedAt: new Date().toISOString(),
+      reviewedBy: 'user'
+    });
+    console.log(`🚫 Rejected proposed memory ${proposal.id.slice(0, 8)}...`);
+    return rejected;
+  }
+
+  /**
+   * Proposals that became the given memory
+   */
+  listForMemory(memoryId: string): ProposedMemory[] {
+    return this.loadProposals().filter(proposal => proposal.memoryId === memoryId);
+  }
+
+  /**
+   * Drop the proposals a deleted memory was approved from, since they hold its content.
+   * Returns the number removed.
+   */
+  purgeMemory(memoryId: string): number {
+    const proposals = this.loadProposals();
+    const remaining = proposals.filter(proposal => proposal.memoryId !== memoryId);
+    if (remaining.length !== proposals.length) {
+      this.saveProposals(remaining);
+    }
+    return proposals.length - remaining.length;
+  }
+
+  private async commit(
+    proposal: ProposedMemory,
+    edits: ProposalEdits,
+    reviewedBy: 'auto' | 'user',
+    memoryService: MemoryService
+  ): Promise<ProposedMemory> {
+    // Claimed before the first await, so a second approve or a reject can't race this one
+    this.approving.add(proposal.id);
+    try {
+      return await this.storeProposal(proposal, edits, reviewedBy, memoryService);
+    } finally {
+      this.approving.delete(proposal.id);
+    }
+  }
+
+  private async storeProposal(
+    proposal: ProposedMemory,
+    edits: ProposalEdits,
+    reviewedBy: 'auto' | 'user',
+    memoryService: MemoryService
+  ): Promise<ProposedMemory> {
+    const reviewed = {
+      content: edits.content !== undefined ? edits.content.trim() : proposal.content,
+      type: edits.type || proposal.type,
+      category: edits.category || proposal.category,
+      tags: edits.tags || proposal.tags
+    };
+    const edited = reviewed.content !== proposal.content
+      || reviewed.type !== proposal.type
+      || reviewed.category !== proposal.category
+      || reviewed.tags.join(',') !== proposal.tags.join(',');
+
+    const memory: MemoryEntry = await memoryService.createMemory({
+      ...reviewed,
+      encrypted: true,
+      accessPolicy: {
+        owner: 'local-user',
+        permissions: []
+      },
+      metadata: {
+        size: reviewed.content.length,
+        checksum: '',
+        version: 1,
+        relatedMemories: [],
+        confidence: proposal.confidence,
+        conversationId: proposal.conversationId,
+        provenance: proposal.provenance
+      }
+    });
+
+    const approved = this.update(proposal.id, {
+      ...reviewed,
+      status: 'approved',
+      reviewedAt: new Date().toISOString(),
+      reviewedBy,
+      edited: edited || undefined,
+      memoryId: memory.id
+    });
+    console.log(`✅ ${reviewedBy === 'auto' ? 'Auto-approved' : 'Approved'} proposed memory ${proposal.id.slice(0, 8)}... as ${memory.id.slice(0, 8)}...`);
+    return approved;
+  }
+
+  private requirePending(proposalId: string): ProposedMemory {
+    const proposal = this.get(proposalId);
+    if (!proposal) {
+      throw new Error(`Proposed memory not found: ${proposalId}`);
+    }
+    if (proposal.status !== 'pending') {
+      throw new Error(`Proposed memory ${proposalId} was already ${proposal.status}`);
+    }
+    if (this.approving.has(proposalId)) {
+      throw new Error(`Proposed memory ${proposalId} is already being approved`);
+    }
+    return proposal;
+  }
+
+  private update(proposalId: string, changes: Partial<Omit<ProposedMemory, 'id'>>): ProposedMemory {
+    const proposals = this.loadProposals();
+    const index = proposals.findIndex(proposal => proposal.id === proposalId);
+    if (index === -1) {
+      throw new Error(`Proposed memory not found: ${proposalId}`);
+    }
+
+    proposals[index] = { ...proposals[index], ...changes };
+    this.saveProposals(proposals);
+    return proposals[index];
+  }
+
+  private loadProposals(): ProposedMemory[] {
+    return this.store.get<ProposedMemory[]>(MemoryReviewQueue.PROPOSALS_KEY, []);
+  }
+
+  /**
+   * Pending proposals are always kept; reviewed ones only up to MAX_REVIEWED, newest first
+   */
+  private saveProposals(proposals: ProposedMemory[]): void {
+    const pending = proposals.filter(proposal => proposal.status === 'pending');
+    const reviewed = proposals
+      .filter(proposal => proposal.status !== 'pending')
+      .sort((a, b) => (b.reviewedAt || '').localeCompare(a.reviewedAt || ''))
+      .slice(0, MemoryReviewQueue.MAX_REVIEWED);
+    this.store.set(MemoryReviewQueue.PROPOSALS_KEY, pending.concat(reviewed));
+  }
+}
+
+function validateEdits(edits: ProposalEdits): void {
+  if (edits.content !== undefined) {
+    if (typeof edits.content !== 'string') {
+      throw new Error('Invalid edits: content must be a string');
+    }
+    if (!edits.content.trim()) {
+      throw new Error('Proposed memory content cannot be empty');
+    }
+  }
+  if (edits.type !== undefined && MEMORY_TYPES.indexOf(edits.type) === -1) {
+    throw new Error(`Invalid edits: unknown memory type "${edits.type}"`);
+  }
+  if (edits.category !== undefined && (typeof edits.category !== 'string' || !edits.category.trim())) {
+    throw new Error('Invalid edits: category must be a non-empty string');
+  }
+  if (edits.tags !== undefined && (!Array.isArray(edits.tags) || edits.tags.some(tag => typeof tag !== 'string'))) {
+    throw new Error('Invalid edits: tags must be an array of strings');
+  }
+}
+
+// Singleton instance
+let memoryReviewQueueInstance: MemoryReviewQueue | null = null;
+
+export function getMemoryReviewQueue(): MemoryReviewQueue {
+  if (!memoryReviewQueueInstance) {
+    memoryReviewQueueInstance = new MemoryReviewQueue();
+  }
+  return memoryReviewQueueInstance;
+}
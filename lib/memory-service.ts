@@ -1,11 +1,82 @@
-import { MemoryEntry, MemoryType, AccessPolicy, MemorySearchQuery, MemorySearchResult, Permission } from '@/types/memory';
-import { getOGStorage, OGStorageService } from './0g-storage';
+import { MemoryConflict, MemoryEdge, MemoryEdgeType, MemoryEntry, MemoryMetadata, MemoryType, AccessPolicy, MemorySearchQuery, MemorySearchResult, MemoryVersion, Permission, ThresholdPolicy, TimelockPolicy } from '@/types/memory';
+import { EncryptedData, TimelockEncryption } from '@/types/encryption';
+import { getOGStorage, OGEmbeddingResult, OGStorageService } from './0g-storage';
 import { getMemoryManager, MemoryManager } from './memory-manager';
 import { getInferenceClient, InferenceClient } from './inference-client';
 import { getEncryptionService } from './encryption';
 import { getKeyManagementService } from './key-management';
 import { v4 as uuidv4 } from 'uuid';
+import { ethers } from 'ethers';
 import { MemoryIndexer } from './memory-indexer';
+import { IndexingResult } from './0g-indexing-service';
+import { getMemoryStore, MemoryStore } from './memory-store';
+import { KeywordIndex, reciprocalRankFusion } from './keyword-index';
+import { getThresholdAccessService, ThresholdShareAssignment, ThresholdUnlockStatus } from './threshold-access';
+import { getMemoryVersionStore, MemoryVersionDiff } from './memory-versions';
+import { getMemoryGraphService, GraphNeighbour } from './memory-graph';
+import { CONSOLIDATED_TAG } from './memory-consolidation';
+import { getKnowledgeGraphService } from './knowledge-graph';
+import { CONTRADICTION_CHECKED_TYPES, ContradictionCandidate, getContradictionDetector } from './contradiction-detection';
+import { ImportanceScore, scoreImportance, weightByImportance } from './memory-importance';
+import { getPiiScanner, piiTokenIds } from './pii';
+import { getMemoryReviewQueue } from './memory-review';
+
+export type DuplicateHandling = 'merge' | 'exact' | 'allow';
+
+export interface CreateMemoryOptions {
+  onDuplicate?: DuplicateHandling; // Default 'merge': fold near-identical content into the existing memory; 'exact' folds identical content only
+  onNearDuplicate?: (match: DuplicateMatch) => void; // With 'exact': called for a near-duplicate that is stored as a new memory
+  similarityCutoff?: number; // Cosine similarity at or above which memories count as duplicates
+  checkContradictions?: boolean; // Default true for preference, profile and fact memories
+  anchor?: boolean; // Default true; false skips the per-memory on-chain commit so the caller can batch it (see anchorMemories)
+}
+
+export type ContradictionAction = 'keep-new' | 'keep-existing' | 'keep-both';
+
+export interface UpdateMemoryOptions {
+  anchor?: boolean; // Commit a new content version to the MemoryRegistry contract
+  revertedFrom?: number; // Recorded on the version created by revertMemory
+}
+
+export interface RelatedMemory extends GraphNeighbour {
+  memory: MemoryEntry;
+}
+
+export interface RelatedMemories {
+  memoryId: string;
+  related: RelatedMemory[];
+  edges: MemoryEdge[];
+}
+
+export interface PruneOptions {
+  minImportance?: number; // Archive unpinned memories scoring below this
+  dryRun?: boolean;
+}
+
+export interface PruneResult {
+  pruned: Array<{ id: string; importance: number }>;
+  kept: number;
+  dryRun: boolean;
+}
+
+// Local data erased along with a deleted memory, besides its entry and indices
+export interface MemoryPurgeSummary {
+  versions: number; // Entries of its version history
+  proposals: number; // Review proposals it was approved from
+  piiTokens: number; // Vaulted PII values no other memory or version still references
+}
+
+export interface DuplicateMatch {
+  memory: MemoryEntry;
+  similarity: number;
+  exact: boolean; // Identical content hash
+}
+
+// Stored in place of the plaintext for memories with a TimelockPolicy
+interface TimelockSealedContent {
+  timelock: TimelockEncryption;
+  encryptedContent: EncryptedData;
+}
 
 export class MemoryService {
   private ogStorage: OGStorageService;
@@ -13,18 +84,62 @@ export class MemoryService {
   private inferenceClient: InferenceClient;
   private encryptionService = getEncryptionService();
   private keyManagement = getKeyManagementService();
+  private thresholdAccess = getThresholdAccessService();
+  private versions = getMemoryVersionStore();
+  private graph = getMemoryGraphService();
+  private knowledgeGraph = getKnowledgeGraphService();
+  private contradictions = getContradictionDetector();
+  private pii = getPiiScanner();
+  private store: MemoryStore = getMemoryStore();
 
   // Local storage for caching
   private memories: MemoryEntry[] = [];
+  private keywordIndex = new KeywordIndex();
+  private retryingUploads: Promise<number> | null = null;
+
+  private static readonly SEMANTIC_MATCH_THRESHOLD = 0.3;
+  private static readonly RRF_K = 60;
+  private static readonly INTEGRITY_CONCURRENCY = 4; // Each check downloads the memory from storage
+  private static readonly DUPLICATE_SIMILARITY_CUTOFF = Number(process.env.MEMORY_DUPLICATE_SIMILARITY) || 0.95;
+  private static readonly CONTRADICTION_NEIGHBOURS = 10;
+  private static readonly CONTRADICTION_SIMILARITY = 0.6; // Only statements about the same thing can conflict
+  private static readonly PRUNE_IMPORTANCE = 0.25; // Roughly: small talk untouched for two months
 
   constructor() {
     console.log('🧠 MemoryService constructor called');
     this.ogStorage = getOGStorage();
     this.memoryManager = getMemoryManager();
     this.inferenceClient = getInferenceClient();
+    this.migrateLegacyDeletedMemories();
     this.loadMemoriesFromStorage();
   }
 
+  /**
+   * Server builds before the file store kept deletions in <cwd>/.deleted-memories.json. Merge that
+   * list into the store once and remove the old file, so deletions made before upgrading stay
+   * deleted. Browsers always used the 'deleted-memories' localStorage key and need nothing.
+   */
+  private migrateLegacyDeletedMemories(): void {
+    if (this.store.backend !== 'file') return;
+
+    try {
+      const fs = require('fs');
+      const path = require('path');
+      const legacyPath = path.join(process.cwd(), '.deleted-memories.json');
+      if (!fs.existsSync(legacyPath)) return;
+
+      const legacy: string[] = JSON.parse(fs.readFileSync(legacyPath, 'utf-8'));
+      const merged = Array.from(new Set(this.getDeletedMemories().concat(Array.isArray(legacy) ? legacy : [])));
+      this.store.set('deleted-memories', merged);
+      // The store swallows write errors; keep the old file unless the merge is readable
+      if (this.getDeletedMemories().length < merged.length) return;
+      fs.unlinkSync(legacyPath);
+      console.log(`📁 Migrated ${legacy.length} deleted memories from ${legacyPath}`);
+    } catch (error) {
+      console.warn('⚠️ Failed to migrate legacy deleted memories list:', error);
+    }
+  }
+
   private async initializeKeyManagement(): Promise<void> {
     try {
       const defaultPassword = process.env.NEXT_PUBLIC_DEFAULT_ENCRYPTION_PASSWORD || 'default-encryption-key-2024';
@@ -37,18 +152,8 @@ export class MemoryService {
 
   private loadMemoriesFromStorage(): void {
     try {
-      // Check if we're in a browser environment
-      if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-        console.log('📚 Not in browser environment, skipping localStorage load');
-        this.memories = [];
-        return;
-      }
-      
-      const stored = localStorage.getItem('memories');
-      if (stored) {
-        this.memories = JSON.parse(stored);
-        console.log(`📚 Loaded ${this.memories.length} memories from local storage`);
-      }
+      this.memories = this.store.get<MemoryEntry[]>('memories', []);
+      console.log(`📚 Loaded ${this.memories.length} memories from ${this.store.backend} store`);
     } catch (error) {
       console.warn('⚠️ Failed to load memories from storage:', error);
       this.memories = [];
@@ -91,15 +196,7 @@ export class MemoryService {
 
   private getMemoryIndex(): MemoryEntry[] {
     try {
-      if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-        return [];
-      }
-      
-      const index = localStorage.getItem('walrus_memory_index');
-      if (index) {
-        return JSON.parse(index);
-      }
-      return [];
+      return this.store.get<MemoryEntry[]>('walrus_memory_index', []);
     } catch (error) {
       console.warn('⚠️ Failed to load memory index:', error);
       return [];
@@ -108,10 +205,6 @@ export class MemoryService {
 
   private updateMemoryIndex(memory: MemoryEntry): void {
     try {
-      if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-        return;
-      }
-      
       const currentIndex = this.getMemoryIndex();
       const existingIndex = currentIndex.findIndex(m => m.id === memory.id);
       
@@ -121,7 +214,7 @@ export class MemoryService {
         currentIndex.unshift(memory);
       }
       
-      localStorage.setItem('walrus_memory_index', JSON.stringify(currentIndex));
+      this.store.set('walrus_memory_index', currentIndex);
       console.log(`📚 Updated memory index with ${currentIndex.length} memories`);
     } catch (error) {
       console.warn('⚠️ Failed to update memory index:', error);
@@ -130,14 +223,8 @@ export class MemoryService {
 
   private saveMemoriesToStorage(): void {
     try {
-      // Check if we're in a browser environment
-      if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-        console.log('💾 Not in browser environment, skipping localStorage save');
-        return;
-      }
-      
-      localStorage.setItem('memories', JSON.stringify(this.memories));
-      console.log(`💾 Saved ${this.memories.length} memories to local storage`);
+      this.store.set('memories', this.memories);
+      console.log(`💾 Saved ${this.memories.length} memories to ${this.store.backend} store`);
     } catch (error) {
       console.warn('⚠️ Failed to save memories to storage:', error);
     }
@@ -154,6 +241,9 @@ export class MemoryService {
       
       // Load memories from Walrus storage
       await this.loadMemoriesFromWalrus();
+      await this.enforceAutoDelete();
+      // Not awaited: storage may still be unreachable, and requests should not wait on it
+      this.retryPendingUploads().catch(error => console.warn('⚠️ Failed to retry pending uploads:', error?.message));
       
       console.log('✅ Memory service initialized successfully');
     } catch (error) {
@@ -166,6 +256,8 @@ export class MemoryService {
     console.log('🔍 Searching memories with query:', query);
 
     try {
+      await this.enforceAutoDelete();
+
       let allMemories: MemoryEntry[] = [];
       
       // First, get memories from local storage
@@ -197,64 +289,76 @@ export class MemoryService {
         console.warn('⚠️ Failed to fetch from contract, using local memories only:', contractError);
       }
       
-      if (allMemories.length > 0) {
-        console.log(`🔍 Processing ${allMemories.length} total memories`);
-        
-        // Apply query filters if needed
-        let filteredMemories = allMemories;
-        
-        // Filter out deleted memories
-        const deletedMemories = this.getDeletedMemories();
-        if (deletedMemories.length > 0) {
-          filteredMemories = filteredMemories.filter((memory: MemoryEntry) => 
-            !deletedMemories.includes(memory.id)
-          );
-          console.log(`🗑️ Filtered out ${allMemories.length - filteredMemories.length} deleted memories`);
-        }
-        
-        if (query.query) {
-          filteredMemories = filteredMemories.filter((memory: MemoryEntry) =>
-            memory.content.toLowerCase().includes(query.query.toLowerCase()) ||
-            memory.tags?.some(tag => tag.toLowerCase().includes(query.query.toLowerCase()))
-          );
-        }
-        
-        if (query.type) {
-          filteredMemories = filteredMemories.filter((memory: MemoryEntry) => memory.type === query.type);
-        }
-        
-        if (query.category) {
-          filteredMemories = filteredMemories.filter((memory: MemoryEntry) => memory.category === query.category);
-        }
-        
-        if (query.tags && query.tags.length > 0) {
-          filteredMemories = filteredMemories.filter((memory: MemoryEntry) =>
-            query.tags!.some(tag => memory.tags?.includes(tag))
-          );
-        }
-        
-        // Apply limit and offset
-        const startIndex = query.offset || 0;
-        const endIndex = startIndex + (query.limit || 20);
-        filteredMemories = filteredMemories.slice(startIndex, endIndex);
-          
-        return {
-          memories: filteredMemories,
-          totalCount: filteredMemories.length,
-          facets: this.calculateFacets(filteredMemories)
-        };
-      } else {
-        console.log('🔍 No memories found in local storage or contract');
+      console.log(`🔍 Processing ${allMemories.length} total memories`);
+
+      // Filter out deleted memories
+      const deletedMemories = this.getDeletedMemories();
+      let filteredMemories = allMemories;
+      if (deletedMemories.length > 0) {
+        filteredMemories = filteredMemories.filter((memory: MemoryEntry) =>
+          !deletedMemories.includes(memory.id)
+        );
+        console.log(`🗑️ Filtered out ${allMemories.length - filteredMemories.length} deleted memories`);
+      }
+
+      if (!query.includeArchived) {
+        filteredMemories = filteredMemories.filter((memory: MemoryEntry) => !memory.metadata?.archived);
+      }
+
+      // Structured filters
+      if (query.type) {
+        filteredMemories = filteredMemories.filter((memory: MemoryEntry) => memory.type === query.type);
+      }
+
+      if (query.category) {
+        filteredMemories = filteredMemories.filter((memory: MemoryEntry) => memory.category === query.category);
+      }
+
+      if (query.tags && query.tags.length > 0) {
+        filteredMemories = filteredMemories.filter((memory: MemoryEntry) =>
+          query.tags!.some(tag => memory.tags?.includes(tag))
+        );
+      }
+
+      if (query.dateRange) {
+        const start = new Date(query.dateRange.start).getTime();
+        const end = new Date(query.dateRange.end).getTime();
+        filteredMemories = filteredMemories.filter((memory: MemoryEntry) => {
+          const createdAt = new Date(memory.createdAt).getTime();
+          return createdAt >= start && createdAt <= end;
+        });
+      }
+
+      if (query.accessLevel) {
+        filteredMemories = filteredMemories.filter((memory: MemoryEntry) =>
+          this.getAccessLevel(memory) === query.accessLevel
+        );
+      }
+
+      // Keyword + semantic ranking
+      if (query.query && query.query.trim()) {
+        filteredMemories = await this.rankByRelevance(query.query, filteredMemories);
+      }
+
+      // Apply limit and offset after counting every match
+      const startIndex = query.offset || 0;
+      const limit = query.limit || 20;
+
+      if (query.verifyIntegrity) {
+        const { page, failed } = await this.verifiedPage(filteredMemories, startIndex, limit);
+        const verifiedMemories = filteredMemories.filter(memory => !failed.has(memory.id));
         return {
-          memories: [],
-          totalCount: 0,
-          facets: {
-            types: [],
-            categories: [],
-            tags: []
-          }
+          memories: page.map(memory => this.rehydrate(memory)),
+          totalCount: verifiedMemories.length,
+          facets: this.calculateFacets(verifiedMemories)
         };
       }
+
+      return {
+        memories: filteredMemories.slice(startIndex, startIndex + limit).map(memory => this.rehydrate(memory)),
+        totalCount: filteredMemories.length,
+        facets: this.calculateFacets(filteredMemories)
+      };
     } catch (error) {
       console.error('❌ Memory search failed:', error);
       throw error;
@@ -264,6 +368,99 @@ export class MemoryService {
 
 
 
+  /**
+   * Fuse BM25 keyword ranking and vector similarity with reciprocal-rank fusion.
+   * Memories matching neither signal are dropped.
+   */
+  private async rankByRelevance(queryText: string, candidates: MemoryEntry[]): Promise<MemoryEntry[]> {
+    this.syncKeywordIndex(candidates);
+
+    const candidateIds = new Set(candidates.map(memory => memory.id));
+    const keywordRanking = this.keywordIndex
+      .search(queryText)
+      .map(hit => hit.id)
+      .filter(id => candidateIds.has(id));
+
+    let semanticRanking: string[] = [];
+    try {
+      const queryVector = await this.memoryManager.generateEmbedding(queryText);
+      semanticRanking = MemoryIndexer.searchByVectorWithScores(queryVector, candidates.length)
+        .filter(hit => hit.similarity >= MemoryService.SEMANTIC_MATCH_THRESHOLD && candidateIds.has(hit.memory.id))
+        .map(hit => hit.memory.id);
+    } catch (error) {
+      console.warn('⚠️ Semantic search unavailable, using keyword ranking only:', error);
+    }
+
+    const byId = new Map(candidates.map(memory => [memory.id, memory] as [string, MemoryEntry]));
+    const fused = reciprocalRankFusion([keywordRanking, semanticRanking], MemoryService.RRF_K);
+    console.log(`🔍 Hybrid search: ${keywordRanking.length} keyword hits, ${semanticRanking.length} semantic hits, ${fused.length} fused`);
+
+    // Among similarly relevant matches, pinned, frequently used and recent memories win
+    const now = Date.now();
+    return fused
+      .map(hit => ({ memory: byId.get(hit.id)!, score: weightByImportance(hit.score, byId.get(hit.id)!, now) }))
+      .sort((a, b) => b.score - a.score)
+      .map(hit => hit.memory);
+  }
+
+  /**
+   * Bring the keyword index in line with the current memory set
+   */
+  private syncKeywordIndex(memories: MemoryEntry[]): void {
+    const liveIds = new Set(memories.map(memory => memory.id));
+    this.keywordIndex.ids()
+      .filter(id => !liveIds.has(id))
+      .forEach(id => this.keywordIndex.remove(id));
+
+    memories.forEach(memory => {
+      // Threshold- and timelocked content is ciphertext until unlocked; index tags only
+      const locked = memory.accessPolicy?.threshold || memory.accessPolicy?.timelock;
+      const content = locked ? '' : memory.content;
+      const text = `${content} ${(memory.tags || []).join(' ')}`;
+      this.keywordIndex.upsert(memory.id, text, `${new Date(memory.updatedAt).getTime()}:${text.length}`);
+    });
+  }
+
+  /**
+   * Verify matches in ranked order, a few at a time, until the requested page is filled.
+   * Only memories up to the end of the page are downloaded; failures are dropped from the page.
+   */
+  private async verifiedPage(
+    memories: MemoryEntry[],
+    offset: number,
+    limit: number
+  ): Promise<{ page: MemoryEntry[]; failed: Set<string> }> {
+    const verified: MemoryEntry[] = [];
+    const failed = new Set<string>();
+
+    for (let i = 0; i < memories.length && verified.length < offset + limit; i += MemoryService.INTEGRITY_CONCURRENCY) {
+      const batch = memories.slice(i, i + MemoryService.INTEGRITY_CONCURRENCY);
+      const results = await Promise.all(batch.map(memory => MemoryIndexer.verifyMemoryContent(memory)));
+      batch.forEach((memory, index) => {
+        if (results[index]) {
+          verified.push(memory);
+        } else {
+          failed.add(memory.id);
+        }
+      });
+    }
+
+    console.log(`🔐 Integrity verified for ${verified.length}/${verified.length + failed.size} checked memories`);
+    return { page: verified.slice(offset, offset + limit), failed };
+  }
+
+  /**
+   * Derived from the access policy: memories sealed behind a timelock or guardian threshold are
+   * 'encrypted', memories other agents may read are 'public', otherwise 'private'
+   */
+  private getAccessLevel(memory: MemoryEntry): 'public' | 'private' | 'encrypted' {
+    const policy = memory.accessPolicy;
+    if (policy?.timelock || policy?.threshold) {
+      return 'encrypted';
+    }
+    return policy?.permissions?.some(permission => permission.actions?.includes('read')) ? 'public' : 'private';
+  }
+
   private calculateFacets(memories: MemoryEntry[]) {
     const facets = {
       types: {} as Record<MemoryType, number>,
@@ -287,11 +484,38 @@ export class MemoryService {
     return facets;
   }
 
-  async createMemory(memoryData: Omit<MemoryEntry, 'id' | 'createdAt' | 'updatedAt' | 'ipfsHash'>): Promise<MemoryEntry> {
+  async createMemory(
+    memoryData: Omit<MemoryEntry, 'id' | 'createdAt' | 'updatedAt' | 'ipfsHash'>,
+    options: CreateMemoryOptions = {}
+  ): Promise<MemoryEntry> {
     const memoryId = uuidv4();
     const now = new Date();
 
     try {
+      let embeddingVector: number[] | undefined;
+
+      // Strip PII before the content is embedded, uploaded to Walrus or anchored on-chain
+      memoryData = this.protectContent(memoryData);
+
+      // Dedup stage: identical or near-identical content updates the existing memory instead
+      if (options.onDuplicate !== 'allow') {
+        try {
+          embeddingVector = await this.memoryManager.generateEmbedding(memoryData.content);
+        } catch (embeddingError) {
+          console.warn('⚠️ Failed to embed content for duplicate check, using content hash only:', embeddingError);
+        }
+
+        const duplicate = await this.matchDuplicate(memoryData.content, memoryData.type, {
+          vector: embeddingVector,
+          similarityCutoff: options.similarityCutoff
+        });
+        if (duplicate && options.onDuplicate === 'exact' && !duplicate.exact) {
+          options.onNearDuplicate?.(duplicate);
+        } else if (duplicate) {
+          return this.mergeIntoExisting(duplicate, memoryData);
+        }
+      }
+
       // Store in local cache first
       const memory: MemoryEntry = {
         ...memoryData,
@@ -299,16 +523,17 @@ export class MemoryService {
         createdAt: now,
         updatedAt: now,
         ipfsHash: memoryId,
-        encrypted: true,
+        encrypted: memoryData.encrypted !== false,
         accessPolicy: {
           ...memoryData.accessPolicy,
           owner: 'local-user'
         },
         metadata: {
+          ...memoryData.metadata,
           size: memoryData.content.length,
           checksum: '',
           version: 1,
-          relatedMemories: [],
+          relatedMemories: memoryData.metadata?.relatedMemories || [],
           encryptionKeyId: '',
           encryptionSalt: ''
         }
@@ -319,36 +544,34 @@ export class MemoryService {
       this.saveMemoriesToStorage();
 
       // Store embedding in 0G Storage and get the vector for indexing
-      let embeddingVector: number[] | undefined;
       try {
-        // Generate embedding vector first
-        embeddingVector = await this.memoryManager.generateEmbedding(memoryData.content);
+        // Generate embedding vector first (unless the dedup stage already did)
+        embeddingVector = embeddingVector || await this.memoryManager.generateEmbedding(memoryData.content);
         
         const embeddingResult = await this.memoryManager.storeEmbedding(memoryId, memoryData.content, {
           agentId: 'local-user',
           tags: memoryData.tags || []
         });
 
-        // Update memory with 0G storage information
-        if (embeddingResult.explorerUrl) {
-          memory.walrusUrl = embeddingResult.explorerUrl; // This is now the Walrus explorer URL
-          console.log(`🔗 Walrus URL set: ${memory.walrusUrl}`);
-        }
-        if (embeddingResult.transactionHash) {
-          memory.transactionHash = embeddingResult.transactionHash;
-        }
-        if (embeddingResult.storageId) {
-          memory.ipfsHash = embeddingResult.storageId; // Store the blob ID
-        }
+        this.applyUpload(memory, embeddingResult);
+        this.saveMemoriesToStorage();
 
         console.log(`✅ Memory stored locally and embedding uploaded to 0G Storage: ${memoryId}`);
       } catch (ogError) {
-        console.warn('⚠️ Failed to upload to 0G Storage, keeping local copy:', ogError);
+        // No blob and no key reference yet: flag it so initialize() uploads it again
+        memory.metadata.uploadPending = true;
+        this.saveMemoriesToStorage();
+        console.warn('⚠️ Failed to upload to 0G Storage, keeping local copy for retry:', ogError);
       }
 
       // Update the memory indices using the new indexer (with vector for similarity search)
       // This is now async and will handle both local and on-chain indexing
-      await MemoryIndexer.addToIndex(memory, embeddingVector);
+      await MemoryIndexer.addToIndex(memory, embeddingVector, { onChain: options.anchor !== false });
+      this.linkIntoGraph(memory, embeddingVector);
+      this.ingestEntities(memory);
+      if (options.checkContradictions !== false) {
+        this.checkContradictions(memory, embeddingVector);
+      }
 
       return memory;
     } catch (error: any) {
@@ -357,6 +580,157 @@ export class MemoryService {
     }
   }
 
+  /**
+   * Record where a memory's encrypted blob was stored and the key that opens it
+   */
+  private applyUpload(memory: MemoryEntry, embeddingResult: OGEmbeddingResult): void {
+    if (embeddingResult.explorerUrl) {
+      memory.walrusUrl = embeddingResult.explorerUrl; // This is now the Walrus explorer URL
+      console.log(`🔗 Walrus URL set: ${memory.walrusUrl}`);
+    }
+    if (embeddingResult.transactionHash) {
+      memory.transactionHash = embeddingResult.transactionHash;
+    }
+    if (embeddingResult.storageId) {
+      memory.ipfsHash = embeddingResult.storageId; // Store the blob ID
+      if (memory.metadata.blobId) {
+        memory.metadata.blobId = embeddingResult.storageId;
+      }
+    }
+    if (embeddingResult.encryption) {
+      memory.metadata.encryptionKeyId = embeddingResult.encryption.keyId;
+      memory.metadata.encryptionSalt = embeddingResult.encryption.salt;
+    }
+    delete memory.metadata.uploadPending;
+  }
+
+  /**
+   * Upload memories whose blob could not be stored when they were created or edited.
+   * Concurrent callers share the same run; returns how many were uploaded.
+   */
+  retryPendingUploads(): Promise<number> {
+    if (!this.retryingUploads) {
+      this.retryingUploads = this.uploadPending().finally(() => {
+        this.retryingUploads = null;
+      });
+    }
+    return this.retryingUploads;
+  }
+
+  private async uploadPending(): Promise<number> {
+    const pending = this.memories.filter(memory => memory.metadata?.uploadPending);
+    if (pending.length === 0) return 0;
+
+    console.log(`📤 Retrying upload of ${pending.length} memories...`);
+    let uploaded = 0;
+    for (const memory of pending) {
+      try {
+        const embeddingResult = await this.memoryManager.storeEmbedding(memory.id, memory.content, {
+          agentId: 'local-user',
+          tags: memory.tags || []
+        });
+        this.applyUpload(memory, embeddingResult);
+        this.saveMemoriesToStorage();
+        MemoryIndexer.updateMetadata(memory);
+        uploaded++;
+      } catch (error: any) {
+        console.warn(`⚠️ Upload of memory ${memory.id} failed again:`, error?.message);
+        break; // Storage is most likely still unreachable
+      }
+    }
+
+    console.log(`✅ Uploaded ${uploaded}/${pending.length} pending memories`);
+    return uploaded;
+  }
+
+  /**
+   * Find an existing memory of the same type whose content is identical (same keccak hash as the
+   * on-chain anchor) or whose embedding is at least `similarityCutoff` similar. The match is
+   * returned with its PII rehydrated; nothing is written to the PII vault.
+   */
+  async findDuplicate(
+    content: string,
+    type: MemoryType,
+    options: { vector?: number[]; similarityCutoff?: number } = {}
+  ): Promise<DuplicateMatch | null> {
+    const duplicate = await this.matchDuplicate(content, type, options);
+    return duplicate ? { ...duplicate, memory: this.rehydrate(duplicate.memory) } : null;
+  }
+
+  private async matchDuplicate(
+    content: string,
+    type: MemoryType,
+    options: { vector?: number[]; similarityCutoff?: number } = {}
+  ): Promise<DuplicateMatch | null> {
+    const deleted = new Set(this.getDeletedMemories());
+    const eligible = (memory: MemoryEntry) =>
+      memory.type === type &&
+      !deleted.has(memory.id) &&
+      !memory.metadata?.archived &&
+      !memory.accessPolicy?.threshold &&
+      !memory.accessPolicy?.timelock;
+
+    // Stored content is PII-protected; tokens are stable, so protected copies hash identically.
+    // Read-only: a value the vault lacks cannot appear in any stored memory.
+    content = this.pii.protect(content, { readOnly: true }).content;
+    const contentHash = ethers.keccak256(ethers.toUtf8Bytes(content));
+    const exact = this.memories.find(memory =>
+      eligible(memory) && ethers.keccak256(ethers.toUtf8Bytes(memory.content)) === contentHash
+    );
+    if (exact) {
+      return { memory: exact, similarity: 1, exact: true };
+    }
+
+    let vector = options.vector;
+    if (!vector) {
+      try {
+        vector = await this.memoryManager.generateEmbedding(content);
+      } catch (error) {
+        console.warn('⚠️ Failed to embed content for duplicate check:', error);
+        return null;
+      }
+    }
+
+    const cutoff = options.similarityCutoff ?? MemoryService.DUPLICATE_SIMILARITY_CUTOFF;
+    const byId = new Map(this.memories.map(memory => [memory.id, memory] as [string, MemoryEntry]));
+    const match = MemoryIndexer.searchByVectorWithScores(vector, 5)
+      .map(hit => ({ memory: byId.get(hit.memory.id), similarity: hit.similarity }))
+      .find(hit => hit.memory && eligible(hit.memory) && hit.similarity >= cutoff);
+
+    return match ? { memory: match.memory!, similarity: match.similarity, exact: false } : null;
+  }
+
+  /**
+   * Fold a duplicate into the memory it matched. Near-duplicates replace the content with the newer
+   * wording as a new version whose parentId is the previous version's blob; exact duplicates only
+   * merge tags.
+   */
+  private async mergeIntoExisting(
+    duplicate: DuplicateMatch,
+    memoryData: Omit<MemoryEntry, 'id' | 'createdAt' | 'updatedAt' | 'ipfsHash'>
+  ): Promise<MemoryEntry> {
+    const existing = duplicate.memory;
+    const tags = Array.from(new Set([...(existing.tags || []), ...(memoryData.tags || [])]));
+
+    // The existing memory keeps its origin; the messages that repeated it are added as sources
+    const incoming = memoryData.metadata?.provenance;
+    const provenance = existing.metadata?.provenance && incoming
+      ? {
+          ...existing.metadata.provenance,
+          messageIds: Array.from(new Set(existing.metadata.provenance.messageIds.concat(incoming.messageIds)))
+        }
+      : existing.metadata?.provenance || incoming;
+    const metadata = provenance ? { ...existing.metadata, provenance } : existing.metadata;
+
+    if (duplicate.exact) {
+      console.log(`♻️ Exact duplicate of ${existing.id}, merging tags only`);
+      return this.updateMemory(existing.id, { tags, metadata });
+    }
+
+    console.log(`♻️ Near-duplicate of ${existing.id} (similarity ${duplicate.similarity.toFixed(3)}), merging as new version`);
+    return this.updateMemory(existing.id, { content: memoryData.content, tags, metadata });
+  }
+
   async getMemory(memoryId: string): Promise<MemoryEntry | null> {
     try {
       // Try local cache first
@@ -369,7 +743,7 @@ export class MemoryService {
           const result = embeddingResults[0];
           memory = {
             id: memoryId,
-            content: result.metadata.content,
+            content: result.metadata.content || '',
             type: 'conversation' as MemoryType,
             category: 'chat',
             tags: result.metadata.tags,
@@ -381,12 +755,12 @@ export class MemoryService {
               permissions: []
             } as AccessPolicy,
             metadata: {
-              size: result.metadata.content.length,
+              size: (result.metadata.content || '').length,
               checksum: result.metadata.contentHash,
               version: 1,
               relatedMemories: [],
-              encryptionKeyId: '',
-              encryptionSalt: ''
+              encryptionKeyId: result.encryption?.keyId || '',
+              encryptionSalt: result.encryption?.salt || ''
             },
             ipfsHash: result.storageId
           };
@@ -402,14 +776,42 @@ export class MemoryService {
         return null;
       }
 
-      return memory;
+      if (this.isPastAutoDelete(memory)) {
+        await this.expireMemory(memory);
+        return null;
+      }
+
+      return this.rehydrate(memory);
     } catch (error) {
       console.error('❌ Memory retrieval failed:', error);
       throw error;
     }
   }
 
-  async updateMemory(memoryId: string, updates: Partial<MemoryEntry>): Promise<MemoryEntry> {
+  /**
+   * Memories that came from a chat message or session, newest first. Deleted memories are gone;
+   * archived ones are included so a message still shows what it once produced.
+   */
+  findBySource(source: { messageId?: string; sessionId?: string }): MemoryEntry[] {
+    if (!source.messageId && !source.sessionId) return [];
+
+    return this.memories
+      .filter(memory => {
+        const provenance = memory.metadata?.provenance;
+        if (!provenance) return false;
+        if (source.messageId && provenance.messageIds.indexOf(source.messageId) === -1) return false;
+        if (source.sessionId && provenance.sessionId !== source.sessionId) return false;
+        return true;
+      })
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map(memory => this.rehydrate(memory));
+  }
+
+  /**
+   * Apply updates to a memory. A content change creates a new version: the content is written to a
+   * new blob whose parentId is the previous version's blob, and the version is added to the history.
+   */
+  async updateMemory(memoryId: string, updates: Partial<MemoryEntry>, options: UpdateMemoryOptions = {}): Promise<MemoryEntry> {
     try {
       const existingMemoryIndex = this.memories.findIndex(m => m.id === memoryId);
       if (existingMemoryIndex === -1) {
@@ -417,6 +819,15 @@ export class MemoryService {
       }
 
       const existingMemory = this.memories[existingMemoryIndex];
+      if (updates.content !== undefined) {
+        const { content, metadata } = this.protectContent({ ...existingMemory, ...updates } as MemoryEntry);
+        updates = { ...updates, content, metadata };
+      }
+      const contentChanged = updates.content !== undefined && updates.content !== existingMemory.content;
+
+      if (contentChanged && (existingMemory.accessPolicy?.threshold || existingMemory.accessPolicy?.timelock)) {
+        throw new Error(`Memory ${memoryId} is sealed and its content cannot be changed`);
+      }
 
       const updatedMemory: MemoryEntry = {
         ...existingMemory,
@@ -424,23 +835,73 @@ export class MemoryService {
         updatedAt: new Date()
       };
 
+      if (contentChanged) {
+        // Memories created before version history existed get their current content as the baseline
+        this.versions.record(existingMemory);
+
+        updatedMemory.metadata = {
+          ...updatedMemory.metadata,
+          size: updatedMemory.content.length,
+          version: (existingMemory.metadata?.version || 1) + 1,
+          parentId: existingMemory.metadata?.blobId || existingMemory.ipfsHash
+        };
+      }
+
       // Update locally
       this.memories[existingMemoryIndex] = updatedMemory;
       this.saveMemoriesToStorage();
+      MemoryIndexer.updateMetadata(updatedMemory);
 
-      // Update embedding in 0G Storage if content changed
-      if (updates.content) {
-        try {
-          await this.memoryManager.storeEmbedding(memoryId, updates.content, {
-            agentId: 'local-user',
-            tags: updatedMemory.tags || []
-          });
-        } catch (ogError) {
-          console.warn('⚠️ Failed to update in 0G Storage:', ogError);
+      if (!contentChanged) {
+        console.log(`Memory updated successfully: ${memoryId}`);
+        return updatedMemory;
+      }
+
+      // Write the new version to its own blob
+      let vector: number[] | undefined;
+      try {
+        const embeddingResult = await this.memoryManager.storeEmbedding(memoryId, updatedMemory.content, {
+          agentId: 'local-user',
+          tags: updatedMemory.tags || []
+        });
+        vector = embeddingResult.vector;
+        if (embeddingResult.storageId) {
+          updatedMemory.ipfsHash = embeddingResult.storageId;
+          updatedMemory.metadata = { ...updatedMemory.metadata, blobId: embeddingResult.storageId };
         }
+        if (embeddingResult.encryption) {
+          updatedMemory.metadata = {
+            ...updatedMemory.metadata,
+            encryptionKeyId: embeddingResult.encryption.keyId,
+            encryptionSalt: embeddingResult.encryption.salt,
+            uploadPending: undefined
+          };
+        }
+        this.saveMemoriesToStorage();
+      } catch (ogError) {
+        // The stored blob still holds the previous version
+        updatedMemory.metadata = { ...updatedMemory.metadata, uploadPending: true };
+        this.saveMemoriesToStorage();
+        console.warn('⚠️ Failed to update in 0G Storage, keeping local copy for retry:', ogError);
+      }
+
+      if (options.anchor) {
+        // Awaited so the version records the transaction hash
+        await MemoryIndexer.addToIndex(updatedMemory, vector, { awaitOnChain: true });
+        this.saveMemoriesToStorage();
+      } else {
+        MemoryIndexer.updateContent(updatedMemory, vector);
       }
+      this.linkIntoGraph(updatedMemory, vector);
+      this.ingestEntities(updatedMemory);
+
+      const version = this.versions.record(updatedMemory, {
+        revertedFrom: options.revertedFrom,
+        anchored: options.anchor ? !!updatedMemory.transactionHash : undefined,
+        transactionHash: options.anchor ? updatedMemory.transactionHash : undefined
+      });
 
-      console.log(`Memory updated successfully: ${memoryId}`);
+      console.log(`Memory updated successfully: ${memoryId} (version ${version.version})`);
       return updatedMemory;
     } catch (error) {
       console.error('❌ Memory update failed:', error);
@@ -448,13 +909,66 @@ export class MemoryService {
     }
   }
 
+  /**
+   * All recorded versions of a memory, oldest first. A memory that has never been edited
+   * reports its current content as version 1.
+   */
+  getMemoryHistory(memoryId: string): MemoryVersion[] {
+    const memory = this.memories.find(m => m.id === memoryId);
+    if (!memory) {
+      throw new Error(`Memory not found: ${memoryId}`);
+    }
+
+    const history = this.versions.getHistory(memoryId);
+    return (history.length > 0 ? history : [this.versions.record(memory)])
+      .map(version => ({ ...version, content: this.pii.rehydrate(version.content) }));
+  }
+
+  diffMemoryVersions(memoryId: string, from: number, to: number): MemoryVersionDiff {
+    this.getMemoryHistory(memoryId);
+    const diff = this.versions.diff(memoryId, from, to);
+    // A PII token is a single word, so each one sits whole inside a segment
+    return { ...diff, segments: diff.segments.map(segment => ({ ...segment, text: this.pii.rehydrate(segment.text) })) };
+  }
+
+  /**
+   * Restore an earlier version's content. History is never rewritten: the restored content
+   * becomes a new version on top of the chain.
+   */
+  async revertMemory(memoryId: string, version: number, options: Pick<UpdateMemoryOptions, 'anchor'> = {}): Promise<MemoryEntry> {
+    this.getMemoryHistory(memoryId);
+    const target = this.versions.getVersion(memoryId, version);
+    if (!target) {
+      throw new Error(`Version ${version} not found for memory ${memoryId}`);
+    }
+
+    const current = this.memories.find(m => m.id === memoryId)!;
+    if (target.content === current.content) {
+      throw new Error(`Memory ${memoryId} already has the content of version ${version}`);
+    }
+
+    console.log(`⏪ Reverting memory ${memoryId} to version ${version}`);
+    return this.updateMemory(memoryId, {
+      content: target.content,
+      tags: target.tags,
+      category: target.category
+    }, { ...options, revertedFrom: version });
+  }
+
   async deleteMemory(memoryId: string): Promise<boolean> {
     try {
       console.log(`🗑️ Marking memory as deleted: ${memoryId}`);
-      console.log(`🔍 Environment check: window=${typeof window}, localStorage=${typeof localStorage}`);
       
       // Add to deleted memories list
       this.addToDeletedMemories(memoryId);
+
+      // History, proposals and vaulted PII still hold the content; erase them too
+      const footprint = this.collectDeletionFootprint(memoryId);
+      this.versions.purge(memoryId);
+      getMemoryReviewQueue().purgeMemory(memoryId);
+      this.pii.forget(footprint.piiTokenIds);
+      this.keywordIndex.remove(memoryId);
+      console.log(`🧹 Purged ${footprint.versions} versions, ${footprint.proposals} proposals and ${footprint.piiTokenIds.length} PII values of ${memoryId}`);
       
       // Remove from local memory indexer
       try {
@@ -473,6 +987,9 @@ export class MemoryService {
         console.log(`ℹ️ Note: Data on blockchain (${memory.transactionHash}) and Walrus storage (${memory.ipfsHash}) remains immutable`);
       }
 
+      this.syncRelatedMemories(this.graph.removeMemory(memoryId));
+      this.knowledgeGraph.removeMemory(memoryId);
+
       console.log(`✅ Memory marked as deleted: ${memoryId}`);
       return true;
     } catch (error) {
@@ -481,40 +998,406 @@ export class MemoryService {
     }
   }
 
-  private addToDeletedMemories(memoryId: string): void {
+  /**
+   * Memories linked to this one in the relationship graph, out to `depth` hops
+   */
+  getRelatedMemories(
+    memoryId: string,
+    options: { depth?: number; types?: MemoryEdgeType[]; limit?: number } = {}
+  ): RelatedMemories {
+    const visible = this.graphVisibility();
+    if (!visible(memoryId)) {
+      throw new Error(`Memory not found: ${memoryId}`);
+    }
+
+    const byId = new Map(this.memories.map(memory => [memory.id, memory] as [string, MemoryEntry]));
+    const neighbourhood = this.graph.getNeighbourhood(memoryId, { ...options, isVisible: visible });
+
+    return {
+      memoryId,
+      related: neighbourhood.neighbours.map(neighbour => ({ ...neighbour, memory: byId.get(neighbour.memoryId)! })),
+      edges: neighbourhood.edges
+    };
+  }
+
+  /**
+   * Shortest chain of related memories connecting two memories, or null if they aren't connected
+   */
+  findMemoryPath(
+    fromId: string,
+    toId: string,
+    options: { types?: MemoryEdgeType[] } = {}
+  ): { memories: MemoryEntry[]; edges: MemoryEdge[] } | null {
+    const visible = this.graphVisibility();
+    [fromId, toId].forEach(id => {
+      if (!visible(id)) throw new Error(`Memory not found: ${id}`);
+    });
+
+    const path = this.graph.findPath(fromId, toId, { ...options, isVisible: visible });
+    if (!path) return null;
+
+    const byId = new Map(this.memories.map(memory => [memory.id, memory] as [string, MemoryEntry]));
+    return { memories: path.memoryIds.map(id => byId.get(id)!), edges: path.edges };
+  }
+
+  /**
+   * What deleting a memory would erase besides its entry and indices
+   */
+  getDeletionFootprint(memoryId: string): MemoryPurgeSummary {
+    const footprint = this.collectDeletionFootprint(memoryId);
+    return { versions: footprint.versions, proposals: footprint.proposals, piiTokens: footprint.piiTokenIds.length };
+  }
+
+  private collectDeletionFootprint(memoryId: string): { versions: number; proposals: number; piiTokenIds: string[] } {
+    const memory = this.memories.find(m => m.id === memoryId);
+    const history = this.versions.getHistory(memoryId);
+
+    // PII tokens are shared by every memory holding the same value
+    const ownTokens = new Set<string>();
+    [memory?.content || ''].concat(history.map(version => version.content))
+      .forEach(content => piiTokenIds(content).forEach(id => ownTokens.add(id)));
+
+    const referencedElsewhere = new Set<string>();
+    if (ownTokens.size > 0) {
+      this.memories
+        .filter(m => m.id !== memoryId)
+        .map(m => m.content)
+        .concat(this.versions.getAllVersions().filter(version => version.memoryId !== memoryId).map(version => version.content))
+        .forEach(content => piiTokenIds(content).forEach(id => referencedElsewhere.add(id)));
+    }
+
+    return {
+      versions: history.length,
+      proposals: getMemoryReviewQueue().listForMemory(memoryId).length,
+      piiTokenIds: Array.from(ownTokens).filter(id => !referencedElsewhere.has(id))
+    };
+  }
+
+  /**
+   * Recompute every edge of the relationship graph and each memory's relatedMemories
+   */
+  rebuildMemoryGraph(): number {
+    const edgeCount = this.graph.rebuild(this.graphCandidates());
+    this.syncRelatedMemories(this.memories.map(memory => memory.id));
+    return edgeCount;
+  }
+
+  /**
+   * Set a memory's explicit links (e.g. imported wiki-links). Linked memories are always related
+   * in the graph, whatever their content.
+   */
+  linkMemories(memoryId: string, targetIds: string[]): MemoryEntry {
+    const known = new Set(this.memories.map(memory => memory.id));
+    const links = Array.from(new Set(targetIds)).filter(id => id !== memoryId && known.has(id));
+    const memory = this.patchMetadata(memoryId, { links: links.length > 0 ? links : undefined });
+
+    this.linkIntoGraph(memory, MemoryIndexer.getVector(memoryId));
+    return this.memories.find(m => m.id === memoryId)!;
+  }
+
+  /**
+   * Commit memories to the MemoryRegistry contract in one batched transaction. Used for memories
+   * created with `anchor: false`. Returns one result per memory, or none when the chain is unavailable.
+   */
+  async anchorMemories(memoryIds: string[]): Promise<IndexingResult[]> {
+    const memories = memoryIds.map(id => {
+      const memory = this.memories.find(m => m.id === id);
+      if (!memory) throw new Error(`Memory not found: ${id}`);
+      return memory;
+    });
+    if (memories.length === 0) return [];
+
+    const results = await MemoryIndexer.batchIndexOnChain(memories);
+    results.forEach((result, index) => {
+      if (result.success && result.transactionHash) {
+        memories[index].transactionHash = result.transactionHash;
+        memories[index].explorerUrl = `${process.env.NEXT_PUBLIC_0G_EXPLORER_URL || 'https://chainscan-galileo.0g.ai'}/tx/${result.transactionHash}`;
+      }
+    });
+    if (results.some(result => result.success)) {
+      this.saveMemoriesToStorage();
+    }
+    return results;
+  }
+
+  private linkIntoGraph(memory: MemoryEntry, vector?: number[]): void {
+    // Sealed memories only hold ciphertext, which would link to nothing meaningful
+    if (memory.accessPolicy?.threshold || memory.accessPolicy?.timelock) return;
+
     try {
-      if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
-        // Client-side storage
-        const deletedKey = 'deleted-memories';
-        const existing = localStorage.getItem(deletedKey);
-        const deletedMemories = existing ? JSON.parse(existing) : [];
-        
-        if (!deletedMemories.includes(memoryId)) {
-          deletedMemories.push(memoryId);
-          localStorage.setItem(deletedKey, JSON.stringify(deletedMemories));
-        }
-      } else {
-        // Server-side storage
-        console.log('📁 Using server-side storage for deleted memories');
-        const fs = require('fs');
-        const path = require('path');
-        const deletedFilePath = path.join(process.cwd(), '.deleted-memories.json');
-        console.log(`📁 Deleted memories file path: ${deletedFilePath}`);
-        
-        let deletedMemories: string[] = [];
-        if (fs.existsSync(deletedFilePath)) {
-          const fileContent = fs.readFileSync(deletedFilePath, 'utf-8');
-          deletedMemories = JSON.parse(fileContent);
-          console.log(`📁 Loaded ${deletedMemories.length} existing deleted memories`);
-        }
-        
-        if (!deletedMemories.includes(memoryId)) {
-          deletedMemories.push(memoryId);
-          fs.writeFileSync(deletedFilePath, JSON.stringify(deletedMemories, null, 2));
-          console.log(`📁 Added ${memoryId} to deleted memories file`);
-        } else {
-          console.log(`📁 Memory ${memoryId} already in deleted list`);
+      this.syncRelatedMemories(this.graph.linkMemory(memory, this.graphCandidates(), vector));
+    } catch (error) {
+      console.warn('⚠️ Failed to link memory into relationship graph:', error);
+    }
+  }
+
+  /**
+   * Update the people/places/organizations knowledge graph in the background (extraction may
+   * call the LLM). Summaries are skipped: their sources were already ingested.
+   */
+  private ingestEntities(memory: MemoryEntry): void {
+    if (memory.accessPolicy?.threshold || memory.accessPolicy?.timelock) return;
+    if (memory.tags?.includes(CONSOLIDATED_TAG)) return;
+
+    this.knowledgeGraph.ingestMemory(memory).catch(error => {
+      console.warn('⚠️ Failed to extract entities from memory:', error);
+    });
+  }
+
+  /**
+   * Pin or unpin a memory. Pinned memories score full importance and are never pruned or consolidated.
+   */
+  setPinned(memoryId: string, pinned: boolean): MemoryEntry {
+    const memory = this.patchMetadata(memoryId, {
+      pinned,
+      pinnedAt: pinned ? new Date().toISOString() : undefined
+    });
+    console.log(`📌 Memory ${memoryId} ${pinned ? 'pinned' : 'unpinned'}`);
+    return memory;
+  }
+
+  /**
+   * Count a retrieval of each memory (e.g. into a chat reply's context)
+   */
+  recordAccess(memoryIds: string[]): void {
+    const accessedAt = new Date().toISOString();
+    memoryIds.forEach(memoryId => {
+      const memory = this.memories.find(m => m.id === memoryId);
+      if (!memory) return;
+      this.patchMetadata(memoryId, {
+        accessCount: (memory.metadata?.accessCount || 0) + 1,
+        lastAccessedAt: accessedAt
+      });
+    });
+  }
+
+  /**
+   * Record whether a memory was useful; each vote nudges its importance up or down
+   */
+  recordFeedback(memoryId: string, helpful: boolean): MemoryEntry {
+    const memory = this.memories.find(m => m.id === memoryId);
+    if (!memory) {
+      throw new Error(`Memory not found: ${memoryId}`);
+    }
+    return this.patchMetadata(memoryId, { feedback: (memory.metadata?.feedback || 0) + (helpful ? 1 : -1) });
+  }
+
+  getImportance(memoryId: string): ImportanceScore {
+    const memory = this.memories.find(m => m.id === memoryId);
+    if (!memory) {
+      throw new Error(`Memory not found: ${memoryId}`);
+    }
+    return scoreImportance(memory);
+  }
+
+  /**
+   * Archive unpinned memories whose importance has decayed below the threshold. Sealed memories
+   * are never pruned; archived memories stay on-chain and can be searched with includeArchived.
+   */
+  async pruneMemories(options: PruneOptions = {}): Promise<PruneResult> {
+    const minImportance = options.minImportance ?? MemoryService.PRUNE_IMPORTANCE;
+    const dryRun = options.dryRun === true;
+    const visible = this.graphVisibility();
+    const now = Date.now();
+
+    const live = this.memories.filter(memory => visible(memory.id));
+    const pruned = live
+      .filter(memory => !memory.metadata?.pinned && !memory.accessPolicy?.threshold && !memory.accessPolicy?.timelock)
+      .map(memory => ({ id: memory.id, importance: scoreImportance(memory, now).score }))
+      .filter(candidate => candidate.importance < minImportance);
+
+    if (!dryRun) {
+      const prunedAt = new Date(now).toISOString();
+      for (const candidate of pruned) {
+        const memory = this.memories.find(m => m.id === candidate.id)!;
+        await this.updateMemory(candidate.id, {
+          metadata: { ...memory.metadata, archived: true, archivedAt: prunedAt, prunedAt, importance: candidate.importance }
+        });
+        this.syncRelatedMemories(this.graph.removeMemory(candidate.id));
+      }
+    }
+
+    console.log(`🍂 ${dryRun ? 'Would prune' : 'Pruned'} ${pruned.length} of ${live.length} memories below importance ${minImportance}`);
+    return { pruned, kept: live.length - pruned.length, dryRun };
+  }
+
+  /**
+   * Change importance-related metadata and refresh the stored score. Doesn't touch updatedAt, so
+   * bookkeeping doesn't count as an edit (or reset recency decay).
+   */
+  private patchMetadata(memoryId: string, patch: Partial<MemoryMetadata>): MemoryEntry {
+    const index = this.memories.findIndex(m => m.id === memoryId);
+    if (index === -1) {
+      throw new Error(`Memory not found: ${memoryId}`);
+    }
+
+    const memory: MemoryEntry = {
+      ...this.memories[index],
+      metadata: { ...this.memories[index].metadata, ...patch }
+    };
+    memory.metadata.importance = scoreImportance(memory).score;
+
+    this.memories[index] = memory;
+    this.saveMemoriesToStorage();
+    MemoryIndexer.updateMetadata(memory);
+    return memory;
+  }
+
+  /**
+   * Compare a new memory with similar existing ones in the background (the check may call the
+   * LLM). Clear updates archive the old memory as superseded; unclear conflicts are queued for
+   * the user.
+   */
+  private checkContradictions(memory: MemoryEntry, vector?: number[]): void {
+    if (CONTRADICTION_CHECKED_TYPES.indexOf(memory.type) === -1 || !vector) return;
+    if (memory.accessPolicy?.threshold || memory.accessPolicy?.timelock) return;
+    if (memory.tags?.includes(CONSOLIDATED_TAG)) return;
+
+    const live = new Map(this.graphCandidates().map(candidate => [candidate.id, candidate] as [string, MemoryEntry]));
+    const candidates: ContradictionCandidate[] = MemoryIndexer.searchByVectorWithScores(vector, MemoryService.CONTRADICTION_NEIGHBOURS)
+      .filter(hit => hit.memory.id !== memory.id && hit.similarity >= MemoryService.CONTRADICTION_SIMILARITY)
+      .map(hit => ({ memory: live.get(hit.memory.id)!, similarity: hit.similarity }))
+      .filter(candidate =>
+        candidate.memory &&
+        CONTRADICTION_CHECKED_TYPES.indexOf(candidate.memory.type) !== -1 &&
+        !candidate.memory.tags?.includes(CONSOLIDATED_TAG)
+      );
+    if (candidates.length === 0) return;
+
+    this.contradictions.detect(memory, candidates)
+      .then(async detected => {
+        for (const contradiction of detected) {
+          if (contradiction.resolution === 'supersede') {
+            await this.supersede(contradiction.existing.id, memory.id);
+            this.contradictions.record(memory, contradiction, 'superseded');
+          } else {
+            this.contradictions.record(memory, contradiction, 'pending');
+          }
         }
+      })
+      .catch(error => {
+        console.warn('⚠️ Failed to check memory for contradictions:', error);
+      });
+  }
+
+  /**
+   * Contradictions found between memories, newest first
+   */
+  listContradictions(options: { pendingOnly?: boolean } = {}): MemoryConflict[] {
+    return this.contradictions.list(options.pendingOnly ? 'pending' : undefined);
+  }
+
+  /**
+   * Settle a queued contradiction with the user's answer
+   */
+  async resolveContradiction(conflictId: string, action: ContradictionAction): Promise<MemoryConflict> {
+    const conflict = this.contradictions.get(conflictId);
+    if (!conflict) {
+      throw new Error(`Contradiction not found: ${conflictId}`);
+    }
+    if (conflict.status !== 'pending') {
+      throw new Error(`Contradiction ${conflictId} is already resolved (${conflict.status})`);
+    }
+
+    if (action === 'keep-new') {
+      await this.supersede(conflict.existingMemoryId, conflict.newMemoryId);
+    } else if (action === 'keep-existing') {
+      // The newer statement was wrong; the earlier memory stands
+      await this.supersede(conflict.newMemoryId, conflict.existingMemoryId);
+    }
+
+    const status = action === 'keep-new' ? 'superseded' : action === 'keep-existing' ? 'kept-existing' : 'kept-both';
+    console.log(`⚖️ Contradiction ${conflictId} resolved: ${status}`);
+    return this.contradictions.update(conflictId, {
+      status,
+      resolvedAt: new Date().toISOString(),
+      resolvedBy: 'user'
+    });
+  }
+
+  /**
+   * The oldest contradiction the assistant hasn't asked about yet, marked as asked. Conflicts whose
+   * memories were since deleted or archived are skipped.
+   */
+  nextContradictionToAsk(): MemoryConflict | null {
+    const visible = this.graphVisibility();
+    const next = this.contradictions.list('pending')
+      .reverse()
+      .find(conflict => !conflict.askedAt && visible(conflict.newMemoryId) && visible(conflict.existingMemoryId));
+    if (!next) return null;
+
+    return this.contradictions.update(next.id, { askedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Archive a memory that a newer one replaced, linking the two both ways
+   */
+  private async supersede(oldMemoryId: string, newMemoryId: string): Promise<void> {
+    const oldMemory = this.memories.find(m => m.id === oldMemoryId);
+    const newMemory = this.memories.find(m => m.id === newMemoryId);
+    if (!oldMemory || !newMemory) {
+      throw new Error(`Memory not found: ${!oldMemory ? oldMemoryId : newMemoryId}`);
+    }
+
+    await this.updateMemory(oldMemoryId, {
+      metadata: {
+        ...oldMemory.metadata,
+        archived: true,
+        archivedAt: new Date().toISOString(),
+        supersededBy: newMemoryId
+      }
+    });
+    await this.updateMemory(newMemoryId, {
+      metadata: {
+        ...newMemory.metadata,
+        supersedes: Array.from(new Set([...(newMemory.metadata?.supersedes || []), oldMemoryId]))
+      }
+    });
+    this.syncRelatedMemories(this.graph.removeMemory(oldMemoryId));
+    console.log(`🔁 Memory ${oldMemoryId} superseded by ${newMemoryId}`);
+  }
+
+  /**
+   * Mirror graph neighbours into metadata.relatedMemories. Consolidation summaries keep their
+   * source list there instead, since restore re-archives the sources from it.
+   */
+  private syncRelatedMemories(memoryIds: string[]): void {
+    const ids = new Set(memoryIds);
+    const changed: MemoryEntry[] = [];
+
+    this.memories.forEach(memory => {
+      if (!ids.has(memory.id) || memory.tags?.includes(CONSOLIDATED_TAG)) return;
+      memory.metadata = { ...memory.metadata, relatedMemories: this.graph.getRelatedIds(memory.id) };
+      changed.push(memory);
+    });
+
+    if (changed.length > 0) {
+      this.saveMemoriesToStorage();
+      changed.forEach(memory => MemoryIndexer.updateMetadata(memory));
+    }
+  }
+
+  private graphCandidates(): MemoryEntry[] {
+    const visible = this.graphVisibility();
+    return this.memories.filter(memory =>
+      visible(memory.id) && !memory.accessPolicy?.threshold && !memory.accessPolicy?.timelock
+    );
+  }
+
+  private graphVisibility(): (memoryId: string) => boolean {
+    const deleted = new Set(this.getDeletedMemories());
+    const live = new Set(this.memories.filter(memory => !memory.metadata?.archived).map(memory => memory.id));
+    return (memoryId: string) => live.has(memoryId) && !deleted.has(memoryId);
+  }
+
+  private addToDeletedMemories(memoryId: string): void {
+    try {
+      const deletedMemories = this.getDeletedMemories();
+      
+      if (!deletedMemories.includes(memoryId)) {
+        deletedMemories.push(memoryId);
+        this.store.set('deleted-memories', deletedMemories);
+        console.log(`🗑️ Added ${memoryId} to deleted memories (${this.store.backend} store)`);
       }
     } catch (error) {
       console.warn('⚠️ Failed to update deleted memories list:', error);
@@ -523,35 +1406,164 @@ export class MemoryService {
 
   private getDeletedMemories(): string[] {
     try {
-      if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
-        // Client-side storage
-        const deletedKey = 'deleted-memories';
-        const existing = localStorage.getItem(deletedKey);
-        return existing ? JSON.parse(existing) : [];
-      } else {
-        // Server-side storage
-        const fs = require('fs');
-        const path = require('path');
-        const deletedFilePath = path.join(process.cwd(), '.deleted-memories.json');
-        
-        if (fs.existsSync(deletedFilePath)) {
-          const fileContent = fs.readFileSync(deletedFilePath, 'utf-8');
-          return JSON.parse(fileContent);
-        }
-        return [];
-      }
+      return this.store.get<string[]>('deleted-memories', []);
     } catch (error) {
       console.warn('⚠️ Failed to load deleted memories list:', error);
       return [];
     }
   }
 
+  /**
+   * Create a memory that requires `requiredSignatures` of the policy's signers to unlock.
+   * Content is encrypted under a Shamir-split key before it is stored anywhere; the returned
+   * shares must be distributed to the signers and are not kept by the service.
+   */
+  async createThresholdMemory(
+    memoryData: Omit<MemoryEntry, 'id' | 'createdAt' | 'updatedAt' | 'ipfsHash'>,
+    policy: ThresholdPolicy
+  ): Promise<{ memory: MemoryEntry; shares: ThresholdShareAssignment[] }> {
+    const { sealedContent, shares } = await this.thresholdAccess.lock(memoryData.content, policy);
+
+    const memory = await this.createMemory({
+      ...memoryData,
+      content: sealedContent,
+      encrypted: true,
+      accessPolicy: {
+        ...memoryData.accessPolicy,
+        threshold: policy
+      }
+    }, { onDuplicate: 'allow' }); // Ciphertext can't be compared
+
+    console.log(`🔐 Threshold memory created: ${memory.id} (${policy.requiredSignatures} of ${policy.signers.length})`);
+    return { memory, shares };
+  }
+
+  async getThresholdStatus(memoryId: string): Promise<ThresholdUnlockStatus> {
+    const memory = await this.getMemory(memoryId);
+    if (!memory) {
+      throw new Error(`Memory not found: ${memoryId}`);
+    }
+    return this.thresholdAccess.getStatus(memory);
+  }
+
+  /**
+   * Submit one signer's share; the decrypted content is returned once the quorum is met
+   */
+  async submitThresholdShare(memoryId: string, signer: string, share: string): Promise<ThresholdUnlockStatus> {
+    const memory = await this.getMemory(memoryId);
+    if (!memory) {
+      throw new Error(`Memory not found: ${memoryId}`);
+    }
+    return this.thresholdAccess.submitShare(memory, signer, share);
+  }
+
+  cancelThresholdUnlock(memoryId: string): boolean {
+    return this.thresholdAccess.cancel(memoryId);
+  }
+
+  /**
+   * Create a memory that cannot be read before policy.unlockTime ("letter to future self").
+   * The content key is sealed to the timelock beacon round for that time.
+   */
+  async createTimelockMemory(
+    memoryData: Omit<MemoryEntry, 'id' | 'createdAt' | 'updatedAt' | 'ipfsHash'>,
+    policy: TimelockPolicy
+  ): Promise<MemoryEntry> {
+    const unlockTime = new Date(policy.unlockTime);
+    if (isNaN(unlockTime.getTime()) || unlockTime.getTime() <= Date.now()) {
+      throw new Error('Timelock unlockTime must be in the future');
+    }
+    if (policy.autoDelete && new Date(policy.autoDelete).getTime() <= unlockTime.getTime()) {
+      throw new Error('Timelock autoDelete must be after unlockTime');
+    }
+
+    const { timelock, encryptedContent } = await this.encryptionService.createTimelockEncryption(memoryData.content, unlockTime);
+    const sealed: TimelockSealedContent = { timelock, encryptedContent };
+
+    const memory = await this.createMemory({
+      ...memoryData,
+      content: JSON.stringify(sealed),
+      encrypted: true,
+      accessPolicy: {
+        ...memoryData.accessPolicy,
+        timelock: policy
+      }
+    }, { onDuplicate: 'allow' }); // Ciphertext can't be compared
+
+    console.log(`⏳ Timelocked memory created: ${memory.id} (unlocks ${unlockTime.toISOString()}, round ${timelock.round})`);
+    return memory;
+  }
+
+  /**
+   * Return a timelocked memory with its content decrypted; fails until the unlock round is published
+   */
+  async openTimelockMemory(memoryId: string): Promise<MemoryEntry> {
+    const memory = await this.getMemory(memoryId);
+    if (!memory) {
+      throw new Error(`Memory not found: ${memoryId}`);
+    }
+    if (!memory.accessPolicy?.timelock) {
+      throw new Error(`Memory ${memoryId} is not timelocked`);
+    }
+
+    const sealed: TimelockSealedContent = JSON.parse(memory.content);
+    const result = await this.encryptionService.decryptTimelock(sealed.timelock, sealed.encryptedContent);
+
+    console.log(`🔓 Timelock opened for ${memoryId}`);
+    return { ...memory, content: result.content };
+  }
+
+  /**
+   * Tokenize or redact PII in the content and record what was removed in metadata.pii.
+   * Sealed memories are skipped: their content is already ciphertext.
+   */
+  private protectContent<T extends Pick<MemoryEntry, 'content' | 'accessPolicy' | 'metadata'>>(memory: T): T {
+    if (memory.accessPolicy?.threshold || memory.accessPolicy?.timelock) return memory;
+
+    const result = this.pii.protect(memory.content);
+    const metadata = { ...memory.metadata, pii: result.summary };
+    if (!result.summary) delete metadata.pii;
+    return { ...memory, content: result.content, metadata };
+  }
+
+  /**
+   * Copy of a memory with vaulted PII put back, for use on this device only
+   */
+  private rehydrate(memory: MemoryEntry): MemoryEntry {
+    const content = this.pii.rehydrate(memory.content);
+    return content === memory.content ? memory : { ...memory, content };
+  }
+
+  private isPastAutoDelete(memory: MemoryEntry): boolean {
+    const autoDelete = memory.accessPolicy?.timelock?.autoDelete;
+    return !!autoDelete && new Date(autoDelete).getTime() <= Date.now();
+  }
+
+  /**
+   * Delete memories whose TimelockPolicy.autoDelete time has passed, revoking their on-chain anchor
+   */
+  private async enforceAutoDelete(): Promise<void> {
+    const expired = this.memories.filter(memory => this.isPastAutoDelete(memory));
+    for (const memory of expired) {
+      await this.expireMemory(memory);
+    }
+  }
+
+  /**
+   * Revoke an expired memory's on-chain commitment, then delete it locally
+   */
+  private async expireMemory(memory: MemoryEntry): Promise<void> {
+    console.log(`⏰ Auto-deleting expired memory: ${memory.id}`);
+    await MemoryIndexer.revokeMemory(memory);
+    await this.deleteMemory(memory.id);
+  }
+
   async getAllMemories(): Promise<MemoryEntry[]> {
     try {
       // Return decrypted memories from local cache
       const decryptedMemories = await Promise.all(
         this.memories.map(async (memory) => {
-          return memory;
+          return this.rehydrate(memory);
         })
       );
 
@@ -573,8 +1585,8 @@ export class MemoryService {
       
       try {
         // Get total count from local storage (all memories, not just cached ones)
-        const allLocalMemories = await this.searchMemories({ query: '', limit: 10000 });
-        totalMemories = allLocalMemories.memories.length;
+        const allLocalMemories = await this.searchMemories({ query: '', limit: 1 });
+        totalMemories = allLocalMemories.totalCount;
         
         // Try to get count from contract if available
         const contractResponse = await fetch('/api/memories-from-contract');
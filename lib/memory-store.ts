@@ -0,0 +1,174 @@
+/**
+ * Memory Store - Pluggable key/value persistence for memory caches and indices
+ * Browser builds persist to localStorage, server routes persist to JSON files on disk
+ */
+export interface MemoryStore {
+  readonly backend: 'localStorage' | 'file' | 'memory';
+  get<T>(key: string, fallback: T): T;
+  set<T>(key: string, value: T): void;
+  remove(key: string): void;
+  keys(): string[];
+}
+
+/**
+ * Browser store backed by window.localStorage
+ */
+export class BrowserMemoryStore implements MemoryStore {
+  readonly backend = 'localStorage' as const;
+
+  get<T>(key: string, fallback: T): T {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored !== null ? JSON.parse(stored) : fallback;
+    } catch (error) {
+      console.warn(`⚠️ Failed to read "${key}" from localStorage:`, error);
+      return fallback;
+    }
+  }
+
+  set<T>(key: string, value: T): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.warn(`⚠️ Failed to write "${key}" to localStorage:`, error);
+    }
+  }
+
+  remove(key: string): void {
+    localStorage.removeItem(key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+/**
+ * Server store that keeps one JSON file per key inside a data directory
+ * Raw file contents are cached in-process; writes go through a temp file and rename
+ */
+export class FileMemoryStore implements MemoryStore {
+  readonly backend = 'file' as const;
+  private directory: string;
+  private cache: Map<string, string> = new Map();
+
+  constructor(directory: string) {
+    const fs = require('fs');
+    this.directory = directory;
+    fs.mkdirSync(this.directory, { recursive: true });
+    console.log(`📁 File memory store ready at ${this.directory}`);
+  }
+
+  get<T>(key: string, fallback: T): T {
+    try {
+      let raw = this.cache.get(key);
+      if (raw === undefined) {
+        const fs = require('fs');
+        const filePath = this.getFilePath(key);
+        if (!fs.existsSync(filePath)) {
+          return fallback;
+        }
+        raw = fs.readFileSync(filePath, 'utf-8') as string;
+        this.cache.set(key, raw);
+      }
+
+      return JSON.parse(raw);
+    } catch (error) {
+      console.warn(`⚠️ Failed to read "${key}" from file store:`, error);
+      return fallback;
+    }
+  }
+
+  set<T>(key: string, value: T): void {
+    try {
+      const fs = require('fs');
+      const filePath = this.getFilePath(key);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      const raw = JSON.stringify(value);
+      fs.writeFileSync(tempPath, raw);
+      fs.renameSync(tempPath, filePath);
+      this.cache.set(key, raw);
+    } catch (error) {
+      console.warn(`⚠️ Failed to write "${key}" to file store:`, error);
+    }
+  }
+
+  remove(key: string): void {
+    const fs = require('fs');
+    const filePath = this.getFilePath(key);
+    this.cache.delete(key);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  keys(): string[] {
+    const fs = require('fs');
+    return fs.readdirSync(this.directory)
+      .filter((file: string) => file.endsWith('.json'))
+      .map((file: string) => decodeURIComponent(file.slice(0, -'.json'.length)));
+  }
+
+  private getFilePath(key: string): string {
+    const path = require('path');
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
+
+/**
+ * Volatile store used when neither localStorage nor the filesystem is writable
+ */
+export class InMemoryStore implements MemoryStore {
+  readonly backend = 'memory' as const;
+  private data: Map<string, string> = new Map();
+
+  get<T>(key: string, fallback: T): T {
+    const stored = this.data.get(key);
+    return stored !== undefined ? JSON.parse(stored) : fallback;
+  }
+
+  set<T>(key: string, value: T): void {
+    this.data.set(key, JSON.stringify(value));
+  }
+
+  remove(key: string): void {
+    this.data.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.data.keys());
+  }
+}
+
+/**
+ * Pick the store backend for the current runtime
+ */
+export function createMemoryStore(): MemoryStore {
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    return new BrowserMemoryStore();
+  }
+
+  try {
+    const path = require('path');
+    const directory = process.env.MEMORY_STORE_DIR || path.join(process.cwd(), '.memory-store');
+    return new FileMemoryStore(directory);
+  } catch (error) {
+    console.warn('⚠️ File memory store unavailable, falling back to in-memory store:', error);
+    return new InMemoryStore();
+  }
+}
+
+// Singleton instance
+let memoryStoreInstance: MemoryStore | null = null;
+
+export function getMemoryStore(): MemoryStore {
+  if (!memoryStoreInstance) {
+    memoryStoreInstance = createMemoryStore();
+  }
+  return memoryStoreInstance;
+}
@@ -0,0 +1,209 @@
+import { ethers } from 'ethers';
+import { MemoryEntry, MemoryVersion } from '@/types/memory';
+import { getMemoryStore, MemoryStore } from './memory-store';
+
+/**
+ * Memory Versions - append-only history of every content revision of a memory
+ * The memory entry always holds the latest version; earlier versions are kept here (and in
+ * their own blobs), linked through parentId. They are never modified, and are only removed
+ * together with the memory itself.
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOperation;
+  text: string;
+}
+
+export interface MemoryVersionDiff {
+  memoryId: string;
+  from: number;
+  to: number;
+  segments: DiffSegment[];
+  tagsAdded: string[];
+  tagsRemoved: string[];
+  categoryChanged: boolean;
+}
+
+// Above this many token comparisons the diff falls back to replacing the whole text
+const MAX_DIFF_CELLS = 1000000;
+
+export class MemoryVersionStore {
+  private static readonly VERSIONS_KEY = 'og_memory_versions';
+  private store: MemoryStore;
+
+  constructor(store: MemoryStore = getMemoryStore()) {
+    this.store = store;
+  }
+
+  /**
+   * All versions of a memory, oldest first
+   */
+  getHistory(memoryId: string): MemoryVersion[] {
+    return this.loadAll()[memoryId] || [];
+  }
+
+  getVersion(memoryId: string, version: number): MemoryVersion | null {
+    return this.getHistory(memoryId).find(entry => entry.version === version) || null;
+  }
+
+  /**
+   * Snapshot the memory's current content as its version. Versions are immutable, so recording
+   * a version number that already exists is a no-op.
+   */
+  record(memory: MemoryEntry, extra: Pick<MemoryVersion, 'revertedFrom' | 'anchored' | 'transactionHash'> = {}): MemoryVersion {
+    const all = this.loadAll();
+    const history = all[memory.id] || [];
+    const version = memory.metadata?.version || 1;
+
+    const existing = history.find(entry => entry.version === version);
+    if (existing) {
+      return existing;
+    }
+
+    const entry: MemoryVersion = {
+      memoryId: memory.id,
+      version,
+      content: memory.content,
+      tags: [...(memory.tags || [])],
+      category: memory.category,
+      contentHash: ethers.keccak256(ethers.toUtf8Bytes(memory.content)),
+      blobId: memory.metadata?.blobId || (memory.ipfsHash !== memory.id ? memory.ipfsHash : undefined),
+      parentId: memory.metadata?.parentId,
+      createdAt: new Date(memory.updatedAt || memory.createdAt).toISOString(),
+      ...extra
+    };
+
+    all[memory.id] = [...history, entry].sort((a, b) => a.version - b.version);
+    this.saveAll(all);
+    return entry;
+  }
+
+  /**
+   * Every recorded version of every memory
+   */
+  getAllVersions(): MemoryVersion[] {
+    const all = this.loadAll();
+    return Object.keys(all).reduce((versions, memoryId) => versions.concat(all[memoryId]), [] as MemoryVersion[]);
+  }
+
+  /**
+   * Remove a deleted memory's history. Returns the number of versions removed.
+   */
+  purge(memoryId: string): number {
+    const all = this.loadAll();
+    const removed = (all[memoryId] || []).length;
+    if (removed > 0) {
+      delete all[memoryId];
+      this.saveAll(all);
+    }
+    return removed;
+  }
+
+  /**
+   * Word-level diff between two versions of a memory
+   */
+  diff(memoryId: string, from: number, to: number): MemoryVersionDiff {
+    const fromVersion = this.getVersion(memoryId, from);
+    const toVersion = this.getVersion(memoryId, to);
+    if (!fromVersion || !toVersion) {
+      throw new Error(`Version ${!fromVersion ? from : to} not found for memory ${memoryId}`);
+    }
+
+    const fromTags = new Set(fromVersion.tags);
+    const toTags = new Set(toVersion.tags);
+
+    return {
+      memoryId,
+      from,
+      to,
+      segments: diffText(fromVersion.content, toVersion.content),
+      tagsAdded: toVersion.tags.filter(tag => !fromTags.has(tag)),
+      tagsRemoved: fromVersion.tags.filter(tag => !toTags.has(tag)),
+      categoryChanged: fromVersion.category !== toVersion.category
+    };
+  }
+
+  private loadAll(): Record<string, MemoryVersion[]> {
+    return this.store.get<Record<string, MemoryVersion[]>>(MemoryVersionStore.VERSIONS_KEY, {});
+  }
+
+  private saveAll(all: Record<string, MemoryVersion[]>): void {
+    this.store.set(MemoryVersionStore.VERSIONS_KEY, all);
+  }
+}
+
+/**
+ * Longest-common-subsequence diff over words (whitespace is kept as its own token)
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return mergeSegments([
+      { op: 'delete', text: before },
+      { op: 'insert', text: after }
+    ]);
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    lengths.push(new Array(b.length + 1).fill(0));
+  }
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ op: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      segments.push({ op: 'delete', text: a[i++] });
+    } else {
+      segments.push({ op: 'insert', text: b[j++] });
+    }
+  }
+  while (i < a.length) segments.push({ op: 'delete', text: a[i++] });
+  while (j < b.length) segments.push({ op: 'insert', text: b[j++] });
+
+  return mergeSegments(segments);
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  return segments.reduce<DiffSegment[]>((merged, segment) => {
+    if (!segment.text) return merged;
+    const last = merged[merged.length - 1];
+    if (last && last.op === segment.op) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
+
+// Singleton instance
+let memoryVersionStoreInstance: MemoryVersionStore | null = null;
+
+export function getMemoryVersionStore(): MemoryVersionStore {
+  if (!memoryVersionStoreInstance) {
+    memoryVersionStoreInstance = new MemoryVersionStore();
+  }
+  return memoryVersionStoreInstance;
+}
@@ -2,6 +2,13 @@ import { ChatMessage } from '@/types/chat';
 import { CalendarEvent, getGoogleCalendarClient } from './google-calendar-client';
 import { getMemoryService } from './memory-service';
 import { AIResponse } from './ai-service';
+import { MemoryConflict, MemoryEntry, MemoryProvenance, ProposedMemory } from '@/types/memory';
+import { getMemoryExtractor } from './memory-extraction';
+import { getMemoryConsolidationService } from './memory-consolidation';
+import { getRetentionService } from './retention';
+import { getKnowledgeGraphService } from './knowledge-graph';
+import { getMemoryReviewQueue } from './memory-review';
+import { v4 as uuidv4 } from 'uuid';
 
 export interface PersonalInsights {
   scheduleAnalysis: {
@@ -42,9 +49,35 @@ export interface UserProfile {
   };
 }
 
+// Chat session and message a reply answers, recorded as the provenance of memories learned from it
+export interface MessageSource {
+  sessionId?: string;
+  messageId?: string;
+}
+
+export interface MemoryContext {
+  block: string; // Prompt section listing the retrieved memories
+  memoryIds: string[]; // In the order they appear in the block
+}
+
 export class PersonalizedAgentService {
+  // Retrieval budget for the memory section of the system prompt (~4 characters per token)
+  private static readonly MEMORY_TOKEN_BUDGET = 1200;
+  private static readonly MAX_MEMORY_TOKENS = 250;
+  private static readonly SEMANTIC_MEMORY_LIMIT = 6;
+  private static readonly PROFILE_MEMORY_LIMIT = 2;
+  private static readonly PINNED_MEMORY_LIMIT = 3;
+  private static readonly RECENT_MEMORY_LIMIT = 3;
+  private static readonly GRAPH_SEED_LIMIT = 3; // Top semantic hits whose graph neighbours are also considered
+  private static readonly GRAPH_NEIGHBOUR_LIMIT = 2;
+  private static readonly ENTITY_LIMIT = 3; // People/places/orgs from the message described in the prompt
+  private static readonly ENTITY_INTERACTION_LIMIT = 4;
+
   private calendarClient: any = null;
   private memoryService = getMemoryService();
+  private memoryExtractor = getMemoryExtractor();
+  private knowledgeGraph = getKnowledgeGraphService();
+  private reviewQueue = getMemoryReviewQueue();
   private userProfile: UserProfile | null = null;
 
   constructor() {
@@ -69,13 +102,20 @@ export class PersonalizedAgentService {
   }
 
   // Enhanced AI response with personalized context
-  async generatePersonalizedResponse(userInput: string, previousMessages: ChatMessage[]): Promise<AIResponse> {
+  async generatePersonalizedResponse(userInput: string, previousMessages: ChatMessage[], source: MessageSource = {}): Promise<AIResponse> {
+    const messageId = uuidv4();
     try {
       // Get calendar insights
       const insights = await this.analyzeSchedule();
       
+      // Retrieve memories relevant to this message before learning from it
+      const memoryContext = await this.retrieveMemoryContext(userInput);
+
       // Build personalized context
-      const personalContext = this.buildPersonalContext(insights, userInput);
+      const entityContext = this.retrieveEntityContext(userInput);
+      // At most one contradiction per reply, so the conversation doesn't turn into a quiz
+      const clarification = this.memoryService.nextContradictionToAsk() || undefined;
+      const personalContext = this.buildPersonalContext(insights, userInput, memoryContext, entityContext, clarification);
       
       // Enhanced system prompt for personalized agent
       const enhancedMessages = [
@@ -98,7 +138,10 @@ export class PersonalizedAgentService {
       
       // Learn from interaction
       try {
-        const memoryResult = await this.learnFromInteraction(userInput, response);
+        const memoryResult = await this.learnFromInteraction(userInput, response, {
+          sessionId: source.sessionId,
+          messageIds: source.messageId ? [source.messageId, messageId] : [messageId]
+        });
         console.log('🔍 MEMORY RESULT FROM LEARNING:', memoryResult);
         
         const finalResponse = {
@@ -107,7 +150,12 @@ export class PersonalizedAgentService {
           explorerUrl: memoryResult.explorerUrl,
           transactionHash: memoryResult.transactionHash,
           walrusUrl: memoryResult.walrusUrl,
-          indexingStatus: memoryResult.indexingStatus
+          indexingStatus: memoryResult.indexingStatus,
+          memoriesUsed: memoryContext.memoryIds,
+          clarification,
+          proposedMemories: memoryResult.proposedMemories,
+          messageId,
+          memoriesCreated: memoryResult.memoriesCreated
         };
         
         console.log('🔍 FINAL RESPONSE BEING RETURNED:', finalResponse);
@@ -117,7 +165,10 @@ export class PersonalizedAgentService {
         // Return response without learning if learning fails
         return {
           content: response,
-          shouldStore: false
+          shouldStore: false,
+          memoriesUsed: memoryContext.memoryIds,
+          clarification,
+          messageId
         };
       }
     } catch (error) {
@@ -539,7 +590,151 @@ export class PersonalizedAgentService {
     };
   }
 
-  private buildPersonalContext(insights: PersonalInsights, userInput: string): string {
+  /**
+   * Retrieve the memories most relevant to the user's message: hybrid (keyword + semantic)
+   * matches first, then pinned and profile memories, then the most recent ones, packed into a token budget
+   */
+  async retrieveMemoryContext(userInput: string): Promise<MemoryContext> {
+    const candidates: MemoryEntry[] = [];
+
+    try {
+      const semantic = await this.memoryService.searchMemories({
+        query: userInput,
+        limit: PersonalizedAgentService.SEMANTIC_MEMORY_LIMIT
+      });
+
+      // Pinned, profile and recent memories come straight from the local cache the search already refreshed
+      const newestFirst = (await this.memoryService.getAllMemories())
+        .filter(memory => !memory.metadata?.archived)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+      // Walk one hop out from the best matches so linked context comes along
+      const linked: MemoryEntry[] = [];
+      semantic.memories.slice(0, PersonalizedAgentService.GRAPH_SEED_LIMIT).forEach(seed => {
+        try {
+          this.memoryService.getRelatedMemories(seed.id, {
+            depth: 1,
+            limit: PersonalizedAgentService.GRAPH_NEIGHBOUR_LIMIT
+          }).related.forEach(neighbour => linked.push(neighbour.memory));
+        } catch (graphError) {
+          console.warn('⚠️ Failed to expand memory through graph:', graphError);
+        }
+      });
+
+      candidates.push(
+        ...semantic.memories,
+        ...linked,
+        ...newestFirst.filter(memory => memory.metadata?.pinned).slice(0, PersonalizedAgentService.PINNED_MEMORY_LIMIT),
+        ...newestFirst.filter(memory => memory.type === 'profile_data').slice(0, PersonalizedAgentService.PROFILE_MEMORY_LIMIT),
+        ...newestFirst.slice(0, PersonalizedAgentService.RECENT_MEMORY_LIMIT)
+      );
+    } catch (error) {
+      console.warn('⚠️ Memory retrieval failed, answering without memories:', error);
+      return { block: '', memoryIds: [] };
+    }
+
+    const lines: string[] = [];
+    const memoryIds: string[] = [];
+    let remainingTokens = PersonalizedAgentService.MEMORY_TOKEN_BUDGET;
+
+    for (const memory of candidates) {
+      if (memoryIds.includes(memory.id)) continue;
+
+      // Threshold- and timelocked memories only hold ciphertext
+      if (memory.accessPolicy?.threshold || memory.accessPolicy?.timelock) continue;
+
+      const summary = this.summarizeMemory(memory);
+      if (!summary) continue;
+
+      const line = `[${memory.id}] (${memory.category}, ${new Date(memory.createdAt).toLocaleDateString()}) ${summary}`;
+      const tokens = this.estimateTokens(line);
+      if (tokens > remainingTokens) continue;
+
+      lines.push(line);
+      memoryIds.push(memory.id);
+      remainingTokens -= tokens;
+    }
+
+    console.log(`🧠 Retrieved ${memoryIds.length} memories for context (${PersonalizedAgentService.MEMORY_TOKEN_BUDGET - remainingTokens} tokens)`);
+    try {
+      this.memoryService.recordAccess(memoryIds);
+    } catch (error) {
+      console.warn('⚠️ Failed to record memory access:', error);
+    }
+    return { block: lines.join('\n'), memoryIds };
+  }
+
+  /**
+   * Describe the known people, places and organizations the message mentions: when the user last
+   * met them, what they usually talk about and their latest interactions
+   */
+  retrieveEntityContext(userInput: string): string {
+    try {
+      const formatDate = (date: string) => new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+      return this.knowledgeGraph.findMentionedEntities(userInput)
+        .slice(0, PersonalizedAgentService.ENTITY_LIMIT)
+        .map(entity => {
+          const profile = this.knowledgeGraph.getProfile(entity.id)!;
+          const facts = [
+            profile.lastMetInteraction
+              ? `last met ${formatDate(profile.lastMetInteraction.date)} (${profile.lastMetInteraction.summary})`
+              : 'no recorded meeting',
+            entity.nextMeeting ? `next meeting ${formatDate(entity.nextMeeting)}` : '',
+            profile.topTopics.length > 0 ? `topics: ${profile.topTopics.join(', ')}` : '',
+            entity.preferences.length > 0 ? `preferences: ${entity.preferences.slice(0, 3).join('; ')}` : ''
+          ].filter(Boolean);
+
+          const interactions = profile.recentInteractions
+            .slice(0, PersonalizedAgentService.ENTITY_INTERACTION_LIMIT)
+            .map(interaction => `  - ${formatDate(interaction.date)} [${interaction.source}] ${interaction.summary}`);
+
+          return [`${entity.name} (${entity.kind}): ${facts.join('; ')}`, ...interactions].join('\n');
+        })
+        .join('\n');
+    } catch (error) {
+      console.warn('⚠️ Entity lookup failed, answering without it:', error);
+      return '';
+    }
+  }
+
+  /**
+   * Condense a memory to a single line, capped at MAX_MEMORY_TOKENS
+   */
+  private summarizeMemory(memory: MemoryEntry): string {
+    let text = memory.content || '';
+
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed && parsed.userQuery) {
+        // Interaction stored by learnFromInteraction
+        text = `I said: "${parsed.userQuery}" — you replied: "${parsed.aiResponse || ''}"`;
+      } else if (parsed && parsed.preferences && parsed.goals) {
+        // Stored UserProfile
+        text = `Profile: preferences ${JSON.stringify(parsed.preferences)}; goals ${JSON.stringify(parsed.goals)}`;
+      } else if (parsed && parsed.encryptedContent) {
+        return ''; // Ciphertext, nothing useful to show the model
+      }
+    } catch {
+      // Plain-text memory
+    }
+
+    text = text.replace(/\s+/g, ' ').trim();
+    const maxChars = PersonalizedAgentService.MAX_MEMORY_TOKENS * 4;
+    return text.length > maxChars ? text.substring(0, maxChars) + '...' : text;
+  }
+
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  private buildPersonalContext(
+    insights: PersonalInsights,
+    userInput: string,
+    memoryContext?: MemoryContext,
+    entityContext?: string,
+    clarification?: MemoryConflict
+  ): string {
     const context = [];
     
     context.push(`Schedule Analysis:
@@ -555,6 +750,22 @@ export class PersonalizedAgentService {
     context.push(`Wellness Status:
 - Work-life balance score: ${insights.wellness.balanceScore}/10
 - Stress indicators: ${insights.wellness.stressIndicators.length > 0 ? insights.wellness.stressIndicators.slice(0, 2).join(', ') : 'None detected'}`);
+
+    if (memoryContext && memoryContext.block) {
+      context.push(`What you remember about me (from past conversations, most relevant first):
+${memoryContext.block}`);
+    }
+
+    if (entityContext) {
+      context.push(`People, places and organizations I mentioned (from my memories and calendar):
+${entityContext}`);
+    }
+
+    if (clarification) {
+      context.push(`Something I told you that conflicts (${clarification.reason}):
+- Earlier: ${clarification.existingContent}
+- More recently: ${clarification.newContent}`);
+    }
     
     return context.join('\n');
   }
@@ -590,6 +801,9 @@ Guidelines:
 - Be proactive in suggesting improvements
 - Keep responses conversational and personalized
 - Reference specific times, meetings, or patterns when relevant
+- Draw on what you remember about me when it helps, and don't claim to remember things that aren't listed
+- When I ask about someone or somewhere, answer from what's listed about them (when we last met, what we talked about)
+- If something I told you conflicts, answer me first, then briefly ask which of the two is still true
 
 Remember: You're not just an assistant, you're a trusted companion who genuinely wants the best for me. Every interaction should feel personal, caring, and valuable.
 
@@ -627,48 +841,74 @@ Current date and time: ${new Date().toLocaleString()}`;
     return data.choices[0]?.message?.content || 'I apologize, but I could not generate a response.';
   }
 
-  private async learnFromInteraction(userInput: string, aiResponse: string): Promise<{ explorerUrl?: string; transactionHash?: string; walrusUrl?: string; indexingStatus?: string }> {
+  private async learnFromInteraction(
+    userInput: string,
+    aiResponse: string,
+    source: Pick<MemoryProvenance, 'sessionId' | 'messageIds'>
+  ): Promise<{ explorerUrl?: string; transactionHash?: string; walrusUrl?: string; indexingStatus?: string; proposedMemories?: ProposedMemory[]; memoriesCreated?: string[] }> {
     try {
       console.log('🔍 LEARN FROM INTERACTION STARTED');
       
-      // Store interaction patterns and preferences (limit content size more aggressively)
-      const truncatedInput = userInput.length > 50 ? userInput.substring(0, 50) + '...' : userInput;
-      const truncatedResponse = aiResponse.length > 75 ? aiResponse.substring(0, 75) + '...' : aiResponse;
-      
-      // Analyze the interaction to determine appropriate memory attributes
-      const memoryAttributes = this.analyzeInteractionForMemory(userInput, aiResponse);
-      
-      // Create memory but don't wait for indexing to complete
-      const memory = await this.memoryService.createMemory({
-        content: memoryAttributes.content,
-        type: memoryAttributes.type,
-        category: memoryAttributes.category,
-        tags: memoryAttributes.tags,
-        encrypted: true,
-        accessPolicy: {
-          owner: 'local-user',
-          permissions: []
-        },
-        metadata: {
-          size: userInput.length + aiResponse.length,
-          checksum: '',
-          version: 1,
-          relatedMemories: []
+      // Turn the exchange into atomic memories (facts, preferences, commitments, goals)
+      const extracted = await this.memoryExtractor.extract(userInput, aiResponse);
+      if (extracted.length === 0) {
+        console.log('ℹ️ Nothing worth remembering in this interaction');
+        return { indexingStatus: 'Nothing new to remember.' };
+      }
+
+      // Propose rather than store: only approved memories are encrypted, uploaded and anchored.
+      // Categories the user auto-approves are stored right away (without waiting for indexing).
+      // Memories from the same turn share a conversationId so the graph links them
+      const conversationId = uuidv4();
+      const extractedAt = new Date().toISOString();
+      const proposals = await this.reviewQueue.propose(extracted.map(item => ({
+        ...item,
+        provenance: {
+          ...source,
+          extractionMethod: item.source,
+          model: item.model,
+          createdAt: extractedAt
         }
-      });
+      })), conversationId, this.memoryService);
+      const pending = proposals.filter(proposal => proposal.status === 'pending');
+      const memories: MemoryEntry[] = [];
+      for (const proposal of proposals) {
+        const memory = proposal.memoryId ? await this.memoryService.getMemory(proposal.memoryId) : null;
+        if (memory) memories.push(memory);
+      }
+
+      console.log(`✅ Learning interaction processed (${memories.length} memories stored, ${pending.length} awaiting review)`);
 
-      console.log('✅ Learning interaction stored successfully');
+      // Fold accumulated fragments into summaries once a day (runs in the background)
+      getMemoryConsolidationService().runIfDue().catch(error => {
+        console.warn('⚠️ Background memory consolidation failed:', error);
+      });
+      // Likewise forget whatever the retention rules say has expired
+      getRetentionService().runIfDue().catch(error => {
+        console.warn('⚠️ Background retention sweep failed:', error);
+      });
       
       // Return Walrus URL immediately, don't wait for 0G indexing
-      const walrusUrl = memory.ipfsHash && memory.ipfsHash.startsWith('0x')
+      const memory = memories[0];
+      const walrusUrl = !memory ? undefined : memory.ipfsHash && memory.ipfsHash.startsWith('0x')
         ? `https://walruscan.com/testnet/blob/${memory.ipfsHash}`
         : memory.walrusUrl;
+
+      const statuses: string[] = [];
+      if (memories.length > 0) {
+        statuses.push(memories.length > 1 ? `${memories.length} memories stored in Walrus.` : 'Data stored in Walrus.');
+      }
+      if (pending.length > 0) {
+        statuses.push(pending.length > 1 ? `${pending.length} memories awaiting your review.` : '1 memory awaiting your review.');
+      }
       
       const result = {
         explorerUrl: undefined, // Don't return 0G explorer URL until indexing is complete
         transactionHash: undefined, // Don't return tx hash until indexing is complete
         walrusUrl,
-        indexingStatus: 'Data stored in Walrus.'
+        indexingStatus: statuses.join(' '),
+        proposedMemories: pending,
+        memoriesCreated: memories.map(memory => memory.id)
       };
       
       console.log('🔍 LEARN FROM INTERACTION RETURNING:', result);
@@ -689,93 +929,6 @@ Current date and time: ${new Date().toLocaleString()}`;
     }
   }
 
-  /**
-   * Analyze user interaction to determine appropriate memory attributes
-   */
-  private analyzeInteractionForMemory(userInput: string, aiResponse: string): {
-    title: string;
-    content: string;
-    type: 'conversation' | 'learned_fact' | 'profile_data' | 'task_outcome' | 'user_preference';
-    category: string;
-    tags: string[];
-  } {
-    const input = userInput.toLowerCase();
-    const response = aiResponse.toLowerCase();
-    
-    // Determine memory type based on content analysis
-    let type: 'conversation' | 'learned_fact' | 'profile_data' | 'task_outcome' | 'user_preference' = 'conversation';
-    let category = 'General Chat';
-    let tags = ['personalized-agent'];
-    let title = '';
-    
-    // Health & Wellness patterns
-    if (input.includes('workout') || input.includes('exercise') || input.includes('fitness') || input.includes('gym')) {
-      type = 'user_preference';
-      category = 'Health & Fitness';
-      tags = ['fitness', 'workout', 'health', 'preferences'];
-      title = `Fitness Query: ${userInput.substring(0, 40)}${userInput.length > 40 ? '...' : ''}`;
-    }
-    // Food & Nutrition patterns
-    else if (input.includes('eat') || input.includes('food') || input.includes('meal') || input.includes('cook') || input.includes('recipe') || input.includes('lunch') || input.includes('dinner') || input.includes('breakfast')) {
-      type = 'user_preference';
-      category = 'Food & Nutrition';
-      tags = ['food', 'nutrition', 'meals', 'preferences'];
-      title = `Food Preference: ${userInput.substring(0, 40)}${userInput.length > 40 ? '...' : ''}`;
-    }
-    // Schedule & Time Management patterns
-    else if (input.includes('schedule') || input.includes('time') || input.includes('plan') || input.includes('day') || input.includes('calendar') || input.includes('meeting')) {
-      type = 'task_outcome';
-      category = 'Schedule & Planning';
-      tags = ['schedule', 'planning', 'time-management', 'tasks'];
-      title = `Schedule Query: ${userInput.substring(0, 40)}${userInput.length > 40 ? '...' : ''}`;
-    }
-    // Personal preferences and lifestyle
-    else if (input.includes('prefer') || input.includes('like') || input.includes('favorite') || input.includes('enjoy') || input.includes('hobby')) {
-      type = 'profile_data';
-      category = 'Personal Profile';
-      tags = ['profile', 'preferences', 'lifestyle'];
-      title = `Personal Preference: ${userInput.substring(0, 40)}${userInput.length > 40 ? '...' : ''}`;
-    }
-    // Learning and facts
-    else if (input.includes('how') || input.includes('what') || input.includes('why') || input.includes('explain') || input.includes('tell me')) {
-      type = 'learned_fact';
-      category = 'Knowledge & Learning';
-      tags = ['learning', 'knowledge', 'facts'];
-      title = `Knowledge Query: ${userInput.substring(0, 40)}${userInput.length > 40 ? '...' : ''}`;
-    }
-    // Goal setting and productivity
-    else if (input.includes('goal') || input.includes('achieve') || input.includes('productive') || input.includes('improve') || input.includes('better')) {
-      type = 'task_outcome';
-      category = 'Goals & Productivity';
-      tags = ['goals', 'productivity', 'improvement', 'tasks'];
-      title = `Goal Discussion: ${userInput.substring(0, 40)}${userInput.length > 40 ? '...' : ''}`;
-    }
-    // Default conversation
-    else {
-      type = 'conversation';
-      category = 'General Chat';
-      tags = ['conversation', 'chat'];
-      title = `Chat: ${userInput.substring(0, 40)}${userInput.length > 40 ? '...' : ''}`;
-    }
-    
-    // Create structured content instead of "User pattern:"
-    const content = JSON.stringify({
-      userQuery: userInput,
-      aiResponse: aiResponse.substring(0, 200) + (aiResponse.length > 200 ? '...' : ''),
-      timestamp: new Date().toISOString(),
-      context: category,
-      interaction_type: type
-    }, null, 2);
-    
-    return {
-      title,
-      content,
-      type,
-      category,
-      tags
-    };
-  }
-
   // User profile management
   private async loadUserProfile(): Promise<void> {
     try {
@@ -813,24 +966,6 @@ Current date and time: ${new Date().toLocaleString()}`;
     if (!this.userProfile) return;
 
     try {
-      console.log('💾 Checking if profile already exists before saving...');
-      
-      // Double-check that no profile exists to prevent duplicates
-      const existingCheck = await this.memoryService.searchMemories({
-        query: 'profile preferences goals',
-        limit: 5
-      });
-      
-      const hasExistingProfile = existingCheck.memories.some(memory => 
-        memory.type === 'profile_data' || 
-        (memory.tags?.includes('profile') && memory.tags?.includes('preferences'))
-      );
-      
-      if (hasExistingProfile) {
-        console.log('⚠️  Profile already exists, skipping save to prevent duplicates');
-        return;
-      }
-
       // Check if key management is initialized before creating encrypted profile
       const keyManagement = this.memoryService['keyManagement'];
       if (!keyManagement.isInitialized()) {
@@ -838,7 +973,8 @@ Current date and time: ${new Date().toLocaleString()}`;
         return;
       }
 
-      console.log('💾 Saving new user profile to memory...');
+      // createMemory's dedup stage merges this into the existing profile memory when one exists
+      console.log('💾 Saving user profile to memory...');
 
       await this.memoryService.createMemory({
         content: JSON.stringify(this.userProfile),
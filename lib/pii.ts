@@ -0,0 +1,275 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PiiCategory, PiiRedactionSummary } from '@/types/memory';
+import { getMemoryStore, MemoryStore } from './memory-store';
+
+/**
+ * PII Protection - finds emails, phone numbers, addresses, payment and ID numbers and health
+ * details in memory content before it is uploaded to Walrus or committed on-chain.
+ * In 'tokenize' mode each value is replaced by an opaque token and kept in a local-only vault so
+ * the content can be rehydrated on this device; 'redact' replaces it with a placeholder for good.
+ */
+
+export type PiiMode = 'tokenize' | 'redact' | 'off';
+
+export interface PiiSpan {
+  category: PiiCategory;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PiiScanResult {
+  content: string;
+  summary?: PiiRedactionSummary; // Absent when the content holds no tokens or redactions
+}
+
+interface VaultEntry {
+  category: PiiCategory;
+  value: string;
+  createdAt: string;
+}
+
+export const PII_CATEGORIES: PiiCategory[] = ['email', 'phone', 'address', 'financial', 'government_id', 'health'];
+
+// Tokens carry no information about the value: random IDs, resolved through the vault
+const TOKEN_PATTERN = /\{\{pii:([a-z_]+):([0-9a-f]{12})\}\}/g;
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+// Phone-shaped only: an international +country prefix, a bracketed area code, a trunk 0 with
+// separated groups, or 3-3-4 groups with one separator. Bare digit runs (order numbers,
+// timestamps) don't match.
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)[\s.-]?)?\d{1,4}(?:[\s.-]?\d{2,4}){2,4}|\(\d{2,4}\)[\s.-]?\d{3,4}[\s.-]\d{3,4}|\b0\d{2,4}[\s.-]\d{3,4}[\s.-]?\d{3,4}|\b\d{3}([\s.-])\d{3}\1\d{4})\b/g;
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){3,7}(?:\s?[A-Z0-9]{1,3})?\b/g;
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/g;
+const ADDRESS_PATTERN = /\b\d{1,5}\s+(?:[A-Z][\w'-]*\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Square|Sq)\b\.?(?:,\s*[A-Z][\w'-]*(?:\s[A-Z][\w'-]*)*)?(?:,?\s*\d{4,5}(?:-\d{4})?)?/g;
+// Only the condition or medication after the phrase is sensitive, not the phrase itself
+const HEALTH_PATTERN = /\b(?:diagnosed with|suffer(?:s|ing)? from|prescribed|taking medication for|treated for|allergic to|in therapy for|on medication for)\s+([A-Za-z][\w'-]*(?:\s+[\w'-]+){0,4}?)(?=\s*(?:[.,;:!?)]|$)|\s+(?:and|but|since|for|last|this|in|at|on|when|which|because|so|after|before|ago|yesterday|today)\b)/gi;
+
+// When spans overlap, the more specific category wins
+const CATEGORY_PRIORITY: PiiCategory[] = ['government_id', 'financial', 'email', 'phone', 'address', 'health'];
+
+export class PiiScanner {
+  private static readonly VAULT_KEY = 'og_pii_vault';
+  private mode: PiiMode;
+  private categories: PiiCategory[];
+  private store: MemoryStore;
+
+  constructor(
+    store: MemoryStore = getMemoryStore(),
+    mode: PiiMode = parseMode(process.env.PII_MODE),
+    categories: PiiCategory[] = parseCategories(process.env.PII_CATEGORIES)
+  ) {
+    this.store = store;
+    this.mode = mode;
+    this.categories = categories;
+  }
+
+  getMode(): PiiMode {
+    return this.mode;
+  }
+
+  getCategories(): PiiCategory[] {
+    return this.categories.slice();
+  }
+
+  /**
+   * Sensitive spans in the text, non-overlapping and in order
+   */
+  detect(text: string): PiiSpan[] {
+    const spans: PiiSpan[] = [];
+    const enabled = (category: PiiCategory) => this.categories.indexOf(category) !== -1;
+    const collect = (category: PiiCategory, pattern: RegExp, accept: (value: string) => boolean = () => true, group: number = 0) => {
+      if (!enabled(category)) return;
+      const regex = new RegExp(pattern.source, pattern.flags);
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(text)) !== null) {
+        const value = match[group];
+        if (!value || !accept(value)) continue;
+        const start = match.index + match[0].indexOf(value);
+        spans.push({ category, start, end: start + value.length, value });
+      }
+    };
+
+    collect('government_id', SSN_PATTERN);
+    collect('financial', CARD_PATTERN, value => passesLuhn(value.replace(/\D/g, '')));
+    collect('financial', IBAN_PATTERN);
+    collect('email', EMAIL_PATTERN);
+    collect('phone', PHONE_PATTERN, isPhoneNumber);
+    collect('address', ADDRESS_PATTERN);
+    collect('health', HEALTH_PATTERN, () => true, 1);
+
+    spans.sort((a, b) =>
+      a.start - b.start ||
+      (b.end - b.start) - (a.end - a.start) ||
+      CATEGORY_PRIORITY.indexOf(a.category) - CATEGORY_PRIORITY.indexOf(b.category)
+    );
+
+    const kept: PiiSpan[] = [];
+    spans.forEach(span => {
+      const last = kept[kept.length - 1];
+      if (last && span.start < last.end) return;
+      kept.push(span);
+    });
+    return kept.filter(span => !isInsideToken(text, span));
+  }
+
+  /**
+   * Replace sensitive spans according to the configured mode. Existing tokens are left alone,
+   * so protecting already-protected content is a no-op. The summary counts every token and
+   * redaction in the result, including ones that were already there. With readOnly, values
+   * already in the vault get their token but new values are not added (e.g. for comparisons).
+   */
+  protect(text: string, options: { readOnly?: boolean } = {}): PiiScanResult {
+    if (this.mode === 'off' || !text) return { content: text };
+
+    const spans = this.detect(text);
+    let content = '';
+    let cursor = 0;
+    spans.forEach(span => {
+      content += text.substring(cursor, span.start) + this.replacement(span, !options.readOnly);
+      cursor = span.end;
+    });
+    content += text.substring(cursor);
+
+    if (spans.length > 0) {
+      console.log(`🛡️ ${this.mode === 'tokenize' ? 'Tokenized' : 'Redacted'} ${spans.length} PII spans (${spans.map(span => span.category).join(', ')})`);
+    }
+    return { content, summary: this.summarize(content) };
+  }
+
+  /**
+   * Put vaulted values back in place of their tokens. Tokens missing from the vault (e.g. content
+   * restored on another device) stay as they are.
+   */
+  rehydrate(text: string): string {
+    if (!text || text.indexOf('{{pii:') === -1) return text;
+
+    const vault = this.loadVault();
+    return text.replace(new RegExp(TOKEN_PATTERN.source, 'g'), (token, _category, id) =>
+      vault[id] ? vault[id].value : token
+    );
+  }
+
+  /**
+   * Drop values from the vault, e.g. once the last memory holding their tokens is deleted.
+   * Their tokens stop rehydrating, so only pass ids nothing references any more.
+   */
+  forget(ids: string[]): number {
+    if (ids.length === 0) return 0;
+
+    const vault = this.loadVault();
+    const forgotten = ids.filter(id => vault[id]);
+    forgotten.forEach(id => delete vault[id]);
+    if (forgotten.length > 0) {
+      this.store.set(PiiScanner.VAULT_KEY, vault);
+    }
+    return forgotten.length;
+  }
+
+  private summarize(content: string): PiiRedactionSummary | undefined {
+    const counts: Partial<Record<PiiCategory, number>> = {};
+    let tokens = 0;
+    let redactions = 0;
+
+    content.replace(new RegExp(TOKEN_PATTERN.source, 'g'), (token, category) => {
+      counts[category as PiiCategory] = (counts[category as PiiCategory] || 0) + 1;
+      tokens++;
+      return token;
+    });
+    PII_CATEGORIES.forEach(category => {
+      const placeholders = content.split(`[${category.toUpperCase()}]`).length - 1;
+      if (placeholders > 0) {
+        counts[category] = (counts[category] || 0) + placeholders;
+        redactions += placeholders;
+      }
+    });
+
+    if (tokens + redactions === 0) return undefined;
+    return { mode: tokens > 0 ? 'tokenize' : 'redact', counts };
+  }
+
+  private replacement(span: PiiSpan, persist: boolean): string {
+    if (this.mode === 'redact') {
+      return `[${span.category.toUpperCase()}]`;
+    }
+
+    // The same value always gets the same token, so duplicates still hash identically
+    const vault = this.loadVault();
+    const existing = Object.keys(vault).find(id => vault[id].category === span.category && vault[id].value === span.value);
+    const id = existing || uuidv4().replace(/-/g, '').slice(0, 12);
+    if (!existing && persist) {
+      vault[id] = { category: span.category, value: span.value, createdAt: new Date().toISOString() };
+      this.store.set(PiiScanner.VAULT_KEY, vault);
+    }
+    return `{{pii:${span.category}:${id}}}`;
+  }
+
+  private loadVault(): Record<string, VaultEntry> {
+    return this.store.get<Record<string, VaultEntry>>(PiiScanner.VAULT_KEY, {});
+  }
+}
+
+/**
+ * Vault ids of the tokens in a text
+ */
+export function piiTokenIds(text: string): string[] {
+  const ids: string[] = [];
+  if (!text || text.indexOf('{{pii:') === -1) return ids;
+
+  const regex = new RegExp(TOKEN_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    ids.push(match[2]);
+  }
+  return ids;
+}
+
+function parseMode(value?: string): PiiMode {
+  return value === 'redact' || value === 'off' ? value : 'tokenize';
+}
+
+function parseCategories(value?: string): PiiCategory[] {
+  if (!value) return PII_CATEGORIES.slice();
+  const requested = value.split(',').map(category => category.trim()) as PiiCategory[];
+  return requested.filter(category => PII_CATEGORIES.indexOf(category) !== -1);
+}
+
+// 9-15 digits, and not something that looks like a date or a year range
+function isPhoneNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '').length;
+  return digits >= 9 && digits <= 15 && !/^\d{4}[-./]\d{1,2}[-./]\d{1,2}/.test(value);
+}
+
+function passesLuhn(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits.charAt(digits.length - 1 - i));
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isInsideToken(text: string, span: PiiSpan): boolean {
+  const regex = new RegExp(TOKEN_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    if (span.start < match.index + match[0].length && span.end > match.index) return true;
+  }
+  return false;
+}
+
+// Singleton instance
+let piiScannerInstance: PiiScanner | null = null;
+
+export function getPiiScanner(): PiiScanner {
+  if (!piiScannerInstance) {
+    piiScannerInstance = new PiiScanner();
+  }
+  return piiScannerInstance;
+}
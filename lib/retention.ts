@@ -0,0 +1,234 @@
+import { MemoryEntry, MemoryType, RetentionRule } from '@/types/memory';
+import { getMemoryService, MemoryPurgeSummary } from './memory-service';
+import { getMemoryStore, MemoryStore } from './memory-store';
+import { MemoryIndexer } from './memory-indexer';
+
+export interface RetentionOptions {
+  dryRun?: boolean; // Report what would expire without deleting or revoking anything
+}
+
+export interface RetentionExpiry {
+  memoryId: string;
+  ruleId: string;
+  type: MemoryType;
+  category: string;
+  createdAt: string;
+  expiresAt: string;
+  revoked: boolean; // Hash revoked in the MemoryRegistry contract
+  transactionHash?: string;
+  blobId?: string; // Left to lapse at the end of its storage epochs
+  purged: MemoryPurgeSummary; // Local history, proposals and PII vault entries erased with it
+  error?: string;
+}
+
+export interface RetentionReport {
+  startedAt: string;
+  completedAt?: string;
+  scanned: number;
+  expired: RetentionExpiry[];
+  dryRun: boolean;
+  error?: string;
+}
+
+// Reported for memories removed because their TimelockPolicy.autoDelete time passed
+export const AUTO_DELETE_RULE_ID = 'timelock-auto-delete';
+
+const MEMORY_TYPES: MemoryType[] = [
+  'conversation', 'learned_fact', 'user_preference', 'task_outcome', 'multimedia', 'workflow', 'agent_share', 'profile_data'
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention - deletes memories once the user's retention rules say they should be forgotten
+ * ("forget raw chat after 30 days but keep extracted facts"). Expired memories are deleted locally,
+ * along with their version history, proposals and PII vault entries, and their hash is revoked in
+ * the MemoryRegistry contract so a restore won't bring them back; their Walrus blobs aren't renewed
+ * and lapse at the end of their storage epochs.
+ */
+export class RetentionService {
+  private static readonly RULES_KEY = 'og_retention_rules';
+  private static readonly STATE_KEY = 'og_retention_state';
+  private static readonly INTERVAL_MS = 24 * 60 * 60 * 1000;
+  private store: MemoryStore = getMemoryStore();
+  private activeRun: Promise<RetentionReport> | null = null;
+  private activeDryRun = false;
+
+  getRules(): RetentionRule[] {
+    return this.store.get<RetentionRule[]>(RetentionService.RULES_KEY, []);
+  }
+
+  /**
+   * Replace the rule set. Throws on the first invalid rule.
+   */
+  setRules(rules: RetentionRule[]): RetentionRule[] {
+    rules.forEach(validateRule);
+    const ids = rules.map(rule => rule.id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) {
+      throw new Error(`Invalid retention rule: duplicate id "${duplicate}"`);
+    }
+
+    this.store.set(RetentionService.RULES_KEY, rules);
+    console.log(`📜 Saved ${rules.length} retention rules`);
+    return rules;
+  }
+
+  getLastReport(): RetentionReport | null {
+    return this.store.get<RetentionReport | null>(RetentionService.STATE_KEY, null);
+  }
+
+  isRunning(): boolean {
+    return this.activeRun !== null;
+  }
+
+  isDue(): boolean {
+    const last = this.getLastReport();
+    if (!last || last.dryRun) return true;
+    return Date.now() - new Date(last.completedAt || last.startedAt).getTime() >= RetentionService.INTERVAL_MS;
+  }
+
+  /**
+   * Sweep if the last real sweep is older than the interval
+   */
+  async runIfDue(): Promise<RetentionReport | null> {
+    if (this.isRunning() || !this.isDue()) {
+      return null;
+    }
+    return this.sweep();
+  }
+
+  /**
+   * Start (or join) a sweep. Concurrent callers of the same mode share the same run; a real sweep
+   * waits for an active dry run to finish (and vice versa) before starting its own.
+   */
+  sweep(options: RetentionOptions = {}): Promise<RetentionReport> {
+    const dryRun = !!options.dryRun;
+    if (this.activeRun && this.activeDryRun !== dryRun) {
+      return this.activeRun.catch(() => null).then(() => this.sweep(options));
+    }
+    if (!this.activeRun) {
+      this.activeDryRun = dryRun;
+      this.activeRun = this.run(options).finally(() => {
+        this.activeRun = null;
+      });
+    }
+    return this.activeRun;
+  }
+
+  /**
+   * The rule under which a memory has expired (the one that expired it earliest), or null
+   */
+  findExpiry(memory: MemoryEntry, rules: RetentionRule[], now: number = Date.now()): { ruleId: string; expiresAt: number } | null {
+    const expiries: Array<{ ruleId: string; expiresAt: number }> = [];
+
+    const autoDelete = memory.accessPolicy?.timelock?.autoDelete;
+    if (autoDelete) {
+      expiries.push({ ruleId: AUTO_DELETE_RULE_ID, expiresAt: new Date(autoDelete).getTime() });
+    }
+
+    const createdAt = new Date(memory.createdAt).getTime();
+    rules
+      .filter(rule => rule.enabled !== false && matchesRule(memory, rule))
+      .forEach(rule => expiries.push({ ruleId: rule.id, expiresAt: createdAt + rule.maxAgeDays * DAY_MS }));
+
+    const expired = expiries
+      .filter(expiry => expiry.expiresAt <= now)
+      .sort((a, b) => a.expiresAt - b.expiresAt);
+    return expired[0] || null;
+  }
+
+  private async run(options: RetentionOptions): Promise<RetentionReport> {
+    const report: RetentionReport = {
+      startedAt: new Date().toISOString(),
+      scanned: 0,
+      expired: [],
+      dryRun: !!options.dryRun
+    };
+
+    try {
+      console.log(`🧺 Starting retention sweep${options.dryRun ? ' (dry run)' : ''}...`);
+      const rules = this.getRules();
+      // A fresh service reads the current memory set from the store
+      const memoryService = getMemoryService();
+      const memories = await memoryService.getAllMemories();
+      const now = Date.now();
+      report.scanned = memories.length;
+
+      for (const memory of memories) {
+        const expiry = this.findExpiry(memory, rules, now);
+        if (!expiry) continue;
+
+        const entry: RetentionExpiry = {
+          memoryId: memory.id,
+          ruleId: expiry.ruleId,
+          type: memory.type,
+          category: memory.category,
+          createdAt: new Date(memory.createdAt).toISOString(),
+          expiresAt: new Date(expiry.expiresAt).toISOString(),
+          revoked: false,
+          blobId: memory.metadata?.blobId || (memory.ipfsHash !== memory.id ? memory.ipfsHash : undefined),
+          purged: memoryService.getDeletionFootprint(memory.id)
+        };
+
+        if (!options.dryRun) {
+          // Revoke first: deleting drops the contract hash from the local index
+          const revocation = await MemoryIndexer.revokeMemory(memory);
+          entry.revoked = revocation.success;
+          entry.transactionHash = revocation.transactionHash;
+          if (!revocation.success) entry.error = revocation.error;
+
+          await memoryService.deleteMemory(memory.id);
+        }
+        report.expired.push(entry);
+      }
+
+      report.completedAt = new Date().toISOString();
+      console.log(`✅ Retention sweep completed: ${report.expired.length} of ${report.scanned} memories ${options.dryRun ? 'would expire' : 'expired'}`);
+    } catch (error: any) {
+      console.error('❌ Retention sweep failed:', error);
+      report.error = error?.message || 'Unknown error';
+    }
+
+    this.store.set(RetentionService.STATE_KEY, report);
+    return report;
+  }
+}
+
+function matchesRule(memory: MemoryEntry, rule: RetentionRule): boolean {
+  if (memory.metadata?.pinned && !rule.includePinned) return false;
+  if (rule.types && rule.types.length > 0 && rule.types.indexOf(memory.type) === -1) return false;
+  if (rule.categories && rule.categories.length > 0 && rule.categories.indexOf(memory.category) === -1) return false;
+  if (rule.tags && rule.tags.length > 0 && !rule.tags.some(tag => memory.tags?.includes(tag))) return false;
+  return true;
+}
+
+function validateRule(rule: RetentionRule): void {
+  if (!rule || typeof rule.id !== 'string' || !rule.id.trim()) {
+    throw new Error('Invalid retention rule: id is required');
+  }
+  if (rule.id === AUTO_DELETE_RULE_ID) {
+    throw new Error(`Invalid retention rule "${rule.id}": id is reserved`);
+  }
+  if (typeof rule.maxAgeDays !== 'number' || !(rule.maxAgeDays > 0)) {
+    throw new Error(`Invalid retention rule "${rule.id}": maxAgeDays must be a positive number`);
+  }
+  // A rule without criteria would expire every memory
+  if (!(rule.types?.length || rule.categories?.length || rule.tags?.length)) {
+    throw new Error(`Invalid retention rule "${rule.id}": give at least one of types, categories or tags`);
+  }
+  const unknownType = (rule.types || []).find(type => MEMORY_TYPES.indexOf(type) === -1);
+  if (unknownType) {
+    throw new Error(`Invalid retention rule "${rule.id}": unknown memory type "${unknownType}"`);
+  }
+}
+
+// Singleton instance
+let retentionServiceInstance: RetentionService | null = null;
+
+export function getRetentionService(): RetentionService {
+  if (!retentionServiceInstance) {
+    retentionServiceInstance = new RetentionService();
+  }
+  return retentionServiceInstance;
+}
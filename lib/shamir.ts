@@ -0,0 +1,179 @@
+/**
+ * Shamir Secret Sharing over GF(256)
+ * Each secret byte is the constant term of a random polynomial of degree threshold - 1;
+ * share i holds the polynomial evaluated at x = i for every byte.
+ */
+
+export const SHAMIR_SHARE_PREFIX = 'shamir';
+export const SHAMIR_SHARE_VERSION = 1;
+export const MAX_SHARES = 255;
+
+export interface ShamirShare {
+  index: number; // x coordinate, 1..255
+  threshold: number; // Shares required to reconstruct
+  data: Uint8Array;
+}
+
+// Log/antilog tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1 and generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+(function buildTables() {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    // Multiply by the generator (x + 1)
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < EXP.length; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(256)');
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  globalThis.crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+/**
+ * Split a secret into totalShares shares, any threshold of which reconstruct it
+ */
+export function splitSecret(secret: Uint8Array, threshold: number, totalShares: number): ShamirShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(totalShares)) {
+    throw new Error('Threshold and share count must be integers');
+  }
+  if (threshold < 1 || threshold > totalShares) {
+    throw new Error(`Threshold must be between 1 and ${totalShares}, got ${threshold}`);
+  }
+  if (totalShares > MAX_SHARES) {
+    throw new Error(`At most ${MAX_SHARES} shares are supported`);
+  }
+  if (secret.length === 0) {
+    throw new Error('Cannot split an empty secret');
+  }
+
+  const shares: ShamirShare[] = [];
+  for (let i = 1; i <= totalShares; i++) {
+    shares.push({ index: i, threshold, data: new Uint8Array(secret.length) });
+  }
+
+  const coefficients = new Uint8Array(threshold);
+  for (let byte = 0; byte < secret.length; byte++) {
+    coefficients[0] = secret[byte];
+    coefficients.set(randomBytes(threshold - 1), 1);
+
+    for (const share of shares) {
+      // Horner's rule, highest degree first
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = gfMul(y, share.index) ^ coefficients[c];
+      }
+      share.data[byte] = y;
+    }
+  }
+  coefficients.fill(0);
+
+  return shares;
+}
+
+/**
+ * Recover the secret by Lagrange interpolation at x = 0.
+ * Only the first `threshold` shares are used; extra shares are ignored.
+ */
+export function combineShares(shares: ShamirShare[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error('No shares provided');
+  }
+
+  const threshold = shares[0].threshold;
+  const length = shares[0].data.length;
+  const seen = new Set<number>();
+
+  for (const share of shares) {
+    if (share.threshold !== threshold) {
+      throw new Error('Shares belong to different splits (threshold mismatch)');
+    }
+    if (share.data.length !== length) {
+      throw new Error('Shares belong to different splits (length mismatch)');
+    }
+    if (seen.has(share.index)) {
+      throw new Error(`Duplicate share index ${share.index}`);
+    }
+    seen.add(share.index);
+  }
+
+  if (shares.length < threshold) {
+    throw new Error(`Not enough shares to reconstruct secret: ${shares.length} of ${threshold} required`);
+  }
+
+  const used = shares.slice(0, threshold);
+  const secret = new Uint8Array(length);
+
+  used.forEach((share, i) => {
+    // Lagrange basis polynomial l_i(0) = prod x_j / (x_j - x_i); subtraction is XOR in GF(2^8)
+    let basis = 1;
+    used.forEach((other, j) => {
+      if (i === j) return;
+      basis = gfMul(basis, gfDiv(other.index, other.index ^ share.index));
+    });
+
+    for (let byte = 0; byte < length; byte++) {
+      secret[byte] ^= gfMul(share.data[byte], basis);
+    }
+  });
+
+  return secret;
+}
+
+/**
+ * Serialize a share as `shamir:<version>:<threshold>:<index>:<hex data>`
+ */
+export function encodeShare(share: ShamirShare): string {
+  const hex = Array.from(share.data).map(b => b.toString(16).padStart(2, '0')).join('');
+  return [SHAMIR_SHARE_PREFIX, SHAMIR_SHARE_VERSION, share.threshold, share.index, hex].join(':');
+}
+
+export function decodeShare(encoded: string): ShamirShare {
+  const parts = encoded.trim().split(':');
+  if (parts.length !== 5 || parts[0] !== SHAMIR_SHARE_PREFIX) {
+    throw new Error('Invalid share encoding');
+  }
+
+  const [, version, threshold, index, hex] = parts;
+  if (Number(version) !== SHAMIR_SHARE_VERSION) {
+    throw new Error(`Unsupported share version: ${version}`);
+  }
+
+  const share: ShamirShare = {
+    threshold: Number(threshold),
+    index: Number(index),
+    data: new Uint8Array(hex.length / 2)
+  };
+  if (!Number.isInteger(share.threshold) || share.threshold < 1 || share.threshold > MAX_SHARES) {
+    throw new Error(`Invalid share threshold: ${threshold}`);
+  }
+  if (!Number.isInteger(share.index) || share.index < 1 || share.index > MAX_SHARES) {
+    throw new Error(`Invalid share index: ${index}`);
+  }
+  if (hex.length === 0 || hex.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(hex)) {
+    throw new Error('Invalid share data');
+  }
+
+  for (let i = 0; i < share.data.length; i++) {
+    share.data[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return share;
+}
@@ -0,0 +1,166 @@
+import { MemoryEntry, ThresholdPolicy } from '@/types/memory';
+import { EncryptedData } from '@/types/encryption';
+import { getEncryptionService } from './encryption';
+import { getMemoryStore } from './memory-store';
+import { decodeShare } from './shamir';
+
+export interface ThresholdShareAssignment {
+  signer: string;
+  share: string;
+}
+
+export interface ThresholdLockResult {
+  sealedContent: string; // JSON-encoded EncryptedData, stored in place of the plaintext
+  shares: ThresholdShareAssignment[];
+}
+
+export interface ThresholdUnlockStatus {
+  memoryId: string;
+  requiredSignatures: number;
+  signers: string[];
+  approvedBy: string[];
+  unlocked: boolean;
+  content?: string; // Present only on the submission that completes the quorum
+}
+
+interface PendingUnlock {
+  shares: Record<string, string>; // Keyed by signer
+  startedAt: string;
+}
+
+/**
+ * Threshold Access - N-of-M guardian unlock for memories carrying a ThresholdPolicy
+ * The memory key is split with Shamir's Secret Sharing, one share per signer. Shares are
+ * handed out at creation and never persisted; during an unlock, submitted shares are held in
+ * process memory only until the quorum is reached (or the unlock is cancelled), so a restart
+ * discards a partly approved unlock and its guardians must submit again.
+ */
+export class ThresholdAccessService {
+  private static readonly LEGACY_PENDING_KEY = 'og_threshold_unlocks'; // Earlier versions wrote shares here in plaintext
+  private encryptionService = getEncryptionService();
+  private pending = new Map<string, PendingUnlock>(); // Keyed by memory id
+
+  constructor() {
+    const store = getMemoryStore();
+    if (store.get<unknown>(ThresholdAccessService.LEGACY_PENDING_KEY, null) !== null) {
+      store.remove(ThresholdAccessService.LEGACY_PENDING_KEY);
+      console.log('🧹 Discarded guardian shares persisted by an earlier version');
+    }
+  }
+
+  /**
+   * Encrypt content under a fresh key and split it among the policy's signers
+   */
+  async lock(content: string, policy: ThresholdPolicy): Promise<ThresholdLockResult> {
+    this.validatePolicy(policy);
+
+    const { shares, encryptedContent } = await this.encryptionService.createThresholdEncryption(content, {
+      threshold: policy.requiredSignatures,
+      totalShares: policy.signers.length,
+      participants: policy.signers,
+      algorithm: 'Shamir'
+    });
+
+    return {
+      sealedContent: JSON.stringify(encryptedContent),
+      shares: policy.signers.map((signer, i) => ({ signer, share: shares[i] }))
+    };
+  }
+
+  getStatus(memory: MemoryEntry): ThresholdUnlockStatus {
+    const policy = this.requirePolicy(memory);
+    const pending = this.pending.get(memory.id);
+
+    return {
+      memoryId: memory.id,
+      requiredSignatures: policy.requiredSignatures,
+      signers: policy.signers,
+      approvedBy: pending ? Object.keys(pending.shares) : [],
+      unlocked: false
+    };
+  }
+
+  /**
+   * Record a signer's share; once enough signers have approved, decrypt and return the content
+   */
+  async submitShare(memory: MemoryEntry, signer: string, share: string): Promise<ThresholdUnlockStatus> {
+    const policy = this.requirePolicy(memory);
+    const signerIndex = policy.signers.indexOf(signer);
+    if (signerIndex === -1) {
+      throw new Error(`${signer} is not a signer for memory ${memory.id}`);
+    }
+
+    const decoded = decodeShare(share);
+    if (decoded.index !== signerIndex + 1) {
+      throw new Error(`Share does not belong to signer ${signer}`);
+    }
+    if (decoded.threshold !== policy.requiredSignatures) {
+      throw new Error('Share threshold does not match the memory policy');
+    }
+
+    const pending: PendingUnlock = this.pending.get(memory.id) || { shares: {}, startedAt: new Date().toISOString() };
+    pending.shares[signer] = share;
+
+    const approvedBy = Object.keys(pending.shares);
+    const status: ThresholdUnlockStatus = {
+      memoryId: memory.id,
+      requiredSignatures: policy.requiredSignatures,
+      signers: policy.signers,
+      approvedBy,
+      unlocked: false
+    };
+
+    if (approvedBy.length < policy.requiredSignatures) {
+      this.pending.set(memory.id, pending);
+      console.log(`🔑 Share accepted for ${memory.id.slice(0, 8)}... (${approvedBy.length}/${policy.requiredSignatures})`);
+      return status;
+    }
+
+    // Quorum reached: the collected shares are discarded whether or not decryption succeeds
+    this.pending.delete(memory.id);
+
+    const encryptedContent: EncryptedData = JSON.parse(memory.content);
+    const result = await this.encryptionService.decryptWithShares(
+      encryptedContent,
+      approvedBy.map(id => pending.shares[id])
+    );
+
+    console.log(`🔓 Threshold unlock completed for ${memory.id.slice(0, 8)}...`);
+    return { ...status, unlocked: true, content: result.content };
+  }
+
+  cancel(memoryId: string): boolean {
+    return this.pending.delete(memoryId);
+  }
+
+  private validatePolicy(policy: ThresholdPolicy): void {
+    const signers = policy.signers || [];
+    if (signers.length === 0) {
+      throw new Error('Threshold policy requires at least one signer');
+    }
+    if (new Set(signers).size !== signers.length) {
+      throw new Error('Threshold policy signers must be unique');
+    }
+    if (!Number.isInteger(policy.requiredSignatures) || policy.requiredSignatures < 1 || policy.requiredSignatures > signers.length) {
+      throw new Error(`requiredSignatures must be between 1 and ${signers.length}`);
+    }
+  }
+
+  private requirePolicy(memory: MemoryEntry): ThresholdPolicy {
+    const policy = memory.accessPolicy?.threshold;
+    if (!policy) {
+      throw new Error(`Memory ${memory.id} is not threshold-protected`);
+    }
+    return policy;
+  }
+}
+
+// Singleton instance
+let thresholdAccessInstance: ThresholdAccessService | null = null;
+
+export function getThresholdAccessService(): ThresholdAccessService {
+  if (!thresholdAccessInstance) {
+    thresholdAccessInstance = new ThresholdAccessService();
+  }
+  return thresholdAccessInstance;
+}
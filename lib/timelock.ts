@@ -0,0 +1,269 @@
+import { bls12_381 } from '@noble/curves/bls12-381';
+import { bytesToNumberBE } from '@noble/curves/utils';
+import { sha256 } from '@noble/hashes/sha2';
+import { getMemoryStore, MemoryStore } from './memory-store';
+
+/**
+ * Timelock - encrypt to a future round of a randomness beacon (drand-style tlock)
+ *
+ * A beacon publishes a BLS signature over each round number once that round's time has come.
+ * That signature is the identity-based decryption key for the round, so data sealed to a round
+ * (Boneh-Franklin IBE over BLS12-381) cannot be opened before the beacon releases it.
+ */
+
+// drand "quicknet" scheme: unchained rounds, signatures on G1, public key on G2
+export const BEACON_SCHEME = 'bls-unchained-g1-rfc9380';
+const SIGNATURE_DST = 'BLS_SIG_BLS12381G1_XMD:SHA-256_SSWU_RO_NUL_';
+const MASK_DST = new TextEncoder().encode('og-timelock-mask-v1');
+
+const DEFAULT_DRAND_URL = 'https://api.drand.sh';
+const DEFAULT_DRAND_CHAIN = '52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971'; // quicknet
+
+export interface BeaconInfo {
+  publicKey: string; // Compressed G2 point (hex)
+  genesisTime: number; // Unix seconds of round 1
+  period: number; // Seconds between rounds
+}
+
+export interface TimelockBeacon {
+  readonly id: string;
+  getInfo(): Promise<BeaconInfo>;
+  /**
+   * Signature for a round, or null if the round has not been reached yet
+   */
+  getSignature(round: number): Promise<Uint8Array | null>;
+}
+
+export interface TimelockCiphertext {
+  round: number;
+  ephemeralKey: string; // U = r·G2 (hex)
+  maskedSecret: string; // secret XOR H(e(H1(round), P)^r) (hex)
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  globalThis.crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+/**
+ * Beacon message for a round: sha256 of the round as a big-endian uint64
+ */
+function roundMessage(round: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  let value = round;
+  for (let i = 7; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return sha256(bytes);
+}
+
+function hashRound(round: number) {
+  return bls12_381.shortSignatures.hash(roundMessage(round), SIGNATURE_DST);
+}
+
+function deriveMask(pairingValue: ReturnType<typeof bls12_381.pairing>, length: number): Uint8Array {
+  const seed = bls12_381.fields.Fp12.toBytes(pairingValue);
+  const mask = new Uint8Array(length);
+  for (let offset = 0, counter = 0; offset < length; counter++) {
+    const input = new Uint8Array(MASK_DST.length + 1 + seed.length);
+    input.set(MASK_DST);
+    input[MASK_DST.length] = counter;
+    input.set(seed, MASK_DST.length + 1);
+    const block = sha256(input);
+    mask.set(block.subarray(0, Math.min(block.length, length - offset)), offset);
+    offset += block.length;
+  }
+  return mask;
+}
+
+function xor(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return a.map((byte, i) => byte ^ b[i]);
+}
+
+/**
+ * First round whose scheduled time is at or after `time`
+ */
+export function roundAt(info: BeaconInfo, time: Date): number {
+  const elapsed = time.getTime() / 1000 - info.genesisTime;
+  return Math.max(1, Math.ceil(elapsed / info.period) + 1);
+}
+
+export function timeOfRound(info: BeaconInfo, round: number): Date {
+  return new Date((info.genesisTime + (round - 1) * info.period) * 1000);
+}
+
+/**
+ * Seal a secret so that only the beacon's signature for `round` can recover it
+ */
+export async function sealToRound(beacon: TimelockBeacon, round: number, secret: Uint8Array): Promise<TimelockCiphertext> {
+  const info = await beacon.getInfo();
+  const publicKey = bls12_381.G2.Point.fromHex(info.publicKey);
+  const Fr = bls12_381.fields.Fr;
+  const scalar = Fr.create(bytesToNumberBE(randomBytes(48)));
+  const r = Fr.is0(scalar) ? Fr.ONE : scalar;
+
+  const ephemeralKey = bls12_381.G2.Point.BASE.multiply(r);
+  const pairingValue = bls12_381.pairing(hashRound(round).multiply(r), publicKey);
+
+  return {
+    round,
+    ephemeralKey: ephemeralKey.toHex(true),
+    maskedSecret: toHex(xor(secret, deriveMask(pairingValue, secret.length)))
+  };
+}
+
+/**
+ * Recover a sealed secret; returns null while the round has not been published
+ */
+export async function openFromRound(beacon: TimelockBeacon, ciphertext: TimelockCiphertext): Promise<Uint8Array | null> {
+  const signature = await beacon.getSignature(ciphertext.round);
+  if (!signature) {
+    return null;
+  }
+
+  const info = await beacon.getInfo();
+  const signaturePoint = bls12_381.G1.Point.fromHex(signature);
+  if (!bls12_381.shortSignatures.verify(signaturePoint, hashRound(ciphertext.round), info.publicKey)) {
+    throw new Error(`Beacon signature for round ${ciphertext.round} is invalid`);
+  }
+
+  // e(sk·H1(round), r·G2) = e(H1(round), sk·G2)^r
+  const pairingValue = bls12_381.pairing(signaturePoint, bls12_381.G2.Point.fromHex(ciphertext.ephemeralKey));
+  const masked = fromHex(ciphertext.maskedSecret);
+  return xor(masked, deriveMask(pairingValue, masked.length));
+}
+
+/**
+ * drand network beacon (quicknet by default)
+ */
+export class DrandBeacon implements TimelockBeacon {
+  readonly id: string;
+  private baseUrl: string;
+  private chainHash: string;
+  private info: BeaconInfo | null = null;
+
+  constructor(baseUrl: string = DEFAULT_DRAND_URL, chainHash: string = DEFAULT_DRAND_CHAIN) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.chainHash = chainHash;
+    this.id = `drand:${chainHash}`;
+  }
+
+  async getInfo(): Promise<BeaconInfo> {
+    if (!this.info) {
+      const response = await fetch(`${this.baseUrl}/${this.chainHash}/info`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch drand chain info: ${response.status}`);
+      }
+      const info = await response.json();
+      if (info.schemeID !== BEACON_SCHEME) {
+        throw new Error(`Unsupported drand scheme: ${info.schemeID}`);
+      }
+      this.info = { publicKey: info.public_key, genesisTime: info.genesis_time, period: info.period };
+    }
+    return this.info;
+  }
+
+  async getSignature(round: number): Promise<Uint8Array | null> {
+    const info = await this.getInfo();
+    if (timeOfRound(info, round).getTime() > Date.now()) {
+      return null;
+    }
+
+    const response = await fetch(`${this.baseUrl}/${this.chainHash}/public/${round}`);
+    if (response.status === 404 || response.status === 425) {
+      return null; // Not yet produced
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch drand round ${round}: ${response.status}`);
+    }
+    const beacon = await response.json();
+    return fromHex(beacon.signature);
+  }
+}
+
+interface LocalBeaconState {
+  secretKey: string;
+  genesisTime: number;
+  period: number;
+}
+
+/**
+ * Local stand-in beacon for development and offline use. Same scheme as drand, but the
+ * signing key lives in the memory store, so it only withholds rounds from this service's API;
+ * use the drand beacon (the default) when memories must be unreadable early even to the host.
+ */
+export class LocalBeacon implements TimelockBeacon {
+  private static readonly STATE_KEY = 'og_timelock_beacon';
+  private static readonly PERIOD_SECONDS = 3;
+  readonly id = 'local';
+  private store: MemoryStore;
+
+  constructor(store: MemoryStore = getMemoryStore()) {
+    this.store = store;
+  }
+
+  async getInfo(): Promise<BeaconInfo> {
+    const state = this.loadState();
+    return {
+      publicKey: bls12_381.shortSignatures.getPublicKey(fromHex(state.secretKey)).toHex(true),
+      genesisTime: state.genesisTime,
+      period: state.period
+    };
+  }
+
+  async getSignature(round: number): Promise<Uint8Array | null> {
+    const state = this.loadState();
+    const info = { publicKey: '', genesisTime: state.genesisTime, period: state.period };
+    if (timeOfRound(info, round).getTime() > Date.now()) {
+      return null;
+    }
+    return bls12_381.shortSignatures.sign(hashRound(round), fromHex(state.secretKey)).toBytes(true);
+  }
+
+  private loadState(): LocalBeaconState {
+    let state = this.store.get<LocalBeaconState | null>(LocalBeacon.STATE_KEY, null);
+    if (!state) {
+      state = {
+        secretKey: toHex(bls12_381.utils.randomSecretKey()),
+        genesisTime: Math.floor(Date.now() / 1000),
+        period: LocalBeacon.PERIOD_SECONDS
+      };
+      this.store.set(LocalBeacon.STATE_KEY, state);
+      console.log('⏳ Created local timelock beacon');
+    }
+    return state;
+  }
+}
+
+// Singleton instance
+let beaconInstance: TimelockBeacon | null = null;
+
+/**
+ * The drand network by default (DRAND_URL / DRAND_CHAIN_HASH override its endpoint and chain).
+ * TIMELOCK_BEACON=local opts in to the local stand-in, whose key the host holds.
+ */
+export function getTimelockBeacon(): TimelockBeacon {
+  if (!beaconInstance) {
+    if (process.env.TIMELOCK_BEACON === 'local') {
+      console.warn('⚠️ Using the local timelock beacon: this host can open timelocked memories early');
+      beaconInstance = new LocalBeacon();
+    } else {
+      beaconInstance = new DrandBeacon(process.env.DRAND_URL, process.env.DRAND_CHAIN_HASH);
+    }
+  }
+  return beaconInstance;
+}
@@ -0,0 +1,504 @@
+/**
+ * Vector Index - Approximate nearest-neighbour search over memory embeddings
+ * Uses FAISS (HNSW) on the server when the native module is available and a
+ * pure-TypeScript HNSW graph everywhere else. Scores are cosine similarities.
+ */
+
+// The parts of faiss-node used here; it is loaded with require so browsers never bundle it
+interface FaissIndex {
+  add(vector: number[]): void;
+  search(query: number[], k: number): { distances: number[]; labels: number[] };
+  toBuffer(): Buffer;
+}
+
+interface FaissModule {
+  Index: {
+    fromFactory(dimension: number, descriptor: string, metric?: number): FaissIndex;
+    fromBuffer(data: Buffer): FaissIndex;
+  };
+  MetricType: { METRIC_INNER_PRODUCT: number };
+}
+
+let faiss: FaissModule | null = null;
+
+if (typeof window === 'undefined') {
+  try {
+    faiss = require('faiss-node');
+  } catch (error: any) {
+    console.warn('⚠️ faiss-node not available, using TypeScript HNSW index:', error?.message || error);
+  }
+}
+
+export interface VectorSearchHit {
+  id: string;
+  score: number;
+}
+
+export interface HNSWParams {
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+}
+
+export type VectorIndexSnapshot =
+  | {
+      kind: 'hnsw';
+      dimension: number;
+      params: HNSWParams;
+      entryPoint: string | null;
+      maxLevel: number;
+      nodes: Record<string, { level: number; neighbors: string[][] }>;
+    }
+  | {
+      kind: 'faiss';
+      dimension: number;
+      labels: Array<string | null>;
+      data: string; // base64 encoded faiss index
+    };
+
+export interface VectorIndex {
+  readonly kind: 'hnsw' | 'faiss';
+  size(): number;
+  has(id: string): boolean;
+  add(id: string, vector: number[]): void;
+  remove(id: string): void;
+  search(query: number[], topK: number): VectorSearchHit[];
+  snapshot(): VectorIndexSnapshot;
+}
+
+const DEFAULT_HNSW_PARAMS: HNSWParams = {
+  m: 16,
+  efConstruction: 200,
+  efSearch: 64
+};
+
+/**
+ * Normalize a vector to unit length so inner product equals cosine similarity
+ */
+export function normalizeVector(vector: number[]): number[] {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector.slice();
+  return vector.map(value => value / norm);
+}
+
+function dot(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+interface HNSWNode {
+  vector: number[];
+  level: number;
+  neighbors: string[][];
+}
+
+/**
+ * Hierarchical Navigable Small World graph (Malkov & Yashunin) in plain TypeScript
+ * Supports incremental insert and true delete with neighbour repair
+ */
+export class HNSWVectorIndex implements VectorIndex {
+  readonly kind = 'hnsw' as const;
+  private params: HNSWParams;
+  private nodes: Map<string, HNSWNode> = new Map();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private levelMultiplier: number;
+
+  constructor(private dimension: number, params: Partial<HNSWParams> = {}) {
+    this.params = { ...DEFAULT_HNSW_PARAMS, ...params };
+    this.levelMultiplier = 1 / Math.log(this.params.m);
+  }
+
+  size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  add(id: string, vector: number[]): void {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Vector dimension mismatch: expected ${this.dimension}, got ${vector.length}`);
+    }
+
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const normalized = normalizeVector(vector);
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const node: HNSWNode = {
+      vector: normalized,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => [])
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through the layers above the new node's level
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.searchLayer(normalized, [current], 1, layer)[0]?.id || current;
+    }
+
+    // Connect the node on every layer it lives on
+    let entries = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(normalized, entries, this.params.efConstruction, layer);
+      const selected = candidates.filter(candidate => candidate.id !== id).slice(0, this.params.m);
+
+      node.neighbors[layer] = selected.map(candidate => candidate.id);
+      for (const candidate of selected) {
+        this.connect(candidate.id, id, layer);
+      }
+
+      entries = candidates.map(candidate => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  remove(id: string): void {
+    const node = this.nodes.get(id);
+    if (!node) return;
+
+    this.nodes.delete(id);
+
+    // Drop inbound links and repair neighbourhoods that lost an edge
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans = node.neighbors[layer].filter(neighborId => this.nodes.has(neighborId));
+      for (const neighborId of orphans) {
+        const neighbor = this.nodes.get(neighborId)!;
+        neighbor.neighbors[layer] = neighbor.neighbors[layer].filter(linkId => linkId !== id);
+
+        for (const candidateId of orphans) {
+          if (candidateId !== neighborId && !neighbor.neighbors[layer].includes(candidateId)) {
+            this.connect(neighborId, candidateId, layer);
+          }
+        }
+      }
+    }
+
+    // Remove any remaining dangling links (one-directional edges)
+    this.nodes.forEach(other => {
+      other.neighbors.forEach((links, layer) => {
+        if (links.includes(id)) {
+          other.neighbors[layer] = links.filter(linkId => linkId !== id);
+        }
+      });
+    });
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      this.nodes.forEach((candidate, candidateId) => {
+        if (candidate.level > this.maxLevel) {
+          this.maxLevel = candidate.level;
+          this.entryPoint = candidateId;
+        }
+      });
+    }
+  }
+
+  search(query: number[], topK: number): VectorSearchHit[] {
+    if (this.entryPoint === null || query.length !== this.dimension) {
+      return [];
+    }
+
+    const normalized = normalizeVector(query);
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.searchLayer(normalized, [current], 1, layer)[0]?.id || current;
+    }
+
+    const ef = Math.max(this.params.efSearch, topK);
+    return this.searchLayer(normalized, [current], ef, 0)
+      .slice(0, topK)
+      .map(candidate => ({ id: candidate.id, score: candidate.score }));
+  }
+
+  snapshot(): VectorIndexSnapshot {
+    const nodes: Record<string, { level: number; neighbors: string[][] }> = {};
+    this.nodes.forEach((node, id) => {
+      nodes[id] = { level: node.level, neighbors: node.neighbors };
+    });
+
+    return {
+      kind: 'hnsw',
+      dimension: this.dimension,
+      params: this.params,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes
+    };
+  }
+
+  /**
+   * Restore graph structure from a snapshot; vectors are supplied separately
+   */
+  static fromSnapshot(
+    snapshot: Extract<VectorIndexSnapshot, { kind: 'hnsw' }>,
+    vectors: Map<string, number[]>
+  ): HNSWVectorIndex {
+    const index = new HNSWVectorIndex(snapshot.dimension, snapshot.params);
+    Object.keys(snapshot.nodes).forEach(id => {
+      const vector = vectors.get(id);
+      if (!vector) return;
+      index.nodes.set(id, {
+        vector: normalizeVector(vector),
+        level: snapshot.nodes[id].level,
+        neighbors: snapshot.nodes[id].neighbors.map(links => links.filter(linkId => vectors.has(linkId)))
+      });
+    });
+    index.entryPoint = snapshot.entryPoint && index.nodes.has(snapshot.entryPoint) ? snapshot.entryPoint : null;
+    index.maxLevel = index.entryPoint ? snapshot.maxLevel : -1;
+    return index;
+  }
+
+  private connect(fromId: string, toId: string, layer: number): void {
+    const from = this.nodes.get(fromId);
+    if (!from || layer > from.level) return;
+
+    const links = from.neighbors[layer];
+    if (links.includes(toId)) return;
+    links.push(toId);
+
+    const maxLinks = layer === 0 ? this.params.m * 2 : this.params.m;
+    if (links.length > maxLinks) {
+      // Keep the closest neighbours only
+      from.neighbors[layer] = links
+        .map(linkId => ({ id: linkId, score: dot(from.vector, this.nodes.get(linkId)?.vector || []) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxLinks)
+        .map(link => link.id);
+    }
+  }
+
+  private searchLayer(query: number[], entryIds: string[], ef: number, layer: number): VectorSearchHit[] {
+    const visited = new Set<string>();
+    const candidates: VectorSearchHit[] = [];
+    const results: VectorSearchHit[] = [];
+
+    for (const entryId of entryIds) {
+      const entry = this.nodes.get(entryId);
+      if (!entry || visited.has(entryId)) continue;
+      visited.add(entryId);
+      const hit = { id: entryId, score: dot(query, entry.vector) };
+      candidates.push(hit);
+      results.push(hit);
+    }
+
+    results.sort((a, b) => b.score - a.score);
+
+    while (candidates.length > 0) {
+      // Expand the most similar unexpanded candidate
+      candidates.sort((a, b) => b.score - a.score);
+      const closest = candidates.shift()!;
+      const worst = results[results.length - 1];
+      if (results.length >= ef && closest.score < worst.score) {
+        break;
+      }
+
+      const node = this.nodes.get(closest.id);
+      const links = node && layer <= node.level ? node.neighbors[layer] : [];
+
+      for (const neighborId of links) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const hit = { id: neighborId, score: dot(query, neighbor.vector) };
+        if (results.length < ef || hit.score > results[results.length - 1].score) {
+          candidates.push(hit);
+          results.push(hit);
+          results.sort((a, b) => b.score - a.score);
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+}
+
+/**
+ * FAISS-backed HNSW index (server only)
+ * FAISS HNSW cannot delete in place, so removals are tombstoned and the
+ * index is rebuilt once tombstones exceed a quarter of the stored vectors.
+ */
+export class FaissVectorIndex implements VectorIndex {
+  readonly kind = 'faiss' as const;
+  private index: FaissIndex;
+  private labels: Array<string | null> = [];
+  private positions: Map<string, number> = new Map();
+  private vectors: Map<string, number[]> = new Map();
+  private tombstones = 0;
+
+  constructor(private dimension: number, private descriptor: string = 'HNSW32,Flat') {
+    if (!faiss) {
+      throw new Error('faiss-node is not available in this environment');
+    }
+    this.index = this.createIndex();
+  }
+
+  static isAvailable(): boolean {
+    return !!faiss;
+  }
+
+  size(): number {
+    return this.positions.size;
+  }
+
+  has(id: string): boolean {
+    return this.positions.has(id);
+  }
+
+  add(id: string, vector: number[]): void {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Vector dimension mismatch: expected ${this.dimension}, got ${vector.length}`);
+    }
+
+    if (this.positions.has(id)) {
+      this.remove(id);
+    }
+
+    const normalized = normalizeVector(vector);
+    this.index.add(normalized);
+    this.positions.set(id, this.labels.length);
+    this.labels.push(id);
+    this.vectors.set(id, normalized);
+  }
+
+  remove(id: string): void {
+    const position = this.positions.get(id);
+    if (position === undefined) return;
+
+    this.labels[position] = null;
+    this.positions.delete(id);
+    this.vectors.delete(id);
+    this.tombstones++;
+
+    if (this.tombstones > this.labels.length / 4) {
+      this.rebuild();
+    }
+  }
+
+  search(query: number[], topK: number): VectorSearchHit[] {
+    if (this.positions.size === 0 || query.length !== this.dimension) {
+      return [];
+    }
+
+    // Over-fetch to compensate for tombstoned labels
+    const k = Math.min(this.labels.length, topK + this.tombstones);
+    const result = this.index.search(normalizeVector(query), k);
+
+    const hits: VectorSearchHit[] = [];
+    for (let i = 0; i < result.labels.length && hits.length < topK; i++) {
+      const id = this.labels[result.labels[i]];
+      if (id) {
+        hits.push({ id, score: result.distances[i] });
+      }
+    }
+    return hits;
+  }
+
+  snapshot(): VectorIndexSnapshot {
+    return {
+      kind: 'faiss',
+      dimension: this.dimension,
+      labels: this.labels,
+      data: this.index.toBuffer().toString('base64')
+    };
+  }
+
+  /**
+   * Restore a FAISS index; vectors are needed to support later rebuilds
+   */
+  static fromSnapshot(
+    snapshot: Extract<VectorIndexSnapshot, { kind: 'faiss' }>,
+    vectors: Map<string, number[]>
+  ): FaissVectorIndex {
+    const restored = new FaissVectorIndex(snapshot.dimension);
+    restored.index = faiss!.Index.fromBuffer(Buffer.from(snapshot.data, 'base64'));
+    restored.labels = snapshot.labels.map(id => (id && vectors.has(id) ? id : null));
+    restored.labels.forEach((id, position) => {
+      if (id) {
+        restored.positions.set(id, position);
+        restored.vectors.set(id, normalizeVector(vectors.get(id)!));
+      } else {
+        restored.tombstones++;
+      }
+    });
+    return restored;
+  }
+
+  private createIndex(): FaissIndex {
+    const { Index, MetricType } = faiss!;
+    return Index.fromFactory(this.dimension, this.descriptor, MetricType.METRIC_INNER_PRODUCT);
+  }
+
+  private rebuild(): void {
+    console.log(`🔧 Rebuilding FAISS index (${this.tombstones} tombstones)`);
+    const live = Array.from(this.vectors.entries());
+    this.index = this.createIndex();
+    this.labels = [];
+    this.positions.clear();
+    this.tombstones = 0;
+
+    live.forEach(([id, vector]) => {
+      this.index.add(vector);
+      this.positions.set(id, this.labels.length);
+      this.labels.push(id);
+    });
+  }
+}
+
+/**
+ * Create the best available vector index for the current runtime
+ */
+export function createVectorIndex(dimension: number): VectorIndex {
+  if (FaissVectorIndex.isAvailable()) {
+    try {
+      return new FaissVectorIndex(dimension);
+    } catch (error) {
+      console.warn('⚠️ Failed to create FAISS index, falling back to HNSW:', error);
+    }
+  }
+  return new HNSWVectorIndex(dimension);
+}
+
+/**
+ * Restore a vector index from a snapshot, or return null when it no longer matches the vectors
+ */
+export function restoreVectorIndex(snapshot: VectorIndexSnapshot, vectors: Map<string, number[]>): VectorIndex | null {
+  try {
+    if (snapshot.kind === 'faiss') {
+      return FaissVectorIndex.isAvailable() ? FaissVectorIndex.fromSnapshot(snapshot, vectors) : null;
+    }
+    return HNSWVectorIndex.fromSnapshot(snapshot, vectors);
+  } catch (error) {
+    console.warn('⚠️ Failed to restore vector index snapshot:', error);
+    return null;
+  }
+}
@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Native FAISS bindings must be loaded by Node, not bundled
+    serverComponentsExternalPackages: ['faiss-node'],
+  },
   webpack: (config, { isServer }) => {
     // Add global polyfills
     config.plugins.push(
@@ -25,6 +29,7 @@ const nextConfig = {
         http2: false,
         worker_threads: false,
         'node-domexception': false,
+        'faiss-node': false,
         'node:crypto': require.resolve('crypto-browserify'),
         'node:buffer': require.resolve('buffer'),
         'node:stream': require.resolve('stream-browserify'),
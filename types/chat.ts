@@ -1,3 +1,5 @@
+import { MemoryConflict } from './memory';
+
 export interface ChatMessage {
   id: string;
   content: string;
@@ -7,4 +9,7 @@ export interface ChatMessage {
   explorerUrl?: string;
   transactionHash?: string;
   walrusUrl?: string;
+  memoriesUsed?: string[]; // Memories the assistant drew on for this reply
+  clarification?: MemoryConflict; // Contradiction the assistant asked about in this reply
+  memoriesCreated?: string[]; // Memories stored from this exchange
 }
@@ -1,13 +1,28 @@
 export interface EncryptionConfig {
   algorithm: 'AES-256-GCM' | 'ChaCha20-Poly1305';
   keyDerivation: 'PBKDF2' | 'Argon2' | 'scrypt';
-  iterations: number;
+  iterations: number; // PBKDF2 iterations
   saltLength: number;
   ivLength: number;
   tagLength: number;
+  scrypt: ScryptParams;
+  argon2: Argon2Params;
+}
+
+export interface ScryptParams {
+  N: number; // CPU/memory cost, power of two
+  r: number; // Block size
+  p: number; // Parallelism
+}
+
+export interface Argon2Params {
+  memoryKiB: number;
+  passes: number;
+  parallelism: number;
 }
 
 export interface EncryptedData {
+  version?: number; // Ciphertext format; absent on legacy CryptoJS AES-CBC data
   encryptedContent: string;
   iv: string;
   salt: string;
@@ -15,6 +30,7 @@ export interface EncryptedData {
   algorithm: string;
   keyDerivation: string;
   iterations: number;
+  kdfParams?: Partial<ScryptParams & Argon2Params>; // scrypt/Argon2 parameters used for this ciphertext
 }
 
 export interface ThresholdEncryptionConfig {
@@ -35,10 +51,18 @@ export interface EncryptionKey {
 }
 
 export interface TimelockEncryption {
-  encryptedKey: string;
+  encryptedKey: string; // Content key masked with the beacon round's pairing value (hex)
   unlockTime: number; // Unix timestamp
-  timelockAlgorithm: 'RSA' | 'Lattice';
-  publicKey: string;
+  timelockAlgorithm: 'RSA' | 'Lattice' | 'BLS-IBE';
+  publicKey: string; // Ephemeral G2 point r·G2 (hex)
+  round: number; // Beacon round whose signature unlocks the key
+  beaconId: string;
+}
+
+export interface EnvelopeEncryptedData {
+  keyId: string; // Key-encryption key that wraps the data key
+  wrappedKey: EncryptedData; // Per-blob data key, encrypted under keyId
+  payload: EncryptedData; // Content, encrypted under the data key
 }
 
 export interface DecryptionResult {
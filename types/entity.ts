@@ -0,0 +1,36 @@
+export type EntityKind = 'person' | 'place' | 'organization';
+
+export type EntitySource = 'memory' | 'calendar';
+
+/**
+ * One time the user dealt with an entity: a memory mentioning it or a calendar event with it
+ */
+export interface EntityInteraction {
+  source: EntitySource;
+  sourceId: string; // Memory ID or calendar event ID
+  date: string;
+  summary: string;
+  met: boolean; // The user saw or spoke with them (for places: was there)
+}
+
+export interface Entity {
+  id: string;
+  kind: EntityKind;
+  name: string; // Most complete name seen
+  aliases: string[]; // Lowercased names and short forms that resolve to this entity
+  emails: string[];
+  firstSeen: string;
+  lastSeen: string;
+  lastMet?: string;
+  nextMeeting?: string; // Earliest upcoming calendar event with them
+  topics: Record<string, number>; // Topic -> number of interactions mentioning it
+  preferences: string[]; // What they like or dislike, as stated by the user
+  interactions: EntityInteraction[]; // Newest first
+}
+
+export interface EntityProfile {
+  entity: Entity;
+  topTopics: string[];
+  recentInteractions: EntityInteraction[];
+  lastMetInteraction?: EntityInteraction;
+}
@@ -65,6 +65,192 @@ export interface MemoryMetadata {
   encryptionSalt?: string; // For storing encryption salt for key regeneration
   blobId?: string; // For storing 0G/Walrus blob ID
   storageProvider?: string; // Which storage provider was used
+  uploadPending?: boolean; // Encrypted upload to 0G/Walrus failed; retried on initialize
+  confidence?: number; // 0-1, for memories extracted automatically from conversations
+  archived?: boolean; // Superseded (e.g. by a consolidation summary); hidden from search by default
+  archivedAt?: string;
+  consolidatedInto?: string; // ID of the summary memory that replaced this one
+  conversationId?: string; // Conversation turn the memory was extracted from
+  supersededBy?: string; // Newer memory that contradicted and replaced this one
+  supersedes?: string[]; // Older memories this one replaced
+  pinned?: boolean; // Pinned memories are always kept and ranked first
+  pinnedAt?: string;
+  accessCount?: number; // Times the memory was retrieved into a reply
+  lastAccessedAt?: string;
+  feedback?: number; // Net helpful (+1) / unhelpful (-1) votes
+  importance?: number; // Last computed importance score, 0-1
+  prunedAt?: string; // Archived because its importance decayed
+  pii?: PiiRedactionSummary; // Sensitive spans removed from the content before it was stored
+  provenance?: MemoryProvenance; // Where the memory came from
+  media?: MediaManifest; // Uploaded file behind a multimedia memory; content holds its extracted text
+  links?: string[]; // Explicit links to other memories (e.g. imported wiki-links); always kept in the graph
+  importSource?: MemoryImportSource; // Archive the memory was imported from
+}
+
+export type MemoryImportFormat = 'markdown' | 'json' | 'csv' | 'chatgpt';
+
+/**
+ * Where an imported memory came from. originalCreatedAt is the date the source recorded, since
+ * createdAt is the import time.
+ */
+export interface MemoryImportSource {
+  format: MemoryImportFormat;
+  path: string; // File in the archive, with '#<id>' for records inside a JSON, CSV or ChatGPT export
+  originalCreatedAt?: string;
+  importedAt: string;
+}
+
+// How the searchable text of an uploaded file was obtained
+export type MediaExtractionMethod = 'text' | 'markdown' | 'pdf' | 'transcript' | 'vision' | 'none';
+
+/**
+ * One encrypted piece of an uploaded file. Chunks are addressed by the hash of their plaintext,
+ * so identical chunks are uploaded once and verified on download.
+ */
+export interface MediaChunk {
+  index: number;
+  hash: string; // SHA-256 of the plaintext chunk
+  size: number;
+  blobId: string;
+  keyScope: string; // ID the chunk key is derived for; with keySalt it re-derives the key from the master password
+  keySalt: string;
+}
+
+/**
+ * How to reassemble an uploaded file from its chunks
+ */
+export interface MediaManifest {
+  fileName: string;
+  mimeType: string;
+  size: number; // Bytes in the original file (metadata.size is the length of the extracted text)
+  hash: string; // SHA-256 of the whole file
+  chunkSize: number;
+  chunks: MediaChunk[];
+  extraction: MediaExtractionMethod;
+  manifestBlobId?: string; // Encrypted copy of the manifest on Walrus, for restoring on another device
+}
+
+export type MemoryExtractionMethod = 'llm' | 'heuristic' | 'consolidation';
+
+/**
+ * Which chat session and messages produced a memory, and how. IDs only: message text is never
+ * copied into metadata, which is stored alongside the memory.
+ */
+export interface MemoryProvenance {
+  sessionId?: string;
+  messageIds: string[]; // The user message and the reply; grows when later messages repeat the memory
+  extractionMethod: MemoryExtractionMethod;
+  model?: string; // LLM that extracted or summarized it
+  createdAt: string;
+}
+
+export type PiiCategory = 'email' | 'phone' | 'address' | 'financial' | 'government_id' | 'health';
+
+export interface PiiRedactionSummary {
+  mode: 'tokenize' | 'redact'; // Tokens can be rehydrated from the local vault; redactions can't
+  counts: Partial<Record<PiiCategory, number>>;
+}
+
+export type MemoryEdgeType = 'supports' | 'contradicts' | 'follows-up' | 'same-topic';
+
+export type MemoryLinkReason = 'entity' | 'tag' | 'conversation' | 'embedding' | 'link';
+
+/**
+ * Typed link between two memories in the relationship graph. 'follows-up' edges point from the
+ * earlier memory to the later one; the other types are symmetric.
+ */
+export interface MemoryEdge {
+  source: string;
+  target: string;
+  type: MemoryEdgeType;
+  weight: number; // 0-1 link strength
+  reasons: MemoryLinkReason[];
+  createdAt: string;
+}
+
+/**
+ * Declarative retention rule: memories matching every criterion given are deleted (and revoked
+ * on-chain) once older than maxAgeDays. Within one criterion any listed value matches.
+ */
+export interface RetentionRule {
+  id: string;
+  description?: string;
+  types?: MemoryType[];
+  categories?: string[];
+  tags?: string[];
+  maxAgeDays: number;
+  includePinned?: boolean; // Pinned memories are kept unless this is set
+  enabled?: boolean; // Default true
+}
+
+export type ProposedMemoryStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * A memory the agent extracted from a conversation, waiting for the user's consent before it is
+ * encrypted, uploaded and anchored. Reviewed proposals are kept as a short history.
+ */
+export interface ProposedMemory {
+  id: string;
+  content: string;
+  type: MemoryType;
+  category: string;
+  tags: string[];
+  confidence?: number;
+  conversationId: string; // Proposals from the same turn share it, as do the memories they become
+  provenance?: MemoryProvenance;
+  status: ProposedMemoryStatus;
+  proposedAt: string;
+  reviewedAt?: string;
+  reviewedBy?: 'auto' | 'user';
+  edited?: boolean; // Approved with changes
+  memoryId?: string; // Memory created on approval
+}
+
+// What happens to a proposal as soon as it is made
+export type MemoryReviewAction = 'approve' | 'review';
+
+export interface MemoryReviewSettings {
+  defaultAction: MemoryReviewAction; // For categories without their own rule
+  categories: Record<string, MemoryReviewAction>;
+}
+
+export type MemoryConflictStatus = 'pending' | 'superseded' | 'kept-existing' | 'kept-both';
+
+/**
+ * A new memory that contradicts an existing one, and how the conflict was settled.
+ * Entries are never removed, so the log doubles as the audit trail for superseded memories.
+ */
+export interface MemoryConflict {
+  id: string;
+  newMemoryId: string;
+  existingMemoryId: string;
+  newContent: string;
+  existingContent: string;
+  reason: string;
+  confidence: number; // 0-1
+  status: MemoryConflictStatus;
+  detectedAt: string;
+  askedAt?: string; // When the assistant raised it in chat
+  resolvedAt?: string;
+  resolvedBy?: 'auto' | 'user';
+}
+
+/**
+ * Immutable snapshot of one version of a memory's content
+ */
+export interface MemoryVersion {
+  memoryId: string;
+  version: number;
+  content: string;
+  tags: string[];
+  category: string;
+  contentHash: string; // keccak256 of content, as committed on-chain
+  blobId?: string; // Walrus/0G blob holding this version
+  parentId?: string; // Blob of the version this one replaced
+  createdAt: string;
+  revertedFrom?: number; // Set when this version restores an earlier one
+  anchored?: boolean; // Committed to the MemoryRegistry contract
+  transactionHash?: string;
 }
 
 export interface MemorySearchQuery {
@@ -80,6 +266,7 @@ export interface MemorySearchQuery {
   limit?: number;
   offset?: number;
   verifyIntegrity?: boolean; // Enable verification flow
+  includeArchived?: boolean; // Include memories archived by consolidation
 }
 
 export interface MemorySearchResult {